@@ -1,31 +1,120 @@
-import { useState } from 'react';
-import { AuthProvider } from './hooks/useAuth';
+import { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { AuthProvider, useAuth } from './hooks/useAuth';
+import { useStorageChanges } from './hooks/useStorageChanges';
+import { Login } from './components/Login';
 import { Dashboard } from './components/Dashboard';
 import { Settings } from './components/Settings';
 import { Admin } from './components/Admin';
+import { SetupWizard } from './components/SetupWizard';
+import { BreakGlassRecovery } from './components/BreakGlassRecovery';
+import { AuditWriteAlert } from './components/AuditWriteAlert';
+import { RequirePermission, AccessDenied } from './components/RequirePermission';
+import { PAGE_PERMISSIONS } from './utils/permissions';
+import { needsSetup } from './utils/setup';
+import type { StorageChange } from './utils/changeFeed';
 import type { Page } from './types';
 
 function AppContent() {
+  const { isAuthenticated, isLoading, isBreakGlass } = useAuth();
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const [setupRequired, setSetupRequired] = useState<boolean | null>(null);
+  const [setupError, setSetupError] = useState('');
 
   const handleNavigate = (page: Page) => setCurrentPage(page);
 
-  switch (currentPage) {
+  // Start the next session on the dashboard rather than the last page visited
+  useEffect(() => {
+    if (!isAuthenticated) setCurrentPage('dashboard');
+  }, [isAuthenticated]);
+
+  const checkSetup = useCallback(async () => {
+    try {
+      setSetupRequired(await needsSetup());
+      setSetupError('');
+    } catch (error) {
+      console.error('Failed to check setup:', error);
+      setSetupError(error instanceof Error ? error.message : 'Failed to read stored data');
+    }
+  }, []);
+
+  // Signed-out visitors see the one-time setup screen until an admin exists
+  useEffect(() => {
+    if (isAuthenticated || setupRequired === false) return;
+    checkSetup();
+  }, [isAuthenticated, setupRequired, checkSetup]);
+
+  // Setup finished in another tab: show the sign-in screen here too
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'setup' || change.kind === 'all') {
+      checkSetup();
+    }
+  }, [checkSetup]);
+
+  useStorageChanges(handleStorageChange);
+
+  if (!isLoading && !isAuthenticated && setupRequired === null && setupError) {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <div className="glass-card p-8 text-center max-w-md">
+          <AlertTriangle className="w-16 h-16 text-neon-red mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-white mb-2">Could not check setup</h1>
+          <p className="text-gray-400 mb-4">{setupError}</p>
+          <button onClick={checkSetup} className="btn-neon">
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || (!isAuthenticated && setupRequired === null)) {
+    return (
+      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+        <span className="loading-spinner" />
+      </div>
+    );
+  }
+
+  if (setupRequired) {
+    return <SetupWizard onComplete={() => setSetupRequired(false)} />;
+  }
+
+  if (!isAuthenticated) {
+    return <Login />;
+  }
+
+  if (isBreakGlass) {
+    return <BreakGlassRecovery />;
+  }
+
+  return (
+    <RequirePermission
+      permission={PAGE_PERMISSIONS[currentPage]}
+      fallback={<AccessDenied onNavigate={handleNavigate} />}
+    >
+      {renderPage(currentPage, handleNavigate)}
+    </RequirePermission>
+  );
+}
+
+function renderPage(page: Page, onNavigate: (page: Page) => void) {
+  switch (page) {
     case 'settings':
-      return <Settings onNavigate={handleNavigate} />;
+      return <Settings onNavigate={onNavigate} />;
     case 'admin':
-      return <Admin onNavigate={handleNavigate} />;
+      return <Admin onNavigate={onNavigate} />;
     case 'dashboard':
     default:
-      return <Dashboard onNavigate={handleNavigate} />;
+      return <Dashboard onNavigate={onNavigate} />;
   }
 }
 
-// Bypass auth - direct access to app
 function App() {
   return (
     <AuthProvider>
       <AppContent />
+      <AuditWriteAlert />
     </AuthProvider>
   );
 }
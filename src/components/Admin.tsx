@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { 
   LayoutDashboard, 
   Settings as SettingsIcon, 
@@ -12,69 +12,195 @@ import {
   AlertTriangle,
   ChevronLeft,
   ChevronRight,
-  Search
+  Search,
+  X,
+  RotateCw,
+  ShieldOff
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { generateSecureToken, hashToken } from '../utils/crypto';
-import { createUser } from '../utils/storage';
-import { logAuditEvent } from '../utils/auth';
-import type { NavigateFunction } from '../types';
-
-interface User {
-  id: string;
-  token: string;
-  role: 'admin' | 'manager' | 'user';
-  status: 'active' | 'inactive' | 'pending';
-  createdAt: string;
-  expiresAt: string | null;
-}
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import { generateSecureToken, getTokenLookupId, hashToken } from '../utils/crypto';
+import {
+  createUser,
+  discardQuarantinedRecord,
+  listAllUsers,
+  listQuarantinedRecords,
+  listRoles,
+  migrateAllUsers,
+  RevisionConflictError
+} from '../utils/storage';
+import { getTokenState } from '../utils/auth';
+import { logAuditEvent } from '../utils/audit';
+import {
+  computeExpiry,
+  revokeUserToken,
+  listRevokedUsers,
+  rotateUserToken,
+  retireExpiredTokens,
+  getRotationGracePeriod,
+  getTokenBoundSecrets
+} from '../utils/tokens';
+import {
+  permissionsFromFlags,
+  flagsFromPermissions,
+  ALL_PERMISSIONS,
+  BUILT_IN_ROLES,
+  PERMISSION_CATALOG,
+  type PermissionKey
+} from '../utils/permissions';
+import { changeUserAccess } from '../utils/roles';
+import { findConflictingFields, mergeUserData } from '../utils/recordMerge';
+import { disableTwoFactor } from '../utils/twoFactor';
+import type { StorageChange } from '../utils/changeFeed';
+import { ALL_SECTIONS, DASHBOARD_SECTIONS, canAdminister, describeTokenScope, normalizeTokenScope } from '../utils/scopes';
+import { KeyRotationPanel } from './KeyRotationPanel';
+import { BackupPanel } from './BackupPanel';
+import { BreakGlassPanel } from './BreakGlassPanel';
+import { RoleManager } from './RoleManager';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { AuditLog } from './AuditLog';
+import {
+  PROVIDERS,
+  type DashboardSection,
+  type NavigateFunction,
+  type QuarantinedRecord,
+  type RoleDefinition,
+  type UserData
+} from '../types';
 
-const mockUsers: User[] = [
-  { id: '1', token: 'atm_v2_••••••a3f9', role: 'admin', status: 'active', createdAt: 'Feb 13, 2025', expiresAt: 'Never' },
-  { id: '2', token: 'atm_v2_••••••b7e2', role: 'manager', status: 'active', createdAt: 'Feb 12, 2025', expiresAt: 'Mar 14, 2025' },
-  { id: '3', token: 'atm_v2_••••••c1a5', role: 'user', status: 'active', createdAt: 'Feb 10, 2025', expiresAt: 'Mar 12, 2025' },
-  { id: '4', token: 'atm_v2_••••••d8f1', role: 'user', status: 'inactive', createdAt: 'Feb 05, 2025', expiresAt: null },
-  { id: '5', token: 'atm_v2_••••••e4b6', role: 'manager', status: 'pending', createdAt: 'Feb 01, 2025', expiresAt: 'Mar 03, 2025' },
+const GRACE_OPTIONS = [
+  { hours: 0, label: 'None - retire immediately' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
 ];
 
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' });
+
+// Rows are labelled by the public lookup id; tokens not yet indexed fall back to the uuid tail
+const getTokenLabel = (userItem: UserData) =>
+  userItem.tokenId && !userItem.tokenId.startsWith('legacy_')
+    ? `atm_v2_${userItem.tokenId}_••••`
+    : `atm_v2_••••••${userItem.uuid.slice(-4)}`;
+
+// Another writer saved the user while the edit dialog was open
+interface EditConflict {
+  current: UserData | null; // null if the user was deleted
+  fields: string[]; // Fields both sides changed; merging keeps the admin's values
+}
+
 export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
   const { user, logout, isAdmin } = useAuth();
-  const [users, setUsers] = useState<User[]>(mockUsers);
+  // A read-only admin token can open this page but not change anything on it
+  const canManage = canAdminister(user);
+  const [users, setUsers] = useState<UserData[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [revokedUsers, setRevokedUsers] = useState<UserData[]>([]);
+  const [revokeTarget, setRevokeTarget] = useState<UserData | null>(null);
+  const [revokeReason, setRevokeReason] = useState('');
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [rotateTarget, setRotateTarget] = useState<UserData | null>(null);
+  const [graceHours, setGraceHours] = useState('');
+  const [rotatedToken, setRotatedToken] = useState<string | null>(null);
+  const [isRotating, setIsRotating] = useState(false);
+  const [rotateError, setRotateError] = useState('');
+  const [rotatedCopied, setRotatedCopied] = useState(false);
   const [selectedRole, setSelectedRole] = useState('user');
-  const [permissions, setPermissions] = useState({
-    readDashboard: true,
-    modifySettings: false,
-    manageProviders: false,
-    adminAccess: false,
-  });
+  const [permissions, setPermissions] = useState<Record<PermissionKey, boolean>>(
+    () => flagsFromPermissions(BUILT_IN_ROLES.user.permissions)
+  );
   const [expiresIn, setExpiresIn] = useState('30');
+  const [scopeProviders, setScopeProviders] = useState<string[]>(() => PROVIDERS.map(p => p.id));
+  const [scopeSections, setScopeSections] = useState<DashboardSection[]>(ALL_SECTIONS);
+  const [scopeReadOnly, setScopeReadOnly] = useState(false);
   const [generatedToken, setGeneratedToken] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [copied, setCopied] = useState(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [editTarget, setEditTarget] = useState<UserData | null>(null);
+  const [editRole, setEditRole] = useState('');
+  const [editPermissions, setEditPermissions] = useState<string[]>([]);
+  const [editConflict, setEditConflict] = useState<EditConflict | null>(null);
+  const [editError, setEditError] = useState('');
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
 
   const initials = user ? `${user.role.charAt(0).toUpperCase()}U` : 'GU';
 
-  if (!isAdmin) {
-    return (
-      <div className="min-h-screen bg-bg-primary flex items-center justify-center">
-        <div className="glass-card p-8 text-center">
-          <AlertTriangle className="w-16 h-16 text-neon-yellow mx-auto mb-4" />
-          <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
-          <p className="text-gray-400 mb-4">You don't have permission to access this page.</p>
-          <button onClick={() => onNavigate('dashboard')} className="btn-neon">
-            Go to Dashboard
-          </button>
-        </div>
-      </div>
-    );
-  }
+  const refreshUsers = useCallback(async () => {
+    const [allUsers, revoked, allRoles, quarantinedRecords] = await Promise.all([
+      listAllUsers(),
+      listRevokedUsers(),
+      listRoles(),
+      listQuarantinedRecords()
+    ]);
+    setUsers(allUsers);
+    setRevokedUsers(revoked);
+    setRoles(allRoles);
+    setQuarantined(quarantinedRecords);
+    setLoadError('');
+  }, []);
+
+  const showLoadError = useCallback((error: unknown) => {
+    console.error('Failed to load users:', error);
+    setLoadError(error instanceof Error ? error.message : 'Failed to load users');
+  }, []);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    // Upgrade records from older versions, then retire rotated-out tokens whose grace window closed
+    migrateAllUsers().then(() => retireExpiredTokens()).then(refreshUsers).catch(showLoadError);
+  }, [isAdmin, refreshUsers, showLoadError]);
 
-  const handlePermissionChange = (key: keyof typeof permissions) => {
+  // Another admin tab issued, revoked or edited a token or role
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (isAdmin && change.kind !== 'audit' && change.kind !== 'setup') {
+      refreshUsers().catch(showLoadError);
+    }
+  }, [isAdmin, refreshUsers, showLoadError]);
+
+  useStorageChanges(handleStorageChange);
+
+  const handleDiscardQuarantined = async (key: string) => {
+    if (!canManage) return;
+    await discardQuarantinedRecord(key);
+    await refreshUsers();
+  };
+
+  const handlePermissionChange = (key: PermissionKey) => {
     setPermissions(prev => ({ ...prev, [key]: !prev[key] }));
   };
 
+  // Picking a role presets the checkboxes with its bundle; extras can still be ticked
+  const handleRoleChange = (roleId: string) => {
+    setSelectedRole(roleId);
+    const role = roles.find(r => r.id === roleId);
+    setPermissions(flagsFromPermissions(role?.permissions ?? []));
+  };
+
+  const toggleScopeProvider = (providerId: string) => {
+    setScopeProviders(prev => prev.includes(providerId) ? prev.filter(id => id !== providerId) : [...prev, providerId]);
+  };
+
+  const toggleScopeSection = (section: DashboardSection) => {
+    setScopeSections(prev => prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]);
+  };
+
+  // Everything ticked means unrestricted, which also covers providers added later
+  const buildScope = () => normalizeTokenScope({
+    providers: scopeProviders.length === PROVIDERS.length ? null : PROVIDERS.map(p => p.id).filter(id => scopeProviders.includes(id)),
+    readOnly: scopeReadOnly,
+    sections: scopeSections.length === ALL_SECTIONS.length ? null : ALL_SECTIONS.filter(s => scopeSections.includes(s))
+  });
+
+  const getRoleName = (roleId: string) =>
+    roles.find(r => r.id === roleId)?.name ?? roleId.charAt(0).toUpperCase() + roleId.slice(1);
+
   const generateToken = async () => {
+    if (!canManage) return;
     setIsGenerating(true);
     
     setTimeout(async () => {
@@ -82,20 +208,25 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
       const tokenHash = await hashToken(newToken);
       
       try {
-        const newUser = await createUser(tokenHash, selectedRole);
-        
-        const userEntry: User = {
-          id: newUser.uuid,
-          token: newToken.substring(0, 10) + '••••••',
-          role: selectedRole as 'admin' | 'manager' | 'user',
-          status: 'active',
-          createdAt: new Date().toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' }),
-          expiresAt: expiresIn === 'never' ? 'Never' : new Date(Date.now() + parseInt(expiresIn) * 24 * 60 * 60 * 1000).toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' })
-        };
-        
-        setUsers(prev => [userEntry, ...prev]);
+        const grantedPermissions = permissionsFromFlags(permissions);
+        const scope = buildScope();
+        const created = await createUser(tokenHash, selectedRole, {
+          expiresAt: computeExpiry(expiresIn),
+          permissions: grantedPermissions,
+          tokenId: await getTokenLookupId(newToken),
+          scope
+        });
+        await refreshUsers();
         setGeneratedToken(newToken);
-        logAuditEvent('TOKEN_GENERATED', { role: selectedRole, permissions });
+        logAuditEvent({
+          type: 'TOKEN_GENERATED',
+          actor: user?.uuid ?? null,
+          target: created.uuid,
+          outcome: 'success',
+          role: selectedRole,
+          permissions: grantedPermissions,
+          scope: scope ? describeTokenScope(scope) : null
+        });
       } catch (error) {
         console.error('Failed to create user:', error);
       }
@@ -104,6 +235,152 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
     }, 1500);
   };
 
+  // For holders who lost both their authenticator and their recovery codes
+  const resetTwoFactor = async (target: UserData) => {
+    if (!user || !canManage || !window.confirm(`Remove two-factor authentication from ${getTokenLabel(target)}?`)) return;
+    try {
+      await disableTwoFactor(target.uuid, user.uuid);
+      await refreshUsers();
+    } catch (error) {
+      console.error('Failed to reset two-factor:', error);
+    }
+  };
+
+  const openEditModal = (target: UserData) => {
+    setEditTarget(target);
+    setEditRole(target.role);
+    setEditPermissions([...target.permissions]);
+    setEditConflict(null);
+    setEditError('');
+  };
+
+  const closeEditModal = () => {
+    setEditTarget(null);
+    setEditConflict(null);
+    setIsSavingEdit(false);
+  };
+
+  const toggleEditPermission = (permission: string) => {
+    setEditPermissions(prev => prev.includes(permission) ? prev.filter(p => p !== permission) : [...prev, permission]);
+  };
+
+  const saveEdit = async (base: UserData) => {
+    if (!editTarget || !user || !canManage) return;
+
+    setIsSavingEdit(true);
+    setEditError('');
+    try {
+      await changeUserAccess(base, editRole, editPermissions, user.uuid);
+      await refreshUsers();
+      closeEditModal();
+    } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        const mine = { ...editTarget, role: editRole, permissions: editPermissions };
+        setEditConflict({
+          current: error.current,
+          fields: error.current ? findConflictingFields(editTarget, mine, error.current) : []
+        });
+      } else {
+        setEditError(error instanceof Error ? error.message : 'Failed to save changes');
+      }
+      setIsSavingEdit(false);
+    }
+  };
+
+  // Keep this edit on top of the newer record: permissions merge, role is replaced
+  const mergeEdit = () => {
+    if (!editTarget || !editConflict?.current) return;
+    const merged = mergeUserData(
+      editTarget,
+      { ...editTarget, role: editRole, permissions: editPermissions },
+      editConflict.current
+    );
+    setEditPermissions(merged.permissions);
+    setEditConflict(null);
+    saveEdit(merged);
+  };
+
+  // Drop this edit and start again from the newer record
+  const reloadEdit = () => {
+    if (!editConflict?.current) return;
+    openEditModal(editConflict.current);
+    refreshUsers();
+  };
+
+  const openRevokeModal = (target: UserData) => {
+    setRevokeTarget(target);
+    setRevokeReason('');
+  };
+
+  const closeRevokeModal = () => {
+    setRevokeTarget(null);
+    setRevokeReason('');
+    setIsRevoking(false);
+  };
+
+  const confirmRevoke = async () => {
+    if (!revokeTarget || !user || !canManage) return;
+
+    setIsRevoking(true);
+    try {
+      await revokeUserToken(revokeTarget.uuid, revokeReason, user.uuid);
+      await refreshUsers();
+      closeRevokeModal();
+    } catch (error) {
+      console.error('Failed to revoke token:', error);
+      setIsRevoking(false);
+    }
+  };
+
+  const defaultGraceHours = String(getRotationGracePeriod() / (60 * 60 * 1000));
+  const graceOptions = GRACE_OPTIONS.some(option => String(option.hours) === defaultGraceHours)
+    ? GRACE_OPTIONS
+    : [...GRACE_OPTIONS, { hours: Number(defaultGraceHours), label: `${defaultGraceHours} hours (default)` }];
+
+  const openRotateModal = (target: UserData) => {
+    setRotateTarget(target);
+    setGraceHours(defaultGraceHours);
+    setRotatedToken(null);
+    setRotatedCopied(false);
+    setRotateError('');
+  };
+
+  const closeRotateModal = () => {
+    setRotateTarget(null);
+    setRotatedToken(null);
+    setIsRotating(false);
+  };
+
+  const confirmRotate = async () => {
+    if (!rotateTarget || !user || !canManage) return;
+
+    setIsRotating(true);
+    setRotateError('');
+    try {
+      const result = await rotateUserToken(rotateTarget.uuid, user.uuid, Number(graceHours) * 60 * 60 * 1000);
+      setRotatedToken(result.token);
+      await refreshUsers();
+    } catch (error) {
+      console.error('Failed to rotate token:', error);
+      setRotateError(error instanceof Error ? error.message : 'Failed to rotate token');
+    }
+    setIsRotating(false);
+  };
+
+  const rotateBoundSecrets = rotateTarget ? getTokenBoundSecrets(rotateTarget) : [];
+
+  const copyRotatedToken = async () => {
+    if (!rotatedToken) return;
+
+    try {
+      await navigator.clipboard.writeText(rotatedToken);
+      setRotatedCopied(true);
+      setTimeout(() => setRotatedCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
   const copyToken = async () => {
     if (!generatedToken) return;
     
@@ -127,8 +404,8 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'active': return 'active';
-      case 'inactive': return 'inactive';
-      case 'pending': return 'pending';
+      case 'revoked': return 'inactive';
+      case 'expired': return 'pending';
       default: return 'active';
     }
   };
@@ -136,15 +413,15 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
   const getStatusDotClass = (status: string) => {
     switch (status) {
       case 'active': return 'bg-neon-green';
-      case 'inactive': return 'bg-neon-red';
-      case 'pending': return 'bg-neon-yellow';
+      case 'revoked': return 'bg-neon-red';
+      case 'expired': return 'bg-neon-yellow';
       default: return 'bg-neon-green';
     }
   };
 
   const filteredUsers = users.filter(u => 
-    u.token.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    u.role.toLowerCase().includes(searchQuery.toLowerCase())
+    getTokenLabel(u).toLowerCase().includes(searchQuery.toLowerCase()) ||
+    getRoleName(u.role).toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   return (
@@ -204,6 +481,32 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
           </div>
         </header>
 
+        {loadError && (
+          <div className="alert alert-danger mb-8">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            <p className="text-sm">Could not load users: {loadError}. The list below may be out of date.</p>
+          </div>
+        )}
+
+        {quarantined.length > 0 && (
+          <div className="alert alert-warning mb-8 flex-col items-stretch">
+            <p className="text-sm flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              {quarantined.length} stored record{quarantined.length === 1 ? '' : 's'} failed validation and {quarantined.length === 1 ? 'was' : 'were'} set aside
+            </p>
+            {quarantined.map(record => (
+              <div key={record.key} className="flex items-center justify-between gap-4 text-xs">
+                <span className="font-mono break-all">{record.key}: {record.reason}</span>
+                {canManage && (
+                  <button onClick={() => handleDiscardQuarantined(record.key)} className="btn-secondary text-xs flex-shrink-0">
+                    Discard
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* System Status Cards */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
           <div className="stat-card">
@@ -223,7 +526,7 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
               </div>
               <span className="text-sm text-gray-400">Active Users</span>
             </div>
-            <p className="text-2xl font-bold text-neon-cyan">{users.filter(u => u.status === 'active').length}</p>
+            <p className="text-2xl font-bold text-neon-cyan">{users.filter(u => getTokenState(u) === 'active').length}</p>
           </div>
           
           <div className="stat-card">
@@ -250,118 +553,174 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Generate Token Card */}
           <div className="lg:col-span-1">
-            <div className="glass-card p-6 sticky top-8">
-              <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
-                <Key className="w-5 h-5 text-neon-cyan" />
-                Generate Token
-              </h2>
-              
-              <div className="space-y-5">
-                <div>
-                  <label className="form-label">Role</label>
-                  <select 
-                    className="form-select"
-                    value={selectedRole}
-                    onChange={(e) => setSelectedRole(e.target.value)}
-                  >
-                    <option value="user">User</option>
-                    <option value="manager">Manager</option>
-                    <option value="admin">Admin</option>
-                  </select>
-                </div>
+            {canManage ? (
+              <div className="glass-card p-6 sticky top-8">
+                <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
+                  <Key className="w-5 h-5 text-neon-cyan" />
+                  Generate Token
+                </h2>
                 
-                <div>
-                  <label className="form-label">Permissions</label>
-                  <div className="checkbox-group">
-                    <label className="checkbox-item">
-                      <input 
-                        type="checkbox" 
-                        checked={permissions.readDashboard}
-                        onChange={() => handlePermissionChange('readDashboard')}
-                      />
-                      <span>Read Dashboard</span>
-                    </label>
-                    <label className="checkbox-item">
-                      <input 
-                        type="checkbox" 
-                        checked={permissions.modifySettings}
-                        onChange={() => handlePermissionChange('modifySettings')}
-                      />
-                      <span>Modify Settings</span>
-                    </label>
-                    <label className="checkbox-item">
-                      <input 
-                        type="checkbox" 
-                        checked={permissions.manageProviders}
-                        onChange={() => handlePermissionChange('manageProviders')}
-                      />
-                      <span>Manage Providers</span>
-                    </label>
+                <div className="space-y-5">
+                  <div>
+                    <label className="form-label">Role</label>
+                    <select 
+                      className="form-select"
+                      value={selectedRole}
+                      onChange={(e) => handleRoleChange(e.target.value)}
+                    >
+                      {roles.map(role => (
+                        <option key={role.id} value={role.id}>{role.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
+                  <div>
+                    <label className="form-label">Permissions</label>
+                    <div className="checkbox-group">
+                      <label className="checkbox-item">
+                        <input 
+                          type="checkbox" 
+                          checked={permissions.readDashboard}
+                          onChange={() => handlePermissionChange('readDashboard')}
+                        />
+                        <span>Read Dashboard</span>
+                      </label>
+                      <label className="checkbox-item">
+                        <input 
+                          type="checkbox" 
+                          checked={permissions.modifySettings}
+                          onChange={() => handlePermissionChange('modifySettings')}
+                        />
+                        <span>Modify Settings</span>
+                      </label>
+                      <label className="checkbox-item">
+                        <input 
+                          type="checkbox" 
+                          checked={permissions.manageProviders}
+                          onChange={() => handlePermissionChange('manageProviders')}
+                        />
+                        <span>Manage Providers</span>
+                      </label>
+                      <label className="checkbox-item">
+                        <input 
+                          type="checkbox" 
+                          checked={permissions.adminAccess}
+                          onChange={() => handlePermissionChange('adminAccess')}
+                        />
+                        <span>Admin Access</span>
+                      </label>
+                    </div>
+                  </div>
+                  
+                  <div>
+                    <label className="form-label">Provider Scope</label>
+                    <div className="checkbox-group">
+                      {PROVIDERS.map(provider => (
+                        <label key={provider.id} className="checkbox-item">
+                          <input 
+                            type="checkbox" 
+                            checked={scopeProviders.includes(provider.id)}
+                            onChange={() => toggleScopeProvider(provider.id)}
+                          />
+                          <span>{provider.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="form-label">Dashboard Sections</label>
+                    <div className="checkbox-group">
+                      {ALL_SECTIONS.map(section => (
+                        <label key={section} className="checkbox-item">
+                          <input 
+                            type="checkbox" 
+                            checked={scopeSections.includes(section)}
+                            onChange={() => toggleScopeSection(section)}
+                          />
+                          <span>{DASHBOARD_SECTIONS[section].label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
                     <label className="checkbox-item">
                       <input 
                         type="checkbox" 
-                        checked={permissions.adminAccess}
-                        onChange={() => handlePermissionChange('adminAccess')}
+                        checked={scopeReadOnly}
+                        onChange={() => setScopeReadOnly(prev => !prev)}
                       />
-                      <span>Admin Access</span>
+                      <span>Read-only (cannot reveal or change provider keys, or make Admin changes)</span>
                     </label>
                   </div>
-                </div>
-                
-                <div>
-                  <label className="form-label">Expires In</label>
-                  <select 
-                    className="form-select"
-                    value={expiresIn}
-                    onChange={(e) => setExpiresIn(e.target.value)}
+                  
+                  <div>
+                    <label className="form-label">Expires In</label>
+                    <select 
+                      className="form-select"
+                      value={expiresIn}
+                      onChange={(e) => setExpiresIn(e.target.value)}
+                    >
+                      <option value="7">7 days</option>
+                      <option value="30">30 days</option>
+                      <option value="90">90 days</option>
+                      <option value="365">1 year</option>
+                      <option value="never">Never</option>
+                    </select>
+                  </div>
+                  
+                  <button 
+                    onClick={generateToken}
+                    disabled={isGenerating}
+                    className="btn-neon w-full flex items-center justify-center gap-2 disabled:opacity-50"
                   >
-                    <option value="7">7 days</option>
-                    <option value="30">30 days</option>
-                    <option value="90">90 days</option>
-                    <option value="365">1 year</option>
-                    <option value="never">Never</option>
-                  </select>
+                    {isGenerating ? (
+                      <>
+                        <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                        <span>Generating...</span>
+                      </>
+                    ) : (
+                      'Generate Token'
+                    )}
+                  </button>
                 </div>
                 
-                <button 
-                  onClick={generateToken}
-                  disabled={isGenerating}
-                  className="btn-neon w-full flex items-center justify-center gap-2 disabled:opacity-50"
-                >
-                  {isGenerating ? (
-                    <>
-                      <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
-                      <span>Generating...</span>
-                    </>
-                  ) : (
-                    'Generate Token'
-                  )}
-                </button>
-              </div>
-              
-              {/* Token Result */}
-              {generatedToken && (
-                <div className="mt-6">
-                  <div className="p-4 rounded-xl bg-neon-cyan/10 border border-neon-cyan/30">
-                    <p className="text-sm text-gray-400 mb-2">Generated Token:</p>
-                    <div className="token-result !mx-0 !mt-0">
-                      <span className="token-value">{generatedToken}</span>
-                      <button 
-                        className="action-btn" 
-                        onClick={copyToken}
-                        title="Copy"
-                      >
-                        {copied ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
-                      </button>
+                {/* Token Result */}
+                {generatedToken && (
+                  <div className="mt-6">
+                    <div className="p-4 rounded-xl bg-neon-cyan/10 border border-neon-cyan/30">
+                      <p className="text-sm text-gray-400 mb-2">Generated Token:</p>
+                      <div className="token-result !mx-0 !mt-0">
+                        <span className="token-value">{generatedToken}</span>
+                        <button 
+                          className="action-btn" 
+                          onClick={copyToken}
+                          title="Copy"
+                        >
+                          {copied ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                      </div>
+                      <p className="text-xs text-neon-yellow mt-3 flex items-center gap-1">
+                        <AlertTriangle className="w-4 h-4" />
+                        Copy this now - it won't be shown again!
+                      </p>
                     </div>
-                    <p className="text-xs text-neon-yellow mt-3 flex items-center gap-1">
-                      <AlertTriangle className="w-4 h-4" />
-                      Copy this now - it won't be shown again!
-                    </p>
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
+            ) : (
+              <div className="glass-card p-6 sticky top-8">
+                <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                  <Key className="w-5 h-5 text-neon-cyan" />
+                  Read-Only Token
+                </h2>
+                <p className="text-sm text-gray-400">
+                  This admin token has a read-only scope. Users, roles, audit entries and settings can be viewed, but
+                  issuing, editing, rotating and revoking tokens, role changes, restores and key rotation requests are disabled.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* User Management */}
@@ -392,26 +751,30 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
                       <th>Status</th>
                       <th>Created</th>
                       <th>Expires</th>
-                      <th>Actions</th>
+                      {canManage && <th>Actions</th>}
                     </tr>
                   </thead>
                   <tbody>
                     {filteredUsers.map((userItem) => {
+                      const state = getTokenState(userItem);
                       const roleBadgeClass = getRoleBadgeClass(userItem.role);
-                      const statusBadgeClass = getStatusBadgeClass(userItem.status);
-                      const statusDotClass = getStatusDotClass(userItem.status);
-                      const roleLabel = userItem.role.charAt(0).toUpperCase() + userItem.role.slice(1);
-                      const statusLabel = userItem.status.charAt(0).toUpperCase() + userItem.status.slice(1);
+                      const statusBadgeClass = getStatusBadgeClass(state);
+                      const statusDotClass = getStatusDotClass(state);
+                      const roleLabel = getRoleName(userItem.role);
+                      const statusLabel = state.charAt(0).toUpperCase() + state.slice(1);
                       
                       return (
-                        <tr key={userItem.id}>
+                        <tr key={userItem.uuid}>
                           <td>
-                            <code className="font-mono text-sm text-neon-cyan">{userItem.token}</code>
+                            <code className="font-mono text-sm text-neon-cyan">{getTokenLabel(userItem)}</code>
                           </td>
                           <td>
                             <span className={`px-3 py-1 rounded-full text-xs font-semibold border ${roleBadgeClass}`}>
                               {roleLabel}
                             </span>
+                            {userItem.scope && (
+                              <p className="text-xs text-gray-500 mt-1">{describeTokenScope(userItem.scope)}</p>
+                            )}
                           </td>
                           <td>
                             <span className={`status-badge ${statusBadgeClass}`}>
@@ -419,18 +782,52 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
                               {statusLabel}
                             </span>
                           </td>
-                          <td className="text-sm text-gray-400">{userItem.createdAt}</td>
-                          <td className="text-sm text-gray-400">{userItem.expiresAt || '-'}</td>
-                          <td>
-                            <div className="flex items-center gap-2">
-                              <button className="action-btn" title="Edit">
-                                <Pencil className="w-4 h-4" />
-                              </button>
-                              <button className="action-btn danger" title="Revoke">
-                                <Ban className="w-4 h-4" />
-                              </button>
-                            </div>
+                          <td className="text-sm text-gray-400">{formatDate(userItem.createdAt)}</td>
+                          <td className="text-sm text-gray-400">
+                            {userItem.expiresAt ? formatDate(userItem.expiresAt) : 'Never'}
+                            {(userItem.retiringTokens?.length ?? 0) > 0 && (
+                              <p className="text-xs text-neon-yellow">Old token valid until {formatDate(userItem.retiringTokens![userItem.retiringTokens!.length - 1].retiresAt)}</p>
+                            )}
                           </td>
+                          {canManage && (
+                            <td>
+                              <div className="flex items-center gap-2">
+                                <button
+                                  className="action-btn"
+                                  title="Edit"
+                                  onClick={() => openEditModal(userItem)}
+                                  disabled={state === 'revoked'}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </button>
+                                <button
+                                  className="action-btn"
+                                  title="Rotate"
+                                  onClick={() => openRotateModal(userItem)}
+                                  disabled={state === 'revoked'}
+                                >
+                                  <RotateCw className="w-4 h-4" />
+                                </button>
+                                {userItem.totp && (
+                                  <button
+                                    className="action-btn"
+                                    title="Reset two-factor"
+                                    onClick={() => resetTwoFactor(userItem)}
+                                  >
+                                    <ShieldOff className="w-4 h-4" />
+                                  </button>
+                                )}
+                                <button
+                                  className="action-btn danger"
+                                  title="Revoke"
+                                  onClick={() => openRevokeModal(userItem)}
+                                  disabled={state === 'revoked'}
+                                >
+                                  <Ban className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </td>
+                          )}
                         </tr>
                       );
                     })}
@@ -455,9 +852,293 @@ export function Admin({ onNavigate }: { onNavigate: NavigateFunction }) {
                 </div>
               </div>
             </div>
+
+            {user && canManage && (
+              <RoleManager roles={roles} users={users} actorUuid={user.uuid} onChange={refreshUsers} />
+            )}
+
+            {user && canManage && <KeyRotationPanel users={users} actorUuid={user.uuid} />}
+
+            {user && canManage && <BackupPanel actorUuid={user.uuid} />}
+
+            {user && canManage && <BreakGlassPanel actor={user} />}
+
+            {user && <TwoFactorSetup user={user} />}
+
+            {user && <AuditLog actorUuid={user.uuid} />}
+
+            {/* Revoked Tokens */}
+            <div className="glass-card overflow-hidden mt-8">
+              <div className="p-6 border-b border-white/10 flex items-center justify-between">
+                <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                  <Ban className="w-5 h-5 text-neon-red" />
+                  Revoked Tokens
+                </h2>
+                <span className="text-sm text-gray-400">{revokedUsers.length} revoked</span>
+              </div>
+
+              {revokedUsers.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">No tokens have been revoked.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="data-table">
+                    <thead>
+                      <tr>
+                        <th>Token</th>
+                        <th>Role</th>
+                        <th>Revoked</th>
+                        <th>Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {revokedUsers.map((userItem) => (
+                        <tr key={userItem.uuid}>
+                          <td>
+                            <code className="font-mono text-sm text-neon-red">{getTokenLabel(userItem)}</code>
+                          </td>
+                          <td className="text-sm text-gray-400">{getRoleName(userItem.role)}</td>
+                          <td className="text-sm text-gray-400">{userItem.revokedAt ? formatDate(userItem.revokedAt) : '-'}</td>
+                          <td className="text-sm text-gray-300">{userItem.revokedReason || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </main>
+
+      {/* Edit Access Modal */}
+      {editTarget && (
+        <div className="modal-overlay active" onClick={(e) => e.target === e.currentTarget && closeEditModal()}>
+          <div className="modal-content">
+            <div className="modal-header">
+              <h3 className="text-white">Edit Access</h3>
+              <button className="modal-close" onClick={closeEditModal}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="modal-body space-y-4">
+              <p className="text-sm text-gray-400">
+                Role and permissions for <code className="font-mono text-neon-cyan">{getTokenLabel(editTarget)}</code>.
+              </p>
+
+              {editConflict && (
+                <div className="alert alert-warning !mb-0 flex-col items-stretch">
+                  <p className="text-sm flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                    {editConflict.current
+                      ? 'This user was changed by someone else since you opened this dialog. Nothing was saved.'
+                      : 'This user was deleted since you opened this dialog. Nothing was saved.'}
+                  </p>
+                  {editConflict.fields.length > 0 && (
+                    <p className="text-xs">Also changed there: {editConflict.fields.join(', ')}. Applying keeps your values.</p>
+                  )}
+                </div>
+              )}
+              {editError && (
+                <div className="alert alert-danger !mb-0">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <p className="text-sm">{editError}</p>
+                </div>
+              )}
+
+              <div>
+                <label className="form-label">Role</label>
+                <select className="form-select" value={editRole} onChange={(e) => setEditRole(e.target.value)}>
+                  {roles.map(role => (
+                    <option key={role.id} value={role.id}>{role.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="form-label">Permissions</label>
+                <div className="checkbox-group">
+                  {ALL_PERMISSIONS.map(permission => (
+                    <label key={permission} className="checkbox-item" title={PERMISSION_CATALOG[permission].description}>
+                      <input
+                        type="checkbox"
+                        checked={editPermissions.includes(permission)}
+                        onChange={() => toggleEditPermission(permission)}
+                      />
+                      <span>{PERMISSION_CATALOG[permission].label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="modal-footer">
+              {editConflict ? (
+                <>
+                  <button type="button" className="btn-secondary" onClick={editConflict.current ? reloadEdit : closeEditModal}>
+                    {editConflict.current ? 'Discard Mine' : 'Close'}
+                  </button>
+                  {editConflict.current && (
+                    <button type="button" className="btn-neon" onClick={mergeEdit} disabled={isSavingEdit}>
+                      Apply On Top
+                    </button>
+                  )}
+                </>
+              ) : (
+                <>
+                  <button type="button" className="btn-secondary" onClick={closeEditModal}>Cancel</button>
+                  <button type="button" className="btn-neon" onClick={() => saveEdit(editTarget)} disabled={isSavingEdit}>
+                    {isSavingEdit ? (
+                      <span className="loading-spinner" style={{ width: '16px', height: '16px' }} />
+                    ) : (
+                      'Save Changes'
+                    )}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Rotate Token Modal */}
+      {rotateTarget && (
+        <div className="modal-overlay active" onClick={(e) => e.target === e.currentTarget && closeRotateModal()}>
+          <div className="modal-content">
+            <div className="modal-header">
+              <h3 className="text-white">Rotate Token</h3>
+              <button className="modal-close" onClick={closeRotateModal}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="modal-body space-y-4">
+              {rotatedToken ? (
+                <div className="p-4 rounded-xl bg-neon-cyan/10 border border-neon-cyan/30">
+                  <p className="text-sm text-gray-400 mb-2">New Token:</p>
+                  <div className="token-result !mx-0 !mt-0">
+                    <span className="token-value">{rotatedToken}</span>
+                    <button className="action-btn" onClick={copyRotatedToken} title="Copy">
+                      {rotatedCopied ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <p className="text-xs text-neon-yellow mt-3 flex items-center gap-1">
+                    <AlertTriangle className="w-4 h-4" />
+                    Copy this now - it won't be shown again!
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-400">
+                    A new token replaces <code className="font-mono text-neon-cyan">{getTokenLabel(rotateTarget)}</code>.
+                    The current token keeps working during the grace period so deployments can be updated.
+                  </p>
+                  <div>
+                    <label className="form-label">Grace Period</label>
+                    <select
+                      className="form-select"
+                      value={graceHours}
+                      onChange={(e) => setGraceHours(e.target.value)}
+                    >
+                      {graceOptions.map(option => (
+                        <option key={option.hours} value={String(option.hours)}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {rotateBoundSecrets.length > 0 && (
+                    <div className="alert alert-warning">
+                      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                      <p className="text-sm">
+                        This user's {rotateBoundSecrets.join(' and ')} {rotateBoundSecrets.length > 1 ? 'are' : 'is'} sealed
+                        under the current token and stops opening once it retires.
+                        {rotateTarget.vault && rotateTarget.vault.source !== 'passphrase' &&
+                          ' During the grace period they should sign in with the current token and switch the vault to a passphrase in Settings.'}
+                        {rotateTarget.totp && ' Two-factor has to be set up again, signing in with a recovery code.'}
+                        {' '}Rotation without a grace period is refused.
+                      </p>
+                    </div>
+                  )}
+                  {rotateError && (
+                    <div className="alert alert-danger">
+                      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                      <p className="text-sm">{rotateError}</p>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="modal-footer">
+              {rotatedToken ? (
+                <button type="button" className="btn-neon" onClick={closeRotateModal}>Done</button>
+              ) : (
+                <>
+                  <button type="button" className="btn-secondary" onClick={closeRotateModal}>Cancel</button>
+                  <button
+                    type="button"
+                    className="btn-neon"
+                    onClick={confirmRotate}
+                    disabled={isRotating || (graceHours === '0' && rotateBoundSecrets.length > 0)}
+                  >
+                    {isRotating ? (
+                      <span className="loading-spinner" style={{ width: '16px', height: '16px' }} />
+                    ) : (
+                      'Rotate Token'
+                    )}
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Revoke Token Modal */}
+      {revokeTarget && (
+        <div className="modal-overlay active" onClick={(e) => e.target === e.currentTarget && closeRevokeModal()}>
+          <div className="modal-content">
+            <div className="modal-header">
+              <h3 className="text-white">Revoke Token</h3>
+              <button className="modal-close" onClick={closeRevokeModal}>
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="modal-body space-y-4">
+              <p className="text-sm text-gray-400">
+                <code className="font-mono text-neon-cyan">{getTokenLabel(revokeTarget)}</code> will stop working immediately.
+                The user record and its history are kept.
+              </p>
+              <div>
+                <label className="form-label">Reason</label>
+                <input
+                  type="text"
+                  value={revokeReason}
+                  onChange={(e) => setRevokeReason(e.target.value)}
+                  className="form-input"
+                  placeholder="e.g. Contractor offboarded"
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            <div className="modal-footer">
+              <button type="button" className="btn-secondary" onClick={closeRevokeModal}>Cancel</button>
+              <button
+                type="button"
+                className="btn-neon"
+                onClick={confirmRevoke}
+                disabled={isRevoking}
+              >
+                {isRevoking ? (
+                  <span className="loading-spinner" style={{ width: '16px', height: '16px' }} />
+                ) : (
+                  'Revoke Token'
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
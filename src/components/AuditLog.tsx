@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ScrollText, RotateCw, Download, ChevronLeft, ChevronRight, ShieldCheck, AlertTriangle } from 'lucide-react';
+import {
+  filterAuditEntries,
+  getAuditActor,
+  getAuditLogs,
+  getAuditOutcome,
+  getAuditTarget,
+  logAuditEvent,
+  toAuditCsv,
+  toAuditJsonLines,
+  verifyAuditChain,
+  type AuditChainReport
+} from '../utils/audit';
+import { downloadFile } from '../utils/download';
+import type { StorageChange } from '../utils/changeFeed';
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import type { AuditEntry } from '../types';
+
+const PAGE_SIZE = 20;
+
+interface AuditLogProps {
+  actorUuid: string;
+}
+
+// datetime-local inputs are in local time with minute precision; empty means unbounded
+const parseLocalTime = (value: string) => (value ? new Date(value).getTime() : null);
+
+// The "To" minute is included in full, up to its last millisecond
+const parseLocalTimeEnd = (value: string) => (value ? new Date(value).getTime() + 60 * 1000 - 1 : null);
+
+export function AuditLog({ actorUuid }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [chain, setChain] = useState<AuditChainReport | null>(null);
+  const [eventFilter, setEventFilter] = useState('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [fromFilter, setFromFilter] = useState('');
+  const [toFilter, setToFilter] = useState('');
+  const [page, setPage] = useState(0);
+
+  const refresh = useCallback(async () => {
+    const [allEntries, report] = await Promise.all([getAuditLogs(), verifyAuditChain()]);
+    setEntries(allEntries);
+    setChain(report);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'audit' || change.kind === 'all') {
+      refresh();
+    }
+  }, [refresh]);
+
+  useStorageChanges(handleStorageChange);
+
+  const eventTypes = useMemo(() => [...new Set(entries.map(entry => entry.event))].sort(), [entries]);
+
+  const filtered = useMemo(() => filterAuditEntries(entries, {
+    event: eventFilter,
+    actor: actorFilter,
+    from: parseLocalTime(fromFilter),
+    to: parseLocalTimeEnd(toFilter)
+  }), [entries, eventFilter, actorFilter, fromFilter, toFilter]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  // Newest first for reading; exports keep chain order
+  const visible = [...filtered].reverse().slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  const exportView = async (format: 'csv' | 'jsonl') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(toAuditCsv(filtered), `audit-log-${stamp}.csv`, 'text/csv');
+    } else {
+      downloadFile(toAuditJsonLines(filtered), `audit-log-${stamp}.jsonl`, 'application/x-ndjson');
+    }
+    logAuditEvent({ type: 'AUDIT_EXPORTED', actor: actorUuid, target: null, outcome: 'success', format, entries: filtered.length });
+    await refresh();
+  };
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-neon-cyan" />
+          Audit Log
+        </h2>
+        <div className="flex items-center gap-2">
+          {chain && (chain.valid ? (
+            <span className="text-xs text-neon-green flex items-center gap-1">
+              <ShieldCheck className="w-4 h-4" />
+              Chain verified ({chain.checked})
+            </span>
+          ) : (
+            <span className="text-xs text-neon-red flex items-center gap-1">
+              <AlertTriangle className="w-4 h-4" />
+              Chain broken at entry {chain.brokenAt} ({chain.reason})
+            </span>
+          ))}
+          <button onClick={refresh} className="action-btn" title="Refresh">
+            <RotateCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 border-b border-white/10 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="form-label">Event</label>
+          <select className="form-select" value={eventFilter} onChange={(e) => updateFilter(setEventFilter)(e.target.value)}>
+            <option value="">All events</option>
+            {eventTypes.map(event => (
+              <option key={event} value={event}>{event}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="form-label">Actor</label>
+          <input
+            type="text"
+            className="form-input"
+            value={actorFilter}
+            onChange={(e) => updateFilter(setActorFilter)(e.target.value)}
+            placeholder="User or admin uuid"
+          />
+        </div>
+        <div>
+          <label className="form-label">From</label>
+          <input type="datetime-local" className="form-input" value={fromFilter} onChange={(e) => updateFilter(setFromFilter)(e.target.value)} />
+        </div>
+        <div>
+          <label className="form-label">To</label>
+          <input type="datetime-local" className="form-input" value={toFilter} onChange={(e) => updateFilter(setToFilter)(e.target.value)} />
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b border-white/10 bg-white/5 flex items-center justify-between">
+        <p className="text-sm text-gray-400">
+          Showing <span className="text-white font-medium">{filtered.length}</span> of <span className="text-white font-medium">{entries.length}</span> events
+        </p>
+        <div className="flex items-center gap-2">
+          <button onClick={() => exportView('csv')} className="btn-secondary flex items-center gap-2 text-sm" disabled={filtered.length === 0}>
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button onClick={() => exportView('jsonl')} className="btn-secondary flex items-center gap-2 text-sm" disabled={filtered.length === 0}>
+            <Download className="w-4 h-4" />
+            JSON Lines
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No audit events match these filters.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Time</th>
+                <th>Event</th>
+                <th>Actor</th>
+                <th>Target</th>
+                <th>Outcome</th>
+                <th>Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.seq}>
+                  <td className="font-mono text-sm text-gray-500">{entry.seq}</td>
+                  <td className="font-mono text-sm">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="text-sm text-white">{entry.event}</td>
+                  <td className="font-mono text-xs text-gray-400">{getAuditActor(entry) ?? '-'}</td>
+                  <td className="font-mono text-xs text-gray-400">{getAuditTarget(entry) ?? '-'}</td>
+                  <td className={`text-xs ${getAuditOutcome(entry) === 'success' ? 'text-neon-green' : 'text-neon-yellow'}`}>
+                    {getAuditOutcome(entry) ?? '-'}
+                  </td>
+                  <td className="font-mono text-xs text-gray-400 break-all">{JSON.stringify(entry.details)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="border-t border-white/10">
+        <div className="pagination">
+          <button className="page-btn" disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-gray-500 px-2 text-sm">Page {currentPage + 1} of {pageCount}</span>
+          <button className="page-btn" disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
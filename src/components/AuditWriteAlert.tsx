@@ -0,0 +1,24 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { useAuditWriteFailure } from '../hooks/useAuditWriteFailure';
+import { dismissAuditWriteFailure } from '../utils/audit';
+
+// Shown on every screen: security events that were not stored must not go unnoticed
+export function AuditWriteAlert() {
+  const failure = useAuditWriteFailure();
+  if (!failure) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-md alert alert-danger" role="alert">
+      <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+      <p className="text-sm">
+        {failure.count === 1 ? 'An audit event' : `${failure.count} audit events`} could not be saved
+        (last: {failure.event}, {failure.error}). Storage may be full; security events are not being recorded.
+      </p>
+      <button onClick={dismissAuditWriteFailure} className="action-btn" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { DatabaseBackup, AlertTriangle, Download, Upload } from 'lucide-react';
+import {
+  applyRestore,
+  BACKUP_CATEGORIES,
+  exportBackup,
+  planRestore,
+  readBackup,
+  type BackupContents,
+  type RestoreMode,
+  type RestorePlan
+} from '../utils/backup';
+import { MIN_VAULT_PASSPHRASE_LENGTH } from '../utils/vault';
+import { downloadFile } from '../utils/download';
+import type { BackupCategory } from '../types';
+
+interface BackupPanelProps {
+  actorUuid: string;
+}
+
+const CATEGORY_LABELS: Record<BackupCategory, string> = {
+  users: 'Users',
+  roles: 'Roles',
+  setup: 'Setup marker',
+  keyRotation: 'Rotation request',
+  auditLog: 'Audit entries',
+  savedFilters: 'Saved filters'
+};
+
+export function BackupPanel({ actorUuid }: BackupPanelProps) {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [importText, setImportText] = useState('');
+  const [importName, setImportName] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [backup, setBackup] = useState<BackupContents | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setIsBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = () => run(async () => {
+    if (exportPassphrase !== confirmPassphrase) {
+      throw new Error('Passphrases do not match');
+    }
+    const text = await exportBackup(exportPassphrase, actorUuid);
+    downloadFile(text, `api-token-monitor-backup-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+    setExportPassphrase('');
+    setConfirmPassphrase('');
+    setNotice('Backup downloaded. Keep the passphrase safe; the backup cannot be opened without it.');
+  }, 'Failed to export backup');
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setPlan(null);
+    setImportName(file?.name ?? '');
+    setImportText(file ? await file.text() : '');
+  };
+
+  const handlePreview = () => run(async () => {
+    const contents = await readBackup(importText, importPassphrase);
+    setBackup(contents);
+    setPlan(await planRestore(contents, mode, actorUuid));
+  }, 'Failed to read backup');
+
+  const handleModeChange = (next: RestoreMode) => {
+    setMode(next);
+    setPlan(null);
+    if (backup) {
+      run(async () => setPlan(await planRestore(backup, next, actorUuid)), 'Failed to preview restore');
+    }
+  };
+
+  const handleRestore = () => run(async () => {
+    if (!backup) return;
+    const applied = await applyRestore(backup, mode, actorUuid);
+    setBackup(null);
+    setPlan(null);
+    setImportPassphrase('');
+    const changed = BACKUP_CATEGORIES.reduce((sum, category) =>
+      sum + applied.diff[category].added.length + applied.diff[category].updated.length + applied.diff[category].removed.length, 0);
+    setNotice(`Restore complete: ${changed} records changed.`);
+  }, 'Failed to restore backup');
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-white/10">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <DatabaseBackup className="w-5 h-5 text-neon-cyan" />
+          Backup &amp; Restore
+        </h2>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger m-6 mb-0">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+      {notice && !error && (
+        <p className="px-6 pt-4 text-sm text-neon-green">{notice}</p>
+      )}
+
+      <div className="p-6 border-b border-white/10 space-y-3">
+        <p className="text-sm text-gray-400">
+          Export every user, role, saved filter and the audit log to one encrypted file. Tokens stay hashed and
+          API keys stay sealed in their owners' vaults.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div>
+            <label className="form-label">Backup passphrase</label>
+            <input
+              type="password"
+              value={exportPassphrase}
+              onChange={(e) => setExportPassphrase(e.target.value)}
+              className="form-input"
+              placeholder={`At least ${MIN_VAULT_PASSPHRASE_LENGTH} characters`}
+            />
+          </div>
+          <div>
+            <label className="form-label">Confirm passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className="form-input"
+            />
+          </div>
+          <button className="btn-neon flex items-center gap-2" onClick={handleExport} disabled={isBusy || !exportPassphrase}>
+            <Download className="w-4 h-4" />
+            Download Backup
+          </button>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label className="form-label">Backup file</label>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label className="form-label">Passphrase</label>
+            <input
+              type="password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              className="form-input"
+            />
+          </div>
+          <div>
+            <label className="form-label">Mode</label>
+            <select className="form-select" value={mode} onChange={(e) => handleModeChange(e.target.value as RestoreMode)}>
+              <option value="merge">Merge: add missing, take newer</option>
+              <option value="replace">Replace everything except the audit log</option>
+            </select>
+          </div>
+          <button
+            className="btn-secondary flex items-center gap-2"
+            onClick={handlePreview}
+            disabled={isBusy || !importText || !importPassphrase}
+          >
+            <Upload className="w-4 h-4" />
+            Preview
+          </button>
+        </div>
+
+        {plan && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-300">
+              {importName} · made {new Date(plan.manifest.createdAt).toLocaleString()}
+              {plan.manifest.createdBy && ` by ${plan.manifest.createdBy.slice(0, 8)}...`}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Records</th>
+                    <th>Added</th>
+                    <th>Updated</th>
+                    <th>Unchanged</th>
+                    <th>Kept current</th>
+                    <th>Removed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {BACKUP_CATEGORIES.map(category => {
+                    const diff = plan.diff[category];
+                    return (
+                      <tr key={category}>
+                        <td>{CATEGORY_LABELS[category]}</td>
+                        <td>{diff.added.length}</td>
+                        <td>{diff.updated.length}</td>
+                        <td>{diff.unchanged.length}</td>
+                        <td>{diff.skipped.length}</td>
+                        <td>{diff.removed.length}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            {plan.warnings.map(warning => (
+              <div key={warning} className="alert alert-warning">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{warning}</p>
+              </div>
+            ))}
+            <button
+              className={mode === 'replace' ? 'btn-danger' : 'btn-neon'}
+              onClick={handleRestore}
+              disabled={isBusy}
+            >
+              {mode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
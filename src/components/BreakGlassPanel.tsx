@@ -0,0 +1,156 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ShieldAlert, AlertTriangle, Copy, Check, Download } from 'lucide-react';
+import { generateBreakGlassCodes, BREAK_GLASS_SESSION_MINUTES } from '../utils/breakGlass';
+import { loadBreakGlassRecord } from '../utils/storage';
+import { downloadFile } from '../utils/download';
+import type { StorageChange } from '../utils/changeFeed';
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import type { BreakGlassRecord, UserData } from '../types';
+
+interface BreakGlassPanelProps {
+  actor: UserData;
+}
+
+export function BreakGlassPanel({ actor }: BreakGlassPanelProps) {
+  const [record, setRecord] = useState<BreakGlassRecord | null>(null);
+  const [codes, setCodes] = useState<string[] | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setRecord(await loadBreakGlassRecord());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'breakGlass' || change.kind === 'all') {
+      refresh();
+    }
+  }, [refresh]);
+
+  useStorageChanges(handleStorageChange);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError('');
+    try {
+      setCodes(await generateBreakGlassCodes(actor));
+      setConfirming(false);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate break-glass codes');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const copyCodes = () => {
+    if (!codes) return;
+    navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const remaining = record?.codes.length ?? 0;
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5 text-neon-pink" />
+          Break-Glass Codes
+        </h2>
+        {!codes && (
+          <button
+            onClick={() => (record ? setConfirming(true) : handleGenerate())}
+            className="btn-secondary text-sm"
+            disabled={isGenerating || confirming}
+          >
+            {record ? 'Regenerate Codes' : 'Generate Codes'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="alert alert-danger m-6 mb-0">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="p-6 space-y-3">
+        <p className="text-sm text-gray-400">
+          If every admin token is lost, one of these codes can be entered on the sign-in page. It opens a
+          {' '}{BREAK_GLASS_SESSION_MINUTES}-minute session that can only issue a replacement admin token. Each code works once.
+        </p>
+
+        {record ? (
+          <>
+            <div className="mini-progress">
+              <div
+                className="mini-progress-fill neon-cyan"
+                style={{ width: `${record.total ? (remaining / record.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-300">
+              {remaining} of {record.total} codes left · generated {new Date(record.generatedAt).toLocaleString()}
+            </p>
+            {remaining === 0 && !codes && (
+              <div className="alert alert-warning">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">Every code has been used. Generate a new set to keep a recovery path.</p>
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-300">No codes have been generated.</p>
+        )}
+
+        {confirming && (
+          <div className="alert alert-warning flex-col items-stretch">
+            <p className="text-sm flex items-center gap-2">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              The current codes stop working as soon as new ones are generated.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button className="btn-secondary" onClick={() => setConfirming(false)} disabled={isGenerating}>Cancel</button>
+              <button className="btn-danger" onClick={handleGenerate} disabled={isGenerating}>Replace Codes</button>
+            </div>
+          </div>
+        )}
+
+        {codes && (
+          <div>
+            <p className="text-sm text-neon-yellow mb-3">
+              Store these codes offline, away from the admin token. They will not be shown again.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 font-mono text-sm text-white">
+              {codes.map(code => (
+                <code key={code} className="px-3 py-2 rounded bg-white/5 border border-white/10">{code}</code>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3 mt-4">
+              <button className="btn-secondary flex items-center gap-2" onClick={copyCodes}>
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                className="btn-secondary flex items-center gap-2"
+                onClick={() => downloadFile(`${codes.join('\n')}\n`, 'api-token-monitor-break-glass-codes.txt', 'text/plain')}
+              >
+                <Download className="w-4 h-4" />
+                Download
+              </button>
+              <button className="btn-neon" onClick={() => setCodes(null)}>Done</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
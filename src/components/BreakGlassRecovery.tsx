@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { ShieldAlert, KeyRound, Copy, Check, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { mintReplacementAdminToken, BREAK_GLASS_SESSION_MINUTES } from '../utils/breakGlass';
+
+// All a break-glass session can reach: mint one replacement admin token, then sign in with it
+export function BreakGlassRecovery() {
+  const { login, logout } = useAuth();
+  const [adminToken, setAdminToken] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const mint = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const result = await mintReplacementAdminToken();
+      setAdminToken(result.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue an admin token');
+    }
+    setIsWorking(false);
+  };
+
+  const copyToken = () => {
+    if (!adminToken) return;
+    navigator.clipboard.writeText(adminToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // End the break-glass session and sign in as the new admin
+  const finish = async () => {
+    if (!adminToken) return;
+    setIsWorking(true);
+    logout();
+    await login(adminToken);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center relative overflow-hidden bg-bg-primary">
+      <div className="grid-bg" />
+
+      <div className="relative z-10 w-full max-w-lg px-4">
+        <div className="glass-card p-8 md:p-10">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-neon-pink/20 to-neon-purple/20 border border-neon-pink/30 mb-4">
+              <ShieldAlert className="w-8 h-8 text-neon-pink" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-1">Break-Glass Recovery</h1>
+            <p className="text-sm text-gray-400">This session ends after {BREAK_GLASS_SESSION_MINUTES} minutes</p>
+          </div>
+
+          {error && (
+            <div className="alert alert-danger mb-6">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          {!adminToken ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-300">
+                A break-glass code was redeemed. It can issue one new admin access token; nothing else is available
+                in this session, and every step is recorded in the audit log.
+              </p>
+              <button
+                onClick={mint}
+                disabled={isWorking}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isWorking ? (
+                  <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                ) : (
+                  <KeyRound className="w-5 h-5" />
+                )}
+                <span>Issue Replacement Admin Token</span>
+              </button>
+              <button onClick={logout} className="btn-secondary w-full" disabled={isWorking}>
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="alert alert-warning">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">Copy this token now. It cannot be recovered later.</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 font-mono text-sm text-neon-cyan break-all p-3 rounded bg-white/5 border border-white/10">
+                  {adminToken}
+                </code>
+                <button className="action-btn" onClick={copyToken} title="Copy">
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              <label className="checkbox-item">
+                <input type="checkbox" checked={saved} onChange={() => setSaved(!saved)} />
+                <span>I have stored the admin token somewhere safe</span>
+              </label>
+              <button
+                onClick={finish}
+                disabled={!saved || isWorking}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sign In With New Token
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../hooks/useAuth';
+import { usePermission } from '../hooks/usePermission';
+import { PERMISSIONS } from '../utils/permissions';
+import { canViewSection, filterByProvider, getProviderIdByName } from '../utils/scopes';
+import { loadSavedFilters, storeSavedFilters } from '../utils/savedFilters';
 import { 
   LayoutDashboard, 
   Settings, 
@@ -14,7 +18,7 @@ import {
   ChevronDown,
   Filter
 } from 'lucide-react';
-import { PROVIDERS, type NavigateFunction } from '../types';
+import { PROVIDERS, type NavigateFunction, type SavedFilter } from '../types';
 
 interface ProviderUsage {
   id: string;
@@ -49,6 +53,7 @@ const mockActivity: ActivityItem[] = [
 
 export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
   const { user, logout, isAdmin } = useAuth();
+  const canModifySettings = usePermission(PERMISSIONS.modifySettings);
   const [progress, setProgress] = useState(0);
   const [usagePercent, setUsagePercent] = useState(50);
 
@@ -57,15 +62,9 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   
   // Saved filters state
-  const [savedFilters, setSavedFilters] = useState<Array<{ 
-    id: string; 
-    name: string; 
-    providerFilter: string; 
-    statusFilter: string;
-  }>>(() => {
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>(() => {
     if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem('api-token-monitor-saved-filters');
-      return stored ? JSON.parse(stored) : [];
+      return loadSavedFilters();
     }
     return [];
   });
@@ -76,14 +75,14 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
   // Persist saved filters
   useEffect(() => {
     if (typeof window !== 'undefined') {
-      localStorage.setItem('api-token-monitor-saved-filters', JSON.stringify(savedFilters));
+      storeSavedFilters(savedFilters);
     }
   }, [savedFilters]);
 
   // Save current filter
   const handleSaveFilter = () => {
     if (!newFilterName.trim()) return;
-    const newFilter = {
+    const newFilter: SavedFilter = {
       id: Date.now().toString(),
       name: newFilterName.trim(),
       providerFilter,
@@ -95,7 +94,7 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
   };
 
   // Load saved filter
-  const handleLoadFilter = (filter: typeof savedFilters[0]) => {
+  const handleLoadFilter = (filter: SavedFilter) => {
     setProviderFilter(filter.providerFilter);
     setStatusFilter(filter.statusFilter);
     setShowLoadFilterDropdown(false);
@@ -113,9 +112,20 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
     setStatusFilter('all');
   };
 
+  // Scoped tokens only ever receive rows for their providers
+  const visibleUsage = useMemo(() => filterByProvider(user, mockUsage, usage => usage.id), [user]);
+  const visibleActivity = useMemo(
+    () => filterByProvider(user, mockActivity, activity => getProviderIdByName(activity.provider)),
+    [user]
+  );
+
+  // Totals cover only the visible providers so a scoped token cannot infer other spend
+  const usedRequests = visibleUsage.reduce((sum, usage) => sum + usage.usage, 0);
+  const totalQuota = visibleUsage.reduce((sum, usage) => sum + usage.limit, 0);
+
   // Filtered activity data
   const filteredActivity = useMemo(() => {
-    return mockActivity.filter(activity => {
+    return visibleActivity.filter(activity => {
       if (providerFilter !== 'all' && activity.provider.toLowerCase() !== providerFilter.toLowerCase()) {
         return false;
       }
@@ -127,12 +137,10 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
       }
       return true;
     });
-  }, [providerFilter, statusFilter]);
+  }, [visibleActivity, providerFilter, statusFilter]);
 
   useEffect(() => {
-    const used = 5234;
-    const total = 10000;
-    const percent = Math.round((used / total) * 100);
+    const percent = totalQuota > 0 ? Math.round((usedRequests / totalQuota) * 100) : 0;
     
     const timer = setTimeout(() => {
       setUsagePercent(percent);
@@ -140,7 +148,7 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
     }, 300);
 
     return () => clearTimeout(timer);
-  }, []);
+  }, [usedRequests, totalQuota]);
 
   const circumference = 2 * Math.PI * 100;
   const strokeDashoffset = circumference - (progress / 100) * circumference;
@@ -184,10 +192,12 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
             <LayoutDashboard className="w-5 h-5" />
             <span>Dashboard</span>
           </button>
-          <button onClick={() => onNavigate('settings')} className="nav-item">
-            <Settings className="w-5 h-5" />
-            <span>Settings</span>
-          </button>
+          {canModifySettings && (
+            <button onClick={() => onNavigate('settings')} className="nav-item">
+              <Settings className="w-5 h-5" />
+              <span>Settings</span>
+            </button>
+          )}
           {isAdmin && (
             <button onClick={() => onNavigate('admin')} className="nav-item">
               <Users className="w-5 h-5" />
@@ -225,231 +235,237 @@ export function Dashboard({ onNavigate }: { onNavigate: NavigateFunction }) {
           </div>
         </header>
 
-        <div className="glass-card p-8 mb-8">
-          <h2 className="text-xl font-bold text-white mb-6">API Usage Overview</h2>
-          <div className="flex flex-col lg:flex-row items-center gap-12">
-            <div className="relative">
-              <svg className="progress-ring" width="240" height="240">
-                <circle className="progress-ring-bg" cx="120" cy="120" r="100" />
-                <circle
-                  className={`progress-ring-fill ${getProgressColor()}`}
-                  cx="120"
-                  cy="120"
-                  r="100"
-                  strokeDasharray={circumference}
-                  strokeDashoffset={strokeDashoffset}
-                  style={{ transition: 'stroke-dashoffset 1s ease' }}
-                />
-              </svg>
-              <div className="absolute inset-0 flex flex-col items-center justify-center">
-                <span className="text-5xl font-bold text-white">{usagePercent}%</span>
-                <span className="text-sm text-gray-400 mt-1">Used</span>
+        {canViewSection(user, 'overview') && (
+          <div className="glass-card p-8 mb-8">
+            <h2 className="text-xl font-bold text-white mb-6">API Usage Overview</h2>
+            <div className="flex flex-col lg:flex-row items-center gap-12">
+              <div className="relative">
+                <svg className="progress-ring" width="240" height="240">
+                  <circle className="progress-ring-bg" cx="120" cy="120" r="100" />
+                  <circle
+                    className={`progress-ring-fill ${getProgressColor()}`}
+                    cx="120"
+                    cy="120"
+                    r="100"
+                    strokeDasharray={circumference}
+                    strokeDashoffset={strokeDashoffset}
+                    style={{ transition: 'stroke-dashoffset 1s ease' }}
+                  />
+                </svg>
+                <div className="absolute inset-0 flex flex-col items-center justify-center">
+                  <span className="text-5xl font-bold text-white">{usagePercent}%</span>
+                  <span className="text-sm text-gray-400 mt-1">Used</span>
+                </div>
               </div>
-            </div>
 
-            <div className="flex-1 grid grid-cols-2 gap-4 w-full">
-              <div className="stat-card">
-                <p className="stat-label">Requests Used</p>
-                <p className="stat-value cyan">5,234</p>
-              </div>
-              <div className="stat-card">
-                <p className="stat-label">Requests Remaining</p>
-                <p className="stat-value green">5,234</p>
-              </div>
-              <div className="stat-card">
-                <p className="stat-label">Total Quota</p>
-                <p className="stat-value purple">10,000</p>
-              </div>
-              <div className="stat-card">
-                <p className="stat-label">Reset Date</p>
-                <p className="stat-value pink">Feb 28</p>
+              <div className="flex-1 grid grid-cols-2 gap-4 w-full">
+                <div className="stat-card">
+                  <p className="stat-label">Requests Used</p>
+                  <p className="stat-value cyan">{usedRequests.toLocaleString()}</p>
+                </div>
+                <div className="stat-card">
+                  <p className="stat-label">Requests Remaining</p>
+                  <p className="stat-value green">{(totalQuota - usedRequests).toLocaleString()}</p>
+                </div>
+                <div className="stat-card">
+                  <p className="stat-label">Total Quota</p>
+                  <p className="stat-value purple">{totalQuota.toLocaleString()}</p>
+                </div>
+                <div className="stat-card">
+                  <p className="stat-label">Reset Date</p>
+                  <p className="stat-value pink">Feb 28</p>
+                </div>
               </div>
             </div>
           </div>
-        </div>
+        )}
 
-        <div className="mb-8">
-          <h2 className="text-xl font-bold text-white mb-4">API Providers</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {mockUsage.map((provider) => {
-              const percent = Math.round((provider.usage / provider.limit) * 100);
-              return (
-                <div key={provider.id} className="provider-card">
-                  <div className="provider-header">
-                    <div className="flex items-center gap-3">
-                      <div className={`w-10 h-10 rounded-xl bg-${provider.color}/10 border border-${provider.color}/30 flex items-center justify-center text-${provider.color}`}>
-                        {getProviderIcon(provider.id)}
-                      </div>
-                      <div>
-                        <h3 className="provider-name">{provider.name}</h3>
-                        <p className="text-xs text-gray-500">
-                          {PROVIDERS.find(p => p.id === provider.id)?.models[0] || 'AI Model'}
-                        </p>
+        {canViewSection(user, 'providers') && (
+          <div className="mb-8">
+            <h2 className="text-xl font-bold text-white mb-4">API Providers</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleUsage.map((provider) => {
+                const percent = Math.round((provider.usage / provider.limit) * 100);
+                return (
+                  <div key={provider.id} className="provider-card">
+                    <div className="provider-header">
+                      <div className="flex items-center gap-3">
+                        <div className={`w-10 h-10 rounded-xl bg-${provider.color}/10 border border-${provider.color}/30 flex items-center justify-center text-${provider.color}`}>
+                          {getProviderIcon(provider.id)}
+                        </div>
+                        <div>
+                          <h3 className="provider-name">{provider.name}</h3>
+                          <p className="text-xs text-gray-500">
+                            {PROVIDERS.find(p => p.id === provider.id)?.models[0] || 'AI Model'}
+                          </p>
+                        </div>
                       </div>
+                      <span className={`text-${provider.color} font-bold`}>{percent}%</span>
+                    </div>
+                    <div className="mini-progress mb-2">
+                      <div 
+                        className={`mini-progress-fill ${provider.color}`}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>{provider.usage.toLocaleString()} / {provider.limit.toLocaleString()}</span>
+                      <span>Resets in 12h</span>
                     </div>
-                    <span className={`text-${provider.color} font-bold`}>{percent}%</span>
-                  </div>
-                  <div className="mini-progress mb-2">
-                    <div 
-                      className={`mini-progress-fill ${provider.color}`}
-                      style={{ width: `${percent}%` }}
-                    />
-                  </div>
-                  <div className="flex justify-between text-xs text-gray-500">
-                    <span>{provider.usage.toLocaleString()} / {provider.limit.toLocaleString()}</span>
-                    <span>Resets in 12h</span>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
 
-        <div className="glass-card overflow-hidden">
-          <div className="p-6 border-b border-white/10">
-            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
-              <h2 className="text-xl font-bold text-white">Activity Log</h2>
+        {canViewSection(user, 'activity') && (
+          <div className="glass-card overflow-hidden">
+            <div className="p-6 border-b border-white/10">
+              <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Activity Log</h2>
               
-              {/* Filter Controls */}
-              <div className="flex flex-wrap items-center gap-3">
-                <div className="flex items-center gap-2">
-                  <Filter className="w-4 h-4 text-neon-cyan" />
-                  <select
-                    value={providerFilter}
-                    onChange={(e) => setProviderFilter(e.target.value)}
-                    className="bg-bg-secondary/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-cyan focus:outline-none"
-                  >
-                    <option value="all">All Providers</option>
-                    <option value="OpenAI">OpenAI</option>
-                    <option value="Anthropic">Anthropic</option>
-                    <option value="Grok">Grok</option>
-                  </select>
+                {/* Filter Controls */}
+                <div className="flex flex-wrap items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Filter className="w-4 h-4 text-neon-cyan" />
+                    <select
+                      value={providerFilter}
+                      onChange={(e) => setProviderFilter(e.target.value)}
+                      className="bg-bg-secondary/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      <option value="all">All Providers</option>
+                      {visibleUsage.map(provider => (
+                        <option key={provider.id} value={provider.name}>{provider.name}</option>
+                      ))}
+                    </select>
                   
-                  <select
-                    value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value)}
-                    className="bg-bg-secondary/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-cyan focus:outline-none"
-                  >
-                    <option value="all">All Status</option>
-                    <option value="success">Success</option>
-                    <option value="error">Error</option>
-                  </select>
-                </div>
+                    <select
+                      value={statusFilter}
+                      onChange={(e) => setStatusFilter(e.target.value)}
+                      className="bg-bg-secondary/50 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-neon-cyan focus:outline-none"
+                    >
+                      <option value="all">All Status</option>
+                      <option value="success">Success</option>
+                      <option value="error">Error</option>
+                    </select>
+                  </div>
 
-                {/* Save/Load Filter Buttons */}
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => setShowSaveFilterModal(true)}
-                    className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-cyan/10 border border-neon-cyan/30 text-neon-cyan text-sm hover:bg-neon-cyan/20 transition-colors"
-                  >
-                    <Bookmark className="w-4 h-4" />
-                    Save
-                  </button>
+                  {/* Save/Load Filter Buttons */}
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setShowSaveFilterModal(true)}
+                      className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-cyan/10 border border-neon-cyan/30 text-neon-cyan text-sm hover:bg-neon-cyan/20 transition-colors"
+                    >
+                      <Bookmark className="w-4 h-4" />
+                      Save
+                    </button>
                   
-                  {savedFilters.length > 0 && (
-                    <div className="relative">
-                      <button
-                        onClick={() => setShowLoadFilterDropdown(!showLoadFilterDropdown)}
-                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-purple/10 border border-neon-purple/30 text-neon-purple text-sm hover:bg-neon-purple/20 transition-colors"
-                      >
-                        <BookmarkCheck className="w-4 h-4" />
-                        Load
-                        <ChevronDown className={`w-3 h-3 transition-transform ${showLoadFilterDropdown ? 'rotate-180' : ''}`} />
-                      </button>
+                    {savedFilters.length > 0 && (
+                      <div className="relative">
+                        <button
+                          onClick={() => setShowLoadFilterDropdown(!showLoadFilterDropdown)}
+                          className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-purple/10 border border-neon-purple/30 text-neon-purple text-sm hover:bg-neon-purple/20 transition-colors"
+                        >
+                          <BookmarkCheck className="w-4 h-4" />
+                          Load
+                          <ChevronDown className={`w-3 h-3 transition-transform ${showLoadFilterDropdown ? 'rotate-180' : ''}`} />
+                        </button>
                       
-                      {showLoadFilterDropdown && (
-                        <div className="absolute right-0 mt-2 w-64 bg-bg-secondary border border-white/10 rounded-xl shadow-2xl z-50 max-h-64 overflow-y-auto">
-                          <div className="p-3 border-b border-white/10">
-                            <span className="text-xs font-medium text-gray-400">Saved Filters ({savedFilters.length})</span>
-                          </div>
-                          {savedFilters.map((filter) => (
-                            <div
-                              key={filter.id}
-                              onClick={() => handleLoadFilter(filter)}
-                              className="flex items-center justify-between px-4 py-3 hover:bg-white/5 cursor-pointer border-b border-white/5 last:border-0"
-                            >
-                              <div className="flex-1 min-w-0">
-                                <p className="text-sm font-medium text-white truncate">{filter.name}</p>
-                                <p className="text-xs text-gray-500">
-                                  {filter.providerFilter !== 'all' && `${filter.providerFilter}`}
-                                  {filter.providerFilter !== 'all' && filter.statusFilter !== 'all' && ' • '}
-                                  {filter.statusFilter !== 'all' && `${filter.statusFilter}`}
-                                  {filter.providerFilter === 'all' && filter.statusFilter === 'all' && 'No filters'}
-                                </p>
-                              </div>
-                              <button
-                                onClick={(e) => handleDeleteFilter(filter.id, e)}
-                                className="p-1 text-gray-500 hover:text-neon-red ml-2"
-                              >
-                                <X className="w-4 h-4" />
-                              </button>
+                        {showLoadFilterDropdown && (
+                          <div className="absolute right-0 mt-2 w-64 bg-bg-secondary border border-white/10 rounded-xl shadow-2xl z-50 max-h-64 overflow-y-auto">
+                            <div className="p-3 border-b border-white/10">
+                              <span className="text-xs font-medium text-gray-400">Saved Filters ({savedFilters.length})</span>
                             </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
+                            {savedFilters.map((filter) => (
+                              <div
+                                key={filter.id}
+                                onClick={() => handleLoadFilter(filter)}
+                                className="flex items-center justify-between px-4 py-3 hover:bg-white/5 cursor-pointer border-b border-white/5 last:border-0"
+                              >
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-medium text-white truncate">{filter.name}</p>
+                                  <p className="text-xs text-gray-500">
+                                    {filter.providerFilter !== 'all' && `${filter.providerFilter}`}
+                                    {filter.providerFilter !== 'all' && filter.statusFilter !== 'all' && ' • '}
+                                    {filter.statusFilter !== 'all' && `${filter.statusFilter}`}
+                                    {filter.providerFilter === 'all' && filter.statusFilter === 'all' && 'No filters'}
+                                  </p>
+                                </div>
+                                <button
+                                  onClick={(e) => handleDeleteFilter(filter.id, e)}
+                                  className="p-1 text-gray-500 hover:text-neon-red ml-2"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   
-                  {(providerFilter !== 'all' || statusFilter !== 'all') && (
-                    <button
-                      onClick={handleClearFilters}
-                      className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-red/10 border border-neon-red/30 text-neon-red text-sm hover:bg-neon-red/20 transition-colors"
-                    >
-                      <X className="w-4 h-4" />
-                      Clear
-                    </button>
-                  )}
+                    {(providerFilter !== 'all' || statusFilter !== 'all') && (
+                      <button
+                        onClick={handleClearFilters}
+                        className="flex items-center gap-1 px-3 py-2 rounded-lg bg-neon-red/10 border border-neon-red/30 text-neon-red text-sm hover:bg-neon-red/20 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                        Clear
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
           
-          <div className="px-6 py-3 border-b border-white/10 bg-white/5">
-            <p className="text-sm text-gray-400">
-              Showing <span className="text-white font-medium">{filteredActivity.length}</span> of <span className="text-white font-medium">{mockActivity.length}</span> activities
-            </p>
-          </div>
+            <div className="px-6 py-3 border-b border-white/10 bg-white/5">
+              <p className="text-sm text-gray-400">
+                Showing <span className="text-white font-medium">{filteredActivity.length}</span> of <span className="text-white font-medium">{visibleActivity.length}</span> activities
+              </p>
+            </div>
           
-          <div className="overflow-x-auto">
-            <table className="data-table w-full">
-              <thead>
-                <tr>
-                  <th>Timestamp</th>
-                  <th>Provider</th>
-                  <th>Endpoint</th>
-                  <th>Status</th>
-                  <th>Latency</th>
-                </tr>
-              </thead>
-              <tbody>
-                {filteredActivity.map((activity) => (
-                  <tr key={activity.id}>
-                    <td className="font-mono text-sm">{activity.timestamp}</td>
-                    <td>
-                      <div className="flex items-center gap-2">
-                        <div className={`w-2 h-2 rounded-full ${
-                          activity.provider === 'OpenAI' ? 'bg-neon-green' : 
-                          activity.provider === 'Anthropic' ? 'bg-neon-purple' : 'bg-neon-red'
-                        }`} />
-                        <span>{activity.provider}</span>
-                      </div>
-                    </td>
-                    <td className="font-mono text-sm text-gray-400">{activity.endpoint}</td>
-                    <td>
-                      <span className={`status-badge ${activity.status === 200 ? 'active' : 'inactive'}`}>
-                        <span className={`w-1.5 h-1.5 rounded-full bg-current ${activity.status === 200 ? 'text-neon-green' : 'text-neon-red'}`} />
-                        {activity.status === 200 ? '200 OK' : '429 Rate Limit'}
-                      </span>
-                    </td>
-                    <td className={`font-mono ${activity.status === 200 ? 'text-neon-green' : 'text-neon-red'}`}>
-                      {activity.latency > 0 ? `${activity.latency}ms` : '-'}
-                    </td>
+            <div className="overflow-x-auto">
+              <table className="data-table w-full">
+                <thead>
+                  <tr>
+                    <th>Timestamp</th>
+                    <th>Provider</th>
+                    <th>Endpoint</th>
+                    <th>Status</th>
+                    <th>Latency</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
+                </thead>
+                <tbody>
+                  {filteredActivity.map((activity) => (
+                    <tr key={activity.id}>
+                      <td className="font-mono text-sm">{activity.timestamp}</td>
+                      <td>
+                        <div className="flex items-center gap-2">
+                          <div className={`w-2 h-2 rounded-full ${
+                            activity.provider === 'OpenAI' ? 'bg-neon-green' : 
+                            activity.provider === 'Anthropic' ? 'bg-neon-purple' : 'bg-neon-red'
+                          }`} />
+                          <span>{activity.provider}</span>
+                        </div>
+                      </td>
+                      <td className="font-mono text-sm text-gray-400">{activity.endpoint}</td>
+                      <td>
+                        <span className={`status-badge ${activity.status === 200 ? 'active' : 'inactive'}`}>
+                          <span className={`w-1.5 h-1.5 rounded-full bg-current ${activity.status === 200 ? 'text-neon-green' : 'text-neon-red'}`} />
+                          {activity.status === 200 ? '200 OK' : '429 Rate Limit'}
+                        </span>
+                      </td>
+                      <td className={`font-mono ${activity.status === 200 ? 'text-neon-green' : 'text-neon-red'}`}>
+                        {activity.latency > 0 ? `${activity.latency}ms` : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Save Filter Modal */}
         {showSaveFilterModal && (
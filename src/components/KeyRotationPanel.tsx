@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { KeyRound, AlertTriangle } from 'lucide-react';
+import { getKeyRotationStatus, requestKeyRotation, KEY_ROTATION_INTERVAL_DAYS, type KeyRotationStatus } from '../utils/vault';
+import { loadKeyRotationRequest } from '../utils/storage';
+import type { StorageChange } from '../utils/changeFeed';
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import type { UserData } from '../types';
+
+interface KeyRotationPanelProps {
+  users: UserData[]; // Only used to notice when records change
+  actorUuid: string;
+}
+
+export function KeyRotationPanel({ users, actorUuid }: KeyRotationPanelProps) {
+  const [status, setStatus] = useState<KeyRotationStatus | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setStatus(await getKeyRotationStatus(await loadKeyRotationRequest()));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, users]);
+
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'keyRotation' || change.kind === 'all') {
+      refresh();
+    }
+  }, [refresh]);
+
+  useStorageChanges(handleStorageChange);
+
+  const handleRequest = async () => {
+    setIsRequesting(true);
+    setError('');
+    setNotice('');
+    try {
+      await requestKeyRotation(actorUuid);
+      setNotice('Rotation requested. Each vault re-encrypts the next time its owner signs in or unlocks it.');
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request key rotation');
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const rotated = status ? status.vaults - status.due : 0;
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-neon-cyan" />
+          Key Rotation
+        </h2>
+        <button onClick={handleRequest} className="btn-secondary text-sm" disabled={isRequesting}>
+          Rotate All Keys
+        </button>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger m-6 mb-0">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+      {notice && !error && (
+        <p className="px-6 pt-4 text-sm text-neon-green">{notice}</p>
+      )}
+
+      <div className="p-6 space-y-3">
+        <p className="text-sm text-gray-400">
+          API keys are re-encrypted at least every {KEY_ROTATION_INTERVAL_DAYS} days. Only each user's own token or
+          vault passphrase can open their vault, so vaults rotate as their owners sign in.
+        </p>
+        {status && (
+          <>
+            <div className="mini-progress">
+              <div
+                className="mini-progress-fill neon-cyan"
+                style={{ width: `${status.vaults ? (rotated / status.vaults) * 100 : 100}%` }}
+              />
+            </div>
+            <p className="text-sm text-gray-300">
+              {rotated} of {status.vaults} vaults current
+              {status.inProgress > 0 && `, ${status.inProgress} part-way through`}
+              {status.request && ` · last requested ${new Date(status.request.requestedAt).toLocaleString()}`}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from 'react';
-import { Shield, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { Shield, Eye, EyeOff, AlertTriangle, Clock, KeyRound, ShieldAlert } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { useRateLimit } from '../hooks/useRateLimit';
+import { useLoginRateLimit } from '../hooks/useRateLimit';
 import { sanitizeInput } from '../utils/auth';
 
 export function Login() {
@@ -9,22 +9,32 @@ export function Login() {
   const [showToken, setShowToken] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
-  const { login } = useAuth();
-  const { isLocked, retryAfter, checkAttempt } = useRateLimit('login');
+  const [code, setCode] = useState('');
+  const [showBreakGlass, setShowBreakGlass] = useState(false);
+  const [breakGlassCode, setBreakGlassCode] = useState('');
+  const {
+    login,
+    sessionNotice,
+    secondFactorPending,
+    verifySecondFactor,
+    cancelSecondFactor,
+    redeemBreakGlassCode
+  } = useAuth();
+  const { isLocked, retryAfter, checkAttempt, resetToken } = useLoginRateLimit();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
-    // Check rate limit
-    const rateCheck = checkAttempt();
-    if (!rateCheck.allowed) {
-      setError(`Rate limit exceeded. Please wait ${Math.ceil(rateCheck.retryAfter / 60)} minutes.`);
+    if (!token.trim()) {
+      setError('Please enter a token');
       return;
     }
 
-    if (!token.trim()) {
-      setError('Please enter a token');
+    // Check rate limit
+    const rateCheck = checkAttempt(token.trim());
+    if (!rateCheck.allowed) {
+      setError(`Rate limit exceeded. Please wait ${Math.ceil(rateCheck.retryAfter / 60)} minutes.`);
       return;
     }
 
@@ -32,10 +42,12 @@ export function Login() {
 
     try {
       const sanitizedToken = sanitizeInput(token.trim());
-      const success = await login(sanitizedToken);
+      const outcome = await login(sanitizedToken);
       
-      if (!success) {
+      if (outcome === 'failed') {
         setError('Invalid access token');
+      } else {
+        resetToken(token.trim());
       }
     } catch (err) {
       setError('Authentication failed. Please try again.');
@@ -44,6 +56,65 @@ export function Login() {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!code.trim()) {
+      setError('Please enter a verification code');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      if (!await verifySecondFactor(sanitizeInput(code.trim()))) {
+        setError('Invalid verification code. Repeated failures lock this step for a while.');
+        setCode('');
+      }
+    } catch (err) {
+      setError('Verification failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!breakGlassCode.trim()) {
+      setError('Please enter a break-glass code');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      if (!await redeemBreakGlassCode(sanitizeInput(breakGlassCode.trim()))) {
+        setError('Invalid break-glass code. Repeated failures lock this step for a while.');
+        setBreakGlassCode('');
+      }
+    } catch (err) {
+      setError('Recovery failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleBreakGlass = () => {
+    setShowBreakGlass(!showBreakGlass);
+    setBreakGlassCode('');
+    setError('');
+  };
+
+  const handleCancel = () => {
+    cancelSecondFactor();
+    setCode('');
+    setToken('');
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center relative overflow-hidden bg-bg-primary">
       {/* Animated Grid Background */}
@@ -72,72 +143,196 @@ export function Login() {
             <p className="text-sm text-gray-400">v2.0.0 Enterprise</p>
           </div>
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Token Input */}
-            <div>
-              <label className="form-label">Access Token</label>
-              <div className="input-with-toggle">
+          {/* Second Factor Form */}
+          {secondFactorPending ? (
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div>
+                <label className="form-label">Verification Code</label>
                 <input
-                  type={showToken ? 'text' : 'password'}
-                  value={token}
-                  onChange={(e) => setToken(e.target.value)}
-                  className="form-input pr-12"
-                  placeholder="Enter your API token"
-                  autoComplete="off"
-                  disabled={isLoading || isLocked}
+                  type="text"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="form-input font-mono tracking-widest"
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  disabled={isLoading}
                 />
-                <button
-                  type="button"
-                  onClick={() => setShowToken(!showToken)}
-                  className="input-toggle"
-                  disabled={isLoading || isLocked}
-                >
-                  {showToken ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                </button>
+                <p className="text-xs text-gray-500 mt-2">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
               </div>
-            </div>
 
-            {/* Rate Limit Warning */}
-            {isLocked && (
-              <div className="alert alert-warning">
-                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
-                <div>
-                  <p className="font-semibold">Rate Limit Exceeded</p>
-                  <p className="text-sm opacity-80">
-                    Please wait <span>{Math.ceil(retryAfter / 60)}</span> minutes before retrying.
-                  </p>
+              {error && (
+                <div className="alert alert-danger">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Verification Failed</p>
+                    <p className="text-sm opacity-80">{error}</p>
+                  </div>
                 </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                    <span>Verifying...</span>
+                  </>
+                ) : (
+                  <>
+                    <KeyRound className="w-5 h-5" />
+                    <span>Verify</span>
+                  </>
+                )}
+              </button>
+              <button type="button" onClick={handleCancel} className="btn-secondary w-full" disabled={isLoading}>
+                Use a different token
+              </button>
+            </form>
+          ) : showBreakGlass ? (
+            /* Break-Glass Form */
+            <form onSubmit={handleRedeem} className="space-y-6">
+              <div>
+                <label className="form-label">Break-Glass Code</label>
+                <input
+                  type="text"
+                  value={breakGlassCode}
+                  onChange={(e) => setBreakGlassCode(e.target.value)}
+                  className="form-input font-mono"
+                  placeholder="1a2b3c4d-abcd-efgh-ijkl-mnop"
+                  autoComplete="off"
+                  autoFocus
+                  disabled={isLoading}
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  For when every admin token is lost. The code works once and only lets you issue a new admin token.
+                </p>
               </div>
-            )}
-
-            {/* Error Message */}
-            {error && !isLocked && (
-              <div className="alert alert-danger">
-                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
-                <div>
-                  <p className="font-semibold">Authentication Failed</p>
-                  <p className="text-sm opacity-80">{error}</p>
+
+              {error && (
+                <div className="alert alert-danger">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Recovery Failed</p>
+                    <p className="text-sm opacity-80">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                    <span>Checking...</span>
+                  </>
+                ) : (
+                  <>
+                    <ShieldAlert className="w-5 h-5" />
+                    <span>Redeem Code</span>
+                  </>
+                )}
+              </button>
+              <button type="button" onClick={toggleBreakGlass} className="btn-secondary w-full" disabled={isLoading}>
+                Back to sign in
+              </button>
+            </form>
+          ) : (
+            /* Login Form */
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {/* Session Expired Notice */}
+              {sessionNotice && !error && (
+                <div className="alert alert-warning">
+                  <Clock className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Session Expired</p>
+                    <p className="text-sm opacity-80">{sessionNotice}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Token Input */}
+              <div>
+                <label className="form-label">Access Token</label>
+                <div className="input-with-toggle">
+                  <input
+                    type={showToken ? 'text' : 'password'}
+                    value={token}
+                    onChange={(e) => setToken(e.target.value)}
+                    className="form-input pr-12"
+                    placeholder="Enter your API token"
+                    autoComplete="off"
+                    disabled={isLoading || isLocked}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowToken(!showToken)}
+                    className="input-toggle"
+                    disabled={isLoading || isLocked}
+                  >
+                    {showToken ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
                 </div>
               </div>
-            )}
-
-            {/* Authenticate Button */}
-            <button
-              type="submit"
-              disabled={isLoading || isLocked}
-              className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-            >
-              {isLoading ? (
-                <>
-                  <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
-                  <span>Authenticating...</span>
-                </>
-              ) : (
-                <span>Authenticate</span>
+
+              {/* Rate Limit Warning */}
+              {isLocked && (
+                <div className="alert alert-warning">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Rate Limit Exceeded</p>
+                    <p className="text-sm opacity-80">
+                      Please wait <span>{Math.ceil(retryAfter / 60)}</span> minutes before retrying.
+                    </p>
+                  </div>
+                </div>
               )}
-            </button>
-          </form>
+
+              {/* Error Message */}
+              {error && !isLocked && (
+                <div className="alert alert-danger">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Authentication Failed</p>
+                    <p className="text-sm opacity-80">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Authenticate Button */}
+              <button
+                type="submit"
+                disabled={isLoading || isLocked}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                    <span>Authenticating...</span>
+                  </>
+                ) : (
+                  <span>Authenticate</span>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={toggleBreakGlass}
+                className="w-full text-xs text-gray-500 hover:text-neon-cyan transition-colors"
+                disabled={isLoading}
+              >
+                Lost the admin token? Use a break-glass code
+              </button>
+            </form>
+          )}
 
           {/* Security Notice */}
           <div className="mt-6 flex items-center justify-center gap-2 text-xs text-gray-500">
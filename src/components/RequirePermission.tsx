@@ -0,0 +1,41 @@
+import { AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { usePermission } from '../hooks/usePermission';
+import { getDefaultPage, type Permission } from '../utils/permissions';
+import type { NavigateFunction } from '../types';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+// Render children only when the signed-in user holds the permission
+export function RequirePermission({ permission, fallback = null, children }: RequirePermissionProps) {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+}
+
+export function AccessDenied({ onNavigate }: { onNavigate: NavigateFunction }) {
+  const { user, logout } = useAuth();
+  const defaultPage = getDefaultPage(user);
+
+  return (
+    <div className="min-h-screen bg-bg-primary flex items-center justify-center">
+      <div className="glass-card p-8 text-center">
+        <AlertTriangle className="w-16 h-16 text-neon-yellow mx-auto mb-4" />
+        <h1 className="text-2xl font-bold text-white mb-2">Access Denied</h1>
+        <p className="text-gray-400 mb-4">You don't have permission to access this page.</p>
+        {defaultPage ? (
+          <button onClick={() => onNavigate(defaultPage)} className="btn-neon">
+            Go to {defaultPage.charAt(0).toUpperCase() + defaultPage.slice(1)}
+          </button>
+        ) : (
+          <button onClick={logout} className="btn-neon">
+            Sign Out
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
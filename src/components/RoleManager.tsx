@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { Shield, Plus, Pencil, Trash2, AlertTriangle } from 'lucide-react';
+import { defineRole, updateRole, deleteCustomRole, slugifyRoleName } from '../utils/roles';
+import { ALL_PERMISSIONS, PERMISSION_CATALOG } from '../utils/permissions';
+import type { RoleDefinition, UserData } from '../types';
+
+interface RoleManagerProps {
+  roles: RoleDefinition[];
+  users: UserData[];
+  actorUuid: string;
+  onChange: () => Promise<void> | void;
+}
+
+interface RoleForm {
+  id: string | null; // null while creating a new role
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const emptyForm: RoleForm = { id: null, name: '', description: '', permissions: [] };
+
+export function RoleManager({ roles, users, actorUuid, onChange }: RoleManagerProps) {
+  const [form, setForm] = useState<RoleForm | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const holderCount = (roleId: string) => users.filter(u => u.role === roleId).length;
+
+  const startCreate = () => {
+    setForm({ ...emptyForm });
+    setError('');
+    setNotice('');
+  };
+
+  const startEdit = (role: RoleDefinition) => {
+    setForm({ id: role.id, name: role.name, description: role.description, permissions: [...role.permissions] });
+    setError('');
+    setNotice('');
+  };
+
+  const togglePermission = (permission: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      permissions: form.permissions.includes(permission)
+        ? form.permissions.filter(p => p !== permission)
+        : [...form.permissions, permission]
+    });
+  };
+
+  const saveForm = async () => {
+    if (!form) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      if (form.id) {
+        const result = await updateRole(form.id, {
+          name: form.name,
+          description: form.description,
+          permissions: form.permissions
+        }, actorUuid);
+        setNotice(`Updated ${result.role.name}; ${result.holdersUpdated} holder(s) now use the new permissions.`);
+      } else {
+        const role = await defineRole({
+          id: slugifyRoleName(form.name),
+          name: form.name,
+          description: form.description,
+          permissions: form.permissions
+        }, actorUuid);
+        setNotice(`Created role ${role.name}.`);
+      }
+      setForm(null);
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save role');
+    }
+    setIsSaving(false);
+  };
+
+  const removeRole = async (role: RoleDefinition) => {
+    setError('');
+    setNotice('');
+    try {
+      await deleteCustomRole(role.id, actorUuid);
+      setNotice(`Deleted role ${role.name}.`);
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role');
+    }
+  };
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-white/10 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <Shield className="w-5 h-5 text-neon-purple" />
+          Roles
+        </h2>
+        {!form && (
+          <button onClick={startCreate} className="btn-secondary flex items-center gap-2 text-sm">
+            <Plus className="w-4 h-4" />
+            New Role
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="alert alert-danger m-6 mb-0">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+      {notice && !error && (
+        <p className="px-6 pt-4 text-sm text-neon-green">{notice}</p>
+      )}
+
+      {form && (
+        <div className="p-6 border-b border-white/10 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="form-label">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="form-input"
+                placeholder="e.g. Billing Viewer"
+                maxLength={48}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Id: <code className="font-mono">{form.id ?? (slugifyRoleName(form.name) || '-')}</code>
+              </p>
+            </div>
+            <div>
+              <label className="form-label">Description</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="form-input"
+                maxLength={120}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="form-label">Permissions</label>
+            <div className="checkbox-group">
+              {ALL_PERMISSIONS.map(permission => (
+                <label key={permission} className="checkbox-item" title={PERMISSION_CATALOG[permission].description}>
+                  <input
+                    type="checkbox"
+                    checked={form.permissions.includes(permission)}
+                    onChange={() => togglePermission(permission)}
+                  />
+                  <span>{PERMISSION_CATALOG[permission].label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button className="btn-secondary" onClick={() => setForm(null)}>Cancel</button>
+            <button className="btn-neon" onClick={saveForm} disabled={isSaving || !form.name.trim()}>
+              {form.id ? 'Save Role' : 'Create Role'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Role</th>
+              <th>Permissions</th>
+              <th>Holders</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {roles.map(role => (
+              <tr key={role.id}>
+                <td>
+                  <p className="text-sm font-medium text-white">{role.name}</p>
+                  <p className="text-xs text-gray-500">
+                    <code className="font-mono">{role.id}</code>{role.builtIn && ' • built-in'}
+                  </p>
+                </td>
+                <td>
+                  <div className="flex flex-wrap gap-1">
+                    {role.permissions.map(permission => (
+                      <span key={permission} className="px-2 py-0.5 rounded-full text-xs border border-white/10 text-gray-300">
+                        {permission}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="text-sm text-gray-400">{holderCount(role.id)}</td>
+                <td>
+                  <div className="flex items-center gap-2">
+                    <button className="action-btn" title="Edit" onClick={() => startEdit(role)}>
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    {!role.builtIn && (
+                      <button className="action-btn danger" title="Delete" onClick={() => removeRole(role)}>
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
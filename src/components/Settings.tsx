@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { 
   LayoutDashboard, 
   Settings as SettingsIcon, 
@@ -15,30 +15,42 @@ import {
   Triangle,
   Circle,
   Zap,
-  AlertTriangle
+  AlertTriangle,
+  Lock
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
-import { PROVIDERS, type NavigateFunction } from '../types';
-import { encryptApiKey } from '../utils/crypto';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import { PROVIDERS, type ApiKey, type KeyRotationRequest, type NavigateFunction, type UserData } from '../types';
+import type { StorageChange } from '../utils/changeFeed';
+import { loadKeyRotationRequest, saveUserData, RevisionConflictError } from '../utils/storage';
+import { mergeUserData } from '../utils/recordMerge';
+import {
+  changeVaultSecret,
+  isVaultAvailable,
+  isVaultRotationDue,
+  isVaultUnlocked,
+  revealApiKey,
+  rotateVaultKeys,
+  sealApiKey,
+  unlockVault,
+  type RotationProgress,
+  MIN_VAULT_PASSPHRASE_LENGTH
+} from '../utils/vault';
 import { sanitizeInput } from '../utils/auth';
+import { canModifyProvider, canRevealProviderKey, filterByProvider } from '../utils/scopes';
 
-interface StoredProvider {
-  id: string;
-  provider: string;
-  name: string;
-  key: string;
-  masked: boolean;
+// A key change lost the compare-and-swap race against another tab or an admin edit
+interface KeyConflict {
+  base: UserData;
+  mine: UserData;
+  current: UserData | null; // null if the user was deleted
 }
 
-const mockProviders: StoredProvider[] = [
-  { id: '1', provider: 'openai', name: 'OpenAI', key: 'sk-proj-abc123xyz789...', masked: true },
-  { id: '2', provider: 'anthropic', name: 'Anthropic', key: 'sk-ant-api03-xyz789abc...', masked: true },
-  { id: '3', provider: 'grok', name: 'Grok', key: 'xai-1234567890abcdef...', masked: true },
-];
+const getProviderName = (providerId: string) => PROVIDERS.find(p => p.id === providerId)?.name || 'Custom Provider';
 
 export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
-  const { user, logout, isAdmin } = useAuth();
-  const [providers, setProviders] = useState<StoredProvider[]>(mockProviders);
+  const { user, token, logout, isAdmin, refreshUser } = useAuth();
   const [showModal, setShowModal] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState('');
   const [newApiKey, setNewApiKey] = useState('');
@@ -46,9 +58,54 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
   const [testResult, setTestResult] = useState<null | boolean>(null);
   const [isTesting, setIsTesting] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [keyConflict, setKeyConflict] = useState<KeyConflict | null>(null);
+  const [keyError, setKeyError] = useState('');
+  // Plaintext only for keys the user is looking at right now
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
+  const [vaultSecret, setVaultSecret] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [vaultError, setVaultError] = useState('');
+  const [vaultMessage, setVaultMessage] = useState('');
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+  const [rotationRequest, setRotationRequest] = useState<KeyRotationRequest | null>(null);
+  const [rotationSecret, setRotationSecret] = useState('');
+  const [rotationProgress, setRotationProgress] = useState<RotationProgress | null>(null);
 
   const initials = user ? `${user.role.charAt(0).toUpperCase()}U` : 'GU';
 
+  const vaultAvailable = isVaultAvailable(user);
+  const vaultUnlocked = isVaultUnlocked(user);
+  const rotationDue = vaultUnlocked && isVaultRotationDue(user, rotationRequest);
+  // Token vaults rotate with the session's token; otherwise the secret has to be entered again
+  const rotationNeedsSecret = user?.vault?.source === 'passphrase' || !token;
+
+  // Keys outside the token's provider scope are never listed
+  const visibleKeys = filterByProvider(user, user?.apiKeys ?? [], k => k.provider);
+  const addableProviders = PROVIDERS.filter(p => canModifyProvider(user, p.id));
+  const canAddCustom = canModifyProvider(user, 'custom');
+  const canAddProvider = addableProviders.length > 0 && vaultUnlocked;
+
+  useEffect(() => {
+    if (!vaultUnlocked) setRevealed({});
+  }, [vaultUnlocked]);
+
+  const refreshRotationRequest = useCallback(() => {
+    loadKeyRotationRequest().then(setRotationRequest);
+  }, []);
+
+  useEffect(() => {
+    refreshRotationRequest();
+  }, [refreshRotationRequest]);
+
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'keyRotation' || change.kind === 'all') {
+      refreshRotationRequest();
+    }
+  }, [refreshRotationRequest]);
+
+  useStorageChanges(handleStorageChange);
+
   const getProviderIcon = (providerId: string) => {
     switch (providerId) {
       case 'openai': return <Brain className="w-6 h-6" />;
@@ -67,22 +124,102 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
     }
   };
 
-  const toggleKeyVisibility = (id: string) => {
-    setProviders(prev => prev.map(p => 
-      p.id === id ? { ...p, masked: !p.masked } : p
-    ));
+  const toggleKeyVisibility = async (apiKey: ApiKey) => {
+    if (!user || !canRevealProviderKey(user, apiKey.provider)) return;
+    if (apiKey.id in revealed) {
+      setRevealed(({ [apiKey.id]: _hidden, ...rest }) => rest);
+      return;
+    }
+    try {
+      const plaintext = await revealApiKey(user, apiKey);
+      setRevealed(prev => ({ ...prev, [apiKey.id]: plaintext }));
+    } catch {
+      setKeyError('This key could not be decrypted with the unlocked vault');
+    }
   };
 
-  const copyKey = async (id: string, key: string) => {
+  const copyKey = async (apiKey: ApiKey) => {
+    if (!user || !canRevealProviderKey(user, apiKey.provider)) return;
     try {
-      await navigator.clipboard.writeText(key);
-      setCopiedId(id);
+      await navigator.clipboard.writeText(await revealApiKey(user, apiKey));
+      setCopiedId(apiKey.id);
       setTimeout(() => setCopiedId(null), 2000);
     } catch (err) {
       console.error('Failed to copy:', err);
     }
   };
 
+  // A token vault whose token was rotated opens with the previous token, then moves to the current one
+  const unlock = async () => {
+    if (!user || !vaultSecret) return;
+
+    setIsVaultBusy(true);
+    setVaultError('');
+    try {
+      const unlocked = await unlockVault(user, vaultSecret);
+      if (!unlocked) {
+        setVaultError(user.vault?.source === 'passphrase' ? 'Incorrect vault passphrase' : 'This token does not open the vault');
+        return;
+      }
+      if (unlocked.vault?.source === 'token' && token && token !== vaultSecret) {
+        await changeVaultSecret(unlocked, 'token', token);
+      }
+      setVaultSecret('');
+      await refreshUser();
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Failed to unlock the vault');
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  // Re-encrypts every key in batches; if this stops part-way it carries on at the next rotation
+  const rotateKeys = async () => {
+    const secret = rotationNeedsSecret ? rotationSecret : token;
+    if (!user || !secret) return;
+
+    setIsVaultBusy(true);
+    setVaultError('');
+    setVaultMessage('');
+    setRotationProgress({ done: 0, total: user.apiKeys.length });
+    try {
+      const result = await rotateVaultKeys(user, secret, setRotationProgress);
+      setRotationSecret('');
+      setVaultMessage(result.failed.length > 0
+        ? `Re-encrypted ${result.rotated} keys; ${result.failed.length} could not be decrypted and were left as they were.`
+        : `Re-encrypted ${result.rotated} keys with new key material.`);
+      await refreshUser();
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Key rotation failed');
+    } finally {
+      setRotationProgress(null);
+      setIsVaultBusy(false);
+    }
+  };
+
+  const switchVaultSecret = async (useToken: boolean) => {
+    if (!user) return;
+    if (!useToken && newPassphrase !== confirmPassphrase) {
+      setVaultError('Passphrases do not match');
+      return;
+    }
+
+    setIsVaultBusy(true);
+    setVaultError('');
+    setVaultMessage('');
+    try {
+      await changeVaultSecret(user, useToken ? 'token' : 'passphrase', useToken ? token! : newPassphrase);
+      setNewPassphrase('');
+      setConfirmPassphrase('');
+      setVaultMessage(useToken ? 'Your keys now unlock with your access token.' : 'Your keys now unlock with your vault passphrase.');
+      await refreshUser();
+    } catch (error) {
+      setVaultError(error instanceof Error ? error.message : 'Failed to change the vault secret');
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
   const openModal = () => {
     setShowModal(true);
     setSelectedProvider('');
@@ -112,29 +249,65 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
     }, 1500);
   };
 
+  // Compare-and-swap against the revision this screen loaded; a conflict is shown, never overwritten
+  const saveApiKeys = async (base: UserData, mine: UserData) => {
+    setKeyError('');
+    try {
+      await saveUserData(mine);
+      await refreshUser();
+      return true;
+    } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        setKeyConflict({ base, mine, current: error.current });
+      } else {
+        setKeyError(error instanceof Error ? error.message : 'Failed to save API keys');
+      }
+      return false;
+    }
+  };
+
+  const updateApiKeys = (apply: (apiKeys: ApiKey[]) => ApiKey[]) => {
+    if (!user) return Promise.resolve(false);
+    return saveApiKeys(user, { ...user, apiKeys: apply(user.apiKeys) });
+  };
+
+  // Keep my key changes on top of the newer record
+  const applyKeyChanges = async () => {
+    if (!keyConflict?.current) return;
+    const { base, mine, current } = keyConflict;
+    setKeyConflict(null);
+    await saveApiKeys(current, mergeUserData(base, mine, current));
+  };
+
+  const discardKeyChanges = async () => {
+    setKeyConflict(null);
+    await refreshUser();
+  };
+
   const saveProvider = async () => {
-    if (!selectedProvider || !newApiKey.trim()) return;
+    if (!user || !selectedProvider || !canModifyProvider(user, selectedProvider) || !newApiKey.trim()) return;
 
     const providerInfo = PROVIDERS.find(p => p.id === selectedProvider);
     if (!providerInfo) return;
 
-    // Encrypt the API key (for production use)
-    await encryptApiKey(newApiKey, user?.uuid || 'default');
-
-    const newProvider: StoredProvider = {
-      id: Date.now().toString(),
+    // Only the sealed envelope is kept; the plaintext leaves state with the modal
+    const id = Date.now().toString();
+    const apiKey: ApiKey = {
+      id,
       provider: selectedProvider,
-      name: providerInfo.name,
-      key: newApiKey, // In production, store encrypted
-      masked: true
+      key: await sealApiKey(user, newApiKey, id),
+      usage: 0,
+      limit: 0
     };
 
-    setProviders(prev => [...prev, newProvider]);
-    closeModal();
+    if (await updateApiKeys(apiKeys => [...apiKeys, apiKey])) {
+      closeModal();
+    }
   };
 
-  const deleteProvider = (id: string) => {
-    setProviders(prev => prev.filter(p => p.id !== id));
+  const deleteProvider = async (apiKey: ApiKey) => {
+    if (!canModifyProvider(user, apiKey.provider)) return;
+    await updateApiKeys(apiKeys => apiKeys.filter(k => k.id !== apiKey.id));
   };
 
   return (
@@ -195,21 +368,45 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
               <h1 className="text-3xl font-bold text-white mb-1">Settings</h1>
               <p className="text-gray-400">Manage your API providers and configurations</p>
             </div>
-            <button 
-              onClick={openModal}
-              className="btn-neon flex items-center gap-2"
-            >
-              <Plus className="w-5 h-5" />
-              Add Provider
-            </button>
+            {canAddProvider && (
+              <button 
+                onClick={openModal}
+                className="btn-neon flex items-center gap-2"
+              >
+                <Plus className="w-5 h-5" />
+                Add Provider
+              </button>
+            )}
           </div>
         </header>
 
         {/* API Providers Section */}
         <div className="mb-8">
           <h2 className="text-xl font-bold text-white mb-4">API Providers</h2>
+          {keyConflict && (
+            <div className="alert alert-warning flex-col items-stretch">
+              <p className="text-sm flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                {keyConflict.current
+                  ? 'Your account was changed in another tab or by an admin. Your API key change was not saved.'
+                  : 'Your account no longer exists. Your API key change was not saved.'}
+              </p>
+              {keyConflict.current && (
+                <div className="flex justify-end gap-2">
+                  <button className="btn-secondary" onClick={discardKeyChanges}>Discard Mine</button>
+                  <button className="btn-neon" onClick={applyKeyChanges}>Apply On Top</button>
+                </div>
+              )}
+            </div>
+          )}
+          {keyError && (
+            <div className="alert alert-danger">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{keyError}</p>
+            </div>
+          )}
           <div className="space-y-4">
-            {providers.map((provider) => (
+            {visibleKeys.map((provider) => (
               <div key={provider.id} className="provider-card">
                 <div className="flex flex-col lg:flex-row lg:items-center gap-4">
                   <div className="flex items-center gap-4">
@@ -217,7 +414,7 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
                       {getProviderIcon(provider.provider)}
                     </div>
                     <div>
-                      <h3 className="font-semibold text-white">{provider.name}</h3>
+                      <h3 className="font-semibold text-white">{getProviderName(provider.provider)}</h3>
                       <p className="text-xs text-gray-500">{
                         PROVIDERS.find(p => p.id === provider.provider)?.models.join(', ') || 'AI Model'
                       }</p>
@@ -227,46 +424,174 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
                   <div className="flex-1 lg:max-w-md">
                     <div className="provider-key">
                       <span className="key-text">
-                        {provider.masked 
-                          ? `${provider.key.substring(0, 3)}-••••••••••••••••` 
-                          : sanitizeInput(provider.key)}
+                        {provider.id in revealed
+                          ? sanitizeInput(revealed[provider.id])
+                          : '••••••••••••••••••••'}
                       </span>
-                      <div className="provider-actions ml-auto">
-                        <button 
-                          className="action-btn" 
-                          onClick={() => toggleKeyVisibility(provider.id)}
-                          title="Show/Hide"
-                        >
-                          {provider.masked ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                        </button>
-                        <button 
-                          className="action-btn" 
-                          onClick={() => copyKey(provider.id, provider.key)}
-                          title="Copy"
-                        >
-                          {copiedId === provider.id ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
-                        </button>
-                      </div>
+                      {vaultUnlocked && canRevealProviderKey(user, provider.provider) && (
+                        <div className="provider-actions ml-auto">
+                          <button 
+                            className="action-btn" 
+                            onClick={() => toggleKeyVisibility(provider)}
+                            title="Show/Hide"
+                          >
+                            {provider.id in revealed ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </button>
+                          <button 
+                            className="action-btn" 
+                            onClick={() => copyKey(provider)}
+                            title="Copy"
+                          >
+                            {copiedId === provider.id ? <Check className="w-4 h-4 text-neon-green" /> : <Copy className="w-4 h-4" />}
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                   
-                  <div className="flex items-center gap-2">
-                    <button className="action-btn" title="Edit">
-                      <Pencil className="w-5 h-5" />
-                    </button>
-                    <button 
-                      className="action-btn danger" 
-                      title="Delete"
-                      onClick={() => deleteProvider(provider.id)}
+                  {canModifyProvider(user, provider.provider) && (
+                    <div className="flex items-center gap-2">
+                      <button className="action-btn" title="Edit">
+                        <Pencil className="w-5 h-5" />
+                      </button>
+                      <button 
+                        className="action-btn danger" 
+                        title="Delete"
+                        onClick={() => deleteProvider(provider)}
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            {visibleKeys.length === 0 && (
+              <p className="text-sm text-gray-500">No API keys saved yet.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Key Vault */}
+        {vaultAvailable && (
+          <div className="glass-card p-6 mb-8">
+            <h2 className="text-xl font-bold text-white mb-2 flex items-center gap-2">
+              <Lock className="w-5 h-5 text-neon-cyan" />
+              Key Vault
+            </h2>
+            <p className="text-sm text-gray-400 mb-4">
+              API keys are encrypted with a key derived from your{' '}
+              {user?.vault?.source === 'passphrase' ? 'vault passphrase' : 'access token'}.
+              It is kept in memory only, so the vault locks when you reload or sign out.
+            </p>
+            {vaultError && (
+              <div className="alert alert-danger">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{vaultError}</p>
+              </div>
+            )}
+            {vaultMessage && (
+              <div className="alert alert-success">
+                <Check className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">{vaultMessage}</p>
+              </div>
+            )}
+
+            {rotationDue && (
+              <div className="alert alert-warning flex-col items-stretch">
+                <p className="text-sm flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                  {user?.vault?.pending
+                    ? 'A key rotation was interrupted. Resume it to finish re-encrypting your API keys.'
+                    : 'Your API keys are due for re-encryption under new key material.'}
+                </p>
+                {rotationProgress ? (
+                  <div>
+                    <div className="mini-progress mb-1">
+                      <div
+                        className="mini-progress-fill neon-cyan"
+                        style={{ width: `${rotationProgress.total ? (rotationProgress.done / rotationProgress.total) * 100 : 100}%` }}
+                      />
+                    </div>
+                    <p className="text-xs">{rotationProgress.done} of {rotationProgress.total} keys</p>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    {rotationNeedsSecret && (
+                      <input
+                        type="password"
+                        value={rotationSecret}
+                        onChange={(e) => setRotationSecret(e.target.value)}
+                        className="form-input flex-1"
+                        placeholder={user?.vault?.source === 'passphrase' ? 'Vault passphrase' : 'Access token'}
+                      />
+                    )}
+                    <button
+                      className="btn-neon"
+                      onClick={rotateKeys}
+                      disabled={isVaultBusy || (rotationNeedsSecret && !rotationSecret)}
                     >
-                      <Trash2 className="w-5 h-5" />
+                      {user?.vault?.pending ? 'Resume' : 'Re-encrypt Now'}
                     </button>
                   </div>
+                )}
+              </div>
+            )}
+
+            {!vaultUnlocked ? (
+              <div className="flex flex-col md:flex-row gap-3">
+                <input
+                  type="password"
+                  value={vaultSecret}
+                  onChange={(e) => setVaultSecret(e.target.value)}
+                  className="form-input flex-1"
+                  placeholder={user?.vault?.source === 'passphrase'
+                    ? 'Vault passphrase'
+                    : 'Access token (the previous one if it was rotated)'}
+                />
+                <button className="btn-neon" onClick={unlock} disabled={isVaultBusy || !vaultSecret}>
+                  Unlock
+                </button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <div>
+                  <label className="form-label">New vault passphrase</label>
+                  <input
+                    type="password"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    className="form-input"
+                    placeholder={`At least ${MIN_VAULT_PASSPHRASE_LENGTH} characters`}
+                  />
+                </div>
+                <div>
+                  <label className="form-label">Confirm passphrase</label>
+                  <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    className="form-input"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className="btn-neon"
+                    onClick={() => switchVaultSecret(false)}
+                    disabled={isVaultBusy || !newPassphrase}
+                  >
+                    Set Passphrase
+                  </button>
+                  {user?.vault?.source === 'passphrase' && token && (
+                    <button className="btn-secondary" onClick={() => switchVaultSecret(true)} disabled={isVaultBusy}>
+                      Use Token
+                    </button>
+                  )}
                 </div>
               </div>
-            ))}
+            )}
           </div>
-        </div>
+        )}
 
         {/* General Settings */}
         <div className="glass-card p-6">
@@ -310,10 +635,13 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
             <button className="btn-neon">Save Changes</button>
           </div>
         </div>
+
+        {/* Admins enrol from the Admin panel */}
+        {user && !isAdmin && <TwoFactorSetup user={user} />}
       </main>
 
       {/* Add Provider Modal */}
-      {showModal && (
+      {showModal && canAddProvider && (
         <div className="modal-overlay active" onClick={(e) => e.target === e.currentTarget && closeModal()}>
           <div className="modal-content">
             <div className="modal-header">
@@ -332,10 +660,10 @@ export function Settings({ onNavigate }: { onNavigate: NavigateFunction }) {
                   onChange={(e) => setSelectedProvider(e.target.value)}
                 >
                   <option value="">Select a provider...</option>
-                  {PROVIDERS.map(p => (
+                  {addableProviders.map(p => (
                     <option key={p.id} value={p.id}>{p.name}</option>
                   ))}
-                  <option value="custom">Custom Provider</option>
+                  {canAddCustom && <option value="custom">Custom Provider</option>}
                 </select>
               </div>
               
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Shield, KeyRound, Copy, Check, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { runFirstRunSetup } from '../utils/setup';
+
+// One-time screen shown while no admin exists; it disables itself once the admin is provisioned
+export function SetupWizard({ onComplete }: { onComplete: () => void }) {
+  const { login } = useAuth();
+  const [adminToken, setAdminToken] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const provision = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const result = await runFirstRunSetup();
+      setAdminToken(result.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Setup failed');
+    }
+    setIsWorking(false);
+  };
+
+  const copyToken = () => {
+    if (!adminToken) return;
+    navigator.clipboard.writeText(adminToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Sign straight in with the new token, then drop the token from memory
+  const finish = async () => {
+    if (!adminToken) return;
+    setIsWorking(true);
+    await login(adminToken);
+    setAdminToken(null);
+    onComplete();
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center relative overflow-hidden bg-bg-primary">
+      <div className="grid-bg" />
+
+      <div className="relative z-10 w-full max-w-lg px-4">
+        <div className="glass-card p-8 md:p-10">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-gradient-to-br from-neon-cyan/20 to-neon-purple/20 border border-neon-cyan/30 mb-4 glow-cyan">
+              <Shield className="w-8 h-8 text-neon-cyan" />
+            </div>
+            <h1 className="text-2xl font-bold text-white mb-1">First-Run Setup</h1>
+            <p className="text-sm text-gray-400">No administrator exists yet</p>
+          </div>
+
+          {error && (
+            <div className="alert alert-danger mb-6">
+              <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+              <p className="text-sm">{error}</p>
+            </div>
+          )}
+
+          {!adminToken ? (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-300">
+                Generate the admin access token for this installation. Only its hash is stored, the token is shown
+                once, and this screen will not appear again.
+              </p>
+              <button
+                onClick={provision}
+                disabled={isWorking}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+              >
+                {isWorking ? (
+                  <span className="loading-spinner" style={{ width: '20px', height: '20px' }} />
+                ) : (
+                  <KeyRound className="w-5 h-5" />
+                )}
+                <span>Generate Admin Token</span>
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="alert alert-warning">
+                <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+                <p className="text-sm">Copy this token now. It cannot be recovered later.</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 font-mono text-sm text-neon-cyan break-all p-3 rounded bg-white/5 border border-white/10">
+                  {adminToken}
+                </code>
+                <button className="action-btn" onClick={copyToken} title="Copy">
+                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+              <label className="checkbox-item">
+                <input type="checkbox" checked={saved} onChange={() => setSaved(!saved)} />
+                <span>I have stored the admin token somewhere safe</span>
+              </label>
+              <button
+                onClick={finish}
+                disabled={!saved || isWorking}
+                className="btn-neon w-full disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Continue to Dashboard
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react';
+import QRCode from 'qrcode';
+import { ShieldCheck, AlertTriangle, Copy, Check } from 'lucide-react';
+import { loadUserData } from '../utils/storage';
+import type { StorageChange } from '../utils/changeFeed';
+import { useStorageChanges } from '../hooks/useStorageChanges';
+import { useAuth } from '../hooks/useAuth';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  verifySecondFactor,
+  isTwoFactorEligible,
+  type TotpSetup
+} from '../utils/twoFactor';
+import type { UserData } from '../types';
+
+// Enrolment card for the signed-in user; reads the stored record since the session copy may be stale
+export function TwoFactorSetup({ user }: { user: UserData }) {
+  const { token } = useAuth();
+  const [stored, setStored] = useState<UserData | null>(null);
+  // The secret is sealed under the access token, which a resumed session no longer holds
+  const [tokenInput, setTokenInput] = useState('');
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setStored(await loadUserData(user.uuid));
+  }, [user.uuid]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Enrolment finished or disabled in another tab
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'all' || (change.kind === 'user' && change.id === user.uuid)) {
+      refresh();
+    }
+  }, [user.uuid, refresh]);
+
+  useStorageChanges(handleStorageChange);
+
+  // The QR code is drawn in the browser so the secret never leaves the page
+  useEffect(() => {
+    if (!setup) {
+      setQrDataUrl(null);
+      return;
+    }
+    QRCode.toDataURL(setup.uri, { margin: 1, width: 192 })
+      .then(setQrDataUrl)
+      .catch(() => setQrDataUrl(null));
+  }, [setup]);
+
+  if (!isTwoFactorEligible(user)) {
+    return null;
+  }
+
+  const accessToken = token ?? tokenInput;
+
+  const reset = () => {
+    setSetup(null);
+    setCode('');
+    setTokenInput('');
+    setError('');
+    setIsDisabling(false);
+  };
+
+  const startEnrollment = () => {
+    setError('');
+    try {
+      setSetup(beginTotpEnrollment(stored ?? user));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start enrolment');
+    }
+  };
+
+  const confirmEnrollment = async () => {
+    if (!setup) return;
+
+    setIsBusy(true);
+    setError('');
+    try {
+      setRecoveryCodes(await confirmTotpEnrollment(user.uuid, setup.secret, code, accessToken));
+      reset();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enable two-factor authentication');
+    }
+    setIsBusy(false);
+  };
+
+  // Turning the factor off needs a current code so a borrowed session cannot remove it
+  const confirmDisable = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      const result = await verifySecondFactor(user.uuid, code, accessToken || null);
+      if (!result.success) {
+        setError(result.error ?? 'Invalid verification code');
+      } else {
+        await disableTwoFactor(user.uuid, user.uuid);
+        reset();
+        await refresh();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disable two-factor authentication');
+    }
+    setIsBusy(false);
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const enabled = Boolean(stored?.totp);
+
+  return (
+    <div className="glass-card p-6 mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-neon-green" />
+          Two-Factor Authentication
+        </h2>
+        <span className={`status-badge ${enabled ? 'active' : 'inactive'}`}>
+          {enabled ? 'Enabled' : 'Off'}
+        </span>
+      </div>
+
+      {error && (
+        <div className="alert alert-danger mb-4">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">{error}</p>
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-6">
+          <p className="text-sm text-neon-yellow mb-3">
+            Save these recovery codes now. Each works once if you lose your authenticator, and they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+            {recoveryCodes.map(recoveryCode => (
+              <code key={recoveryCode} className="px-3 py-2 rounded bg-white/5 border border-white/10">{recoveryCode}</code>
+            ))}
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button className="btn-secondary flex items-center gap-2" onClick={copyRecoveryCodes}>
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button className="btn-neon" onClick={() => setRecoveryCodes(null)}>Done</button>
+          </div>
+        </div>
+      )}
+
+      {!enabled && !setup && !recoveryCodes && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-400">
+            Require a code from an authenticator app after your access token when signing in.
+          </p>
+          <button className="btn-neon" onClick={startEnrollment}>Enable</button>
+        </div>
+      )}
+
+      {setup && (
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-6 items-start">
+            {qrDataUrl && (
+              <img src={qrDataUrl} alt="Authenticator QR code" className="w-48 h-48 rounded bg-white p-2" />
+            )}
+            <div className="space-y-2">
+              <p className="text-sm text-gray-400">
+                Scan the QR code with your authenticator app, or enter this key manually:
+              </p>
+              <code className="block font-mono text-sm text-neon-cyan break-all">{setup.secret}</code>
+            </div>
+          </div>
+          <div>
+            <label className="form-label">Verification Code</label>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="form-input font-mono"
+              placeholder="123456"
+              autoComplete="one-time-code"
+            />
+          </div>
+          {!token && (
+            <div>
+              <label className="form-label">Access Token</label>
+              <input
+                type="password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                className="form-input font-mono"
+                autoComplete="off"
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-3">
+            <button className="btn-secondary" onClick={reset}>Cancel</button>
+            <button className="btn-neon" onClick={confirmEnrollment} disabled={isBusy || !code.trim() || !accessToken}>
+              Confirm
+            </button>
+          </div>
+        </div>
+      )}
+
+      {enabled && stored?.totp && !recoveryCodes && (
+        isDisabling ? (
+          <div className="space-y-4">
+            <div>
+              <label className="form-label">Current code or recovery code</label>
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="form-input font-mono"
+                autoComplete="one-time-code"
+              />
+            </div>
+            {!token && (
+              <div>
+                <label className="form-label">Access Token (not needed for a recovery code)</label>
+                <input
+                  type="password"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  className="form-input font-mono"
+                  autoComplete="off"
+                />
+              </div>
+            )}
+            <div className="flex justify-end gap-3">
+              <button className="btn-secondary" onClick={reset}>Cancel</button>
+              <button className="btn-neon" onClick={confirmDisable} disabled={isBusy || !code.trim()}>
+                Disable
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-400">
+              Enabled {new Date(stored.totp.enabledAt).toLocaleDateString()} • {stored.totp.recoveryCodes.length} recovery code(s) left
+            </p>
+            <button className="btn-secondary" onClick={() => setIsDisabling(true)}>Disable</button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
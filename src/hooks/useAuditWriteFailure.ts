@@ -0,0 +1,11 @@
+// Audit write failure hook - the latest audit entry that could not be stored, if any
+import { useEffect, useState } from 'react';
+import { getAuditWriteFailure, subscribeToAuditWriteFailures, type AuditWriteFailure } from '../utils/audit';
+
+export function useAuditWriteFailure(): AuditWriteFailure | null {
+  const [failure, setFailure] = useState(getAuditWriteFailure);
+
+  useEffect(() => subscribeToAuditWriteFailures(setFailure), []);
+
+  return failure;
+}
@@ -1,9 +1,30 @@
-// Authentication hook - BYPASSED for direct access
-import { useState, useCallback, createContext, useContext } from 'react';
-import type { AuthContextType, UserData } from '../types';
+// Authentication hook - token login, persistent sessions and an explicit development bypass
+import { useState, useCallback, useEffect, createContext, useContext } from 'react';
+import type { AuthContextType, LoginOutcome, UserData } from '../types';
+import { authenticateToken, BREAK_GLASS_UUID, getBreakGlassUser, loadSessionUser } from '../utils/auth';
+import { can, PERMISSIONS } from '../utils/permissions';
+import { startSession, resumeSession, touchSession, endSession, type SessionStatus } from '../utils/session';
+import { verifySecondFactor as verifySecondFactorCode } from '../utils/twoFactor';
+import { redeemBreakGlassCode as redeemCode } from '../utils/breakGlass';
+import { isVaultAvailable, isVaultRotationDue, lockVault, rotateVaultKeys, unlockVault } from '../utils/vault';
+import { loadKeyRotationRequest } from '../utils/storage';
+import type { StorageChange } from '../utils/changeFeed';
+import { useStorageChanges } from './useStorageChanges';
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Bypass only applies to dev builds that opt in with VITE_AUTH_BYPASS=true
+const AUTH_BYPASS = import.meta.env.DEV && import.meta.env.VITE_AUTH_BYPASS === 'true';
+
+// How often the session is re-checked and how often activity is written back
+const SESSION_CHECK_INTERVAL = 15 * 1000;
+const ACTIVITY_THROTTLE = 60 * 1000;
+
+// Time allowed between an accepted token and the second factor
+const SECOND_FACTOR_TIMEOUT = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
 // Mock admin user for bypass mode
 const mockAdminUser: UserData = {
   uuid: 'admin-bypass-001',
@@ -13,8 +34,20 @@ const mockAdminUser: UserData = {
   lastAccess: new Date().toISOString(),
   role: 'admin',
   permissions: ['read:dashboard', 'modify:settings', 'manage:providers', 'admin:access'],
+  status: 'active',
+  expiresAt: null,
 };
 
+if (AUTH_BYPASS) {
+  console.warn('[auth] VITE_AUTH_BYPASS is enabled - every visitor is signed in as admin');
+}
+
+function getExpiryNotice(reason: SessionStatus): string {
+  return reason === 'idle_timeout'
+    ? 'Your session expired after a period of inactivity. Please sign in again.'
+    : 'Your session reached its maximum lifetime. Please sign in again.';
+}
+
 export function useAuth(): AuthContextType {
   const context = useContext(AuthContext);
   if (!context) {
@@ -23,25 +56,240 @@ export function useAuth(): AuthContextType {
   return context;
 }
 
+// Token-authenticated user still waiting on a TOTP or recovery code, held in memory only
+interface PendingSecondFactor {
+  user: UserData;
+  token: string;
+  startedAt: number;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  // Always authenticated as admin
-  const [isAuthenticated] = useState(true);
-  const [user] = useState<UserData | null>(mockAdminUser);
-  const [token] = useState<string | null>('bypass-token');
+  const [user, setUser] = useState<UserData | null>(AUTH_BYPASS ? mockAdminUser : null);
+  const [token, setToken] = useState<string | null>(AUTH_BYPASS ? 'bypass-token' : null);
+  const [isLoading, setIsLoading] = useState(!AUTH_BYPASS);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
+  const [pendingSecondFactor, setPendingSecondFactor] = useState<PendingSecondFactor | null>(null);
 
-  const login = useCallback(async (): Promise<boolean> => {
-    return true; // Always succeed
+  const clearAuthState = useCallback(() => {
+    lockVault();
+    setUser(null);
+    setToken(null);
   }, []);
 
-  const logout = useCallback(() => {
-    // No-op - can't logout in bypass mode
-    window.location.reload();
+  // A storage read or lock that fails while checking the session signs this tab out instead of
+  // leaving it spinning or signed in on a session nobody could verify
+  const failSessionCheck = useCallback((error: unknown) => {
+    console.warn('[auth] Could not check the session', error);
+    endSession().catch(() => {});
+    clearAuthState();
+    setSessionNotice('Your session could not be checked. Please sign in again.');
+  }, [clearAuthState]);
+
+  // Restore a session left by a previous page load
+  useEffect(() => {
+    if (AUTH_BYPASS) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const check = await resumeSession();
+        if (cancelled) return;
+
+        if (check.valid) {
+          const sessionUser = await loadSessionUser(check.session.userUuid);
+          if (cancelled) return;
+          if (sessionUser) {
+            setUser(sessionUser);
+          } else {
+            await endSession();
+          }
+        } else if (check.reason !== 'missing') {
+          setSessionNotice(getExpiryNotice(check.reason));
+        }
+      } catch (error) {
+        if (!cancelled) failSessionCheck(error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [failSessionCheck]);
+
+  // Watch for session lapses or token revocation/expiry and record user activity
+  useEffect(() => {
+    if (AUTH_BYPASS || !user) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const check = await resumeSession();
+        if (!check.valid) {
+          clearAuthState();
+          setSessionNotice(check.reason === 'missing' ? null : getExpiryNotice(check.reason));
+          return;
+        }
+
+        if (!await loadSessionUser(check.session.userUuid)) {
+          await endSession();
+          clearAuthState();
+          setSessionNotice('Your access token is no longer valid. Please contact an administrator.');
+        }
+      } catch (error) {
+        failSessionCheck(error);
+      }
+    }, SESSION_CHECK_INTERVAL);
+
+    let lastTouch = 0;
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastTouch < ACTIVITY_THROTTLE) return;
+      lastTouch = now;
+      touchSession().catch(failSessionCheck);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [user, clearAuthState, failSessionCheck]);
+
+  // Reload after this tab saved the record, or another tab changed it; keeps the revision current
+  const userUuid = user?.uuid ?? null;
+  const refreshUser = useCallback(async () => {
+    if (AUTH_BYPASS || !userUuid) return;
+
+    try {
+      const updated = await loadSessionUser(userUuid);
+      if (updated) {
+        setUser(updated);
+      } else {
+        await endSession();
+        clearAuthState();
+        setSessionNotice('Your access token is no longer valid. Please contact an administrator.');
+      }
+    } catch (error) {
+      failSessionCheck(error);
+    }
+  }, [userUuid, clearAuthState, failSessionCheck]);
+
+  // Pick up permission, scope or key changes made in another tab without waiting for the next check
+  const handleStorageChange = useCallback((change: StorageChange) => {
+    if (change.kind === 'all' || (change.kind === 'user' && change.id === userUuid)) {
+      refreshUser();
+    }
+  }, [userUuid, refreshUser]);
+
+  useStorageChanges(handleStorageChange);
+
+  const completeLogin = useCallback(async (loggedInUser: UserData, submittedToken: string) => {
+    await startSession(loggedInUser.uuid);
+    // Token-keyed vaults open with the login token; passphrase vaults wait for Settings
+    const unlocked = isVaultAvailable(loggedInUser) && loggedInUser.vault?.source !== 'passphrase'
+      ? await unlockVault(loggedInUser, submittedToken).catch(() => null)
+      : null;
+    setSessionNotice(null);
+    setUser(unlocked ?? loggedInUser);
+    setToken(submittedToken);
+
+    // A token vault that is due re-encrypts now, while the token is at hand
+    if (unlocked && isVaultRotationDue(unlocked, await loadKeyRotationRequest())) {
+      rotateVaultKeys(unlocked, submittedToken)
+        .then(result => setUser(prev => (prev?.uuid === result.user.uuid ? result.user : prev)))
+        .catch(error => console.warn('[auth] Key rotation did not finish; it resumes at the next sign-in', error));
+    }
+  }, []);
+
+  const login = useCallback(async (submittedToken: string): Promise<LoginOutcome> => {
+    const result = await authenticateToken(submittedToken);
+    if (!result.success || !result.user) {
+      return 'failed';
+    }
+
+    if (result.secondFactorRequired) {
+      setPendingSecondFactor({ user: result.user, token: submittedToken, startedAt: Date.now() });
+      return 'second_factor';
+    }
+
+    await completeLogin(result.user, submittedToken);
+    return 'success';
+  }, [completeLogin]);
+
+  const verifySecondFactor = useCallback(async (code: string): Promise<boolean> => {
+    if (!pendingSecondFactor) {
+      return false;
+    }
+    if (Date.now() - pendingSecondFactor.startedAt > SECOND_FACTOR_TIMEOUT) {
+      setPendingSecondFactor(null);
+      setSessionNotice('The verification step timed out. Please enter your token again.');
+      return false;
+    }
+
+    const result = await verifySecondFactorCode(pendingSecondFactor.user.uuid, code, pendingSecondFactor.token);
+    if (!result.success) {
+      return false;
+    }
+
+    setPendingSecondFactor(null);
+    await completeLogin(pendingSecondFactor.user, pendingSecondFactor.token);
+    return true;
+  }, [pendingSecondFactor, completeLogin]);
+
+  // The redemption starts the break-glass session itself; there is no token and no vault to open
+  const redeemBreakGlassCode = useCallback(async (code: string): Promise<boolean> => {
+    const result = await redeemCode(code);
+    if (!result.success) {
+      return false;
+    }
+
+    setPendingSecondFactor(null);
+    setSessionNotice(null);
+    setUser(getBreakGlassUser());
+    setToken(null);
+    return true;
   }, []);
 
-  const isAdmin = true; // Always admin
+  const cancelSecondFactor = useCallback(() => {
+    setPendingSecondFactor(null);
+  }, []);
+
+  const logout = useCallback(() => {
+    if (AUTH_BYPASS) {
+      // Nothing to sign out of in bypass mode
+      return;
+    }
+
+    // The browser has already forgotten the session; only removing the stored copy can fail here
+    endSession().catch(error => console.warn('[auth] Could not remove the stored session', error));
+    setPendingSecondFactor(null);
+    clearAuthState();
+  }, [clearAuthState]);
+
+  const isAuthenticated = user !== null;
+  const isAdmin = can(user, PERMISSIONS.adminAccess);
+  const isBreakGlass = user?.uuid === BREAK_GLASS_UUID;
+  const secondFactorPending = pendingSecondFactor !== null;
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, token, login, logout, isAdmin }}>
+    <AuthContext.Provider value={{
+      isAuthenticated,
+      isLoading,
+      user,
+      token,
+      login,
+      secondFactorPending,
+      verifySecondFactor,
+      cancelSecondFactor,
+      logout,
+      refreshUser,
+      redeemBreakGlassCode,
+      isBreakGlass,
+      isAdmin,
+      sessionNotice
+    }}>
       {children}
     </AuthContext.Provider>
   );
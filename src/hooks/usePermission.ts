@@ -0,0 +1,8 @@
+// Permission hook for gating pages and individual actions
+import { useAuth } from './useAuth';
+import { can, type Permission } from '../utils/permissions';
+
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return can(user, permission);
+}
@@ -1,6 +1,16 @@
-// Rate limiting hook
+// Rate limiting hooks
 import { useState, useEffect, useCallback } from 'react';
-import { checkRateLimit, resetRateLimit, getRateLimitStatus } from '../utils/auth';
+import {
+  checkRateLimit,
+  checkLoginRateLimit,
+  recordLoginSuccess,
+  resetRateLimit,
+  getRateLimitStatus,
+  getRateLimitPolicy,
+  getLoginRateLimitIdentifiers,
+  type LoginRateLimitResult
+} from '../utils/auth';
+import { getClientFingerprint, getTokenRateLimitKey } from '../utils/fingerprint';
 
 interface UseRateLimitReturn {
   attemptsRemaining: number;
@@ -10,32 +20,36 @@ interface UseRateLimitReturn {
   reset: () => void;
 }
 
-const RATE_LIMIT_ATTEMPTS = 5;
+interface TierStatus {
+  attemptsRemaining: number;
+  retryAfter: number;
+}
+
+function readTierStatus(identifier: string, maxAttempts: number): TierStatus {
+  const status = getRateLimitStatus(identifier);
+  const now = Date.now();
+
+  if (!status) {
+    return { attemptsRemaining: maxAttempts, retryAfter: 0 };
+  }
+  if (status.lockedUntil && now < status.lockedUntil) {
+    return { attemptsRemaining: 0, retryAfter: Math.ceil((status.lockedUntil - now) / 1000) };
+  }
+  return { attemptsRemaining: Math.max(0, maxAttempts - status.attempts), retryAfter: 0 };
+}
 
 export function useRateLimit(identifier: string): UseRateLimitReturn {
-  const [attemptsRemaining, setAttemptsRemaining] = useState(RATE_LIMIT_ATTEMPTS);
+  const maxAttempts = getRateLimitPolicy().tiers.client.maxAttempts;
+  const [attemptsRemaining, setAttemptsRemaining] = useState(maxAttempts);
   const [isLocked, setIsLocked] = useState(false);
   const [retryAfter, setRetryAfter] = useState(0);
 
   const updateStatus = useCallback(() => {
-    const status = getRateLimitStatus(identifier);
-    if (status) {
-      const now = Date.now();
-      if (status.lockedUntil && now < status.lockedUntil) {
-        setIsLocked(true);
-        setRetryAfter(Math.ceil((status.lockedUntil - now) / 1000));
-        setAttemptsRemaining(0);
-      } else {
-        setIsLocked(false);
-        setRetryAfter(0);
-        setAttemptsRemaining(Math.max(0, RATE_LIMIT_ATTEMPTS - status.attempts));
-      }
-    } else {
-      setIsLocked(false);
-      setRetryAfter(0);
-      setAttemptsRemaining(RATE_LIMIT_ATTEMPTS);
-    }
-  }, [identifier]);
+    const status = readTierStatus(identifier, maxAttempts);
+    setIsLocked(status.retryAfter > 0);
+    setRetryAfter(status.retryAfter);
+    setAttemptsRemaining(status.attemptsRemaining);
+  }, [identifier, maxAttempts]);
 
   useEffect(() => {
     updateStatus();
@@ -61,4 +75,53 @@ export function useRateLimit(identifier: string): UseRateLimitReturn {
     checkAttempt,
     reset
   };
-}
\ No newline at end of file
+}
+
+interface UseLoginRateLimitReturn {
+  isLocked: boolean;
+  retryAfter: number;
+  checkAttempt: (token: string) => LoginRateLimitResult;
+  resetToken: (token: string) => void;
+}
+
+// Layered login limits; the lock shown before typing covers the client and global tiers
+export function useLoginRateLimit(): UseLoginRateLimitReturn {
+  const [clientId] = useState(getClientFingerprint);
+  const [isLocked, setIsLocked] = useState(false);
+  const [retryAfter, setRetryAfter] = useState(0);
+
+  const updateStatus = useCallback(() => {
+    const { tiers } = getRateLimitPolicy();
+    const identifiers = getLoginRateLimitIdentifiers({ tokenKey: '', clientId });
+    const wait = Math.max(
+      readTierStatus(identifiers.client, tiers.client.maxAttempts).retryAfter,
+      readTierStatus(identifiers.global, tiers.global.maxAttempts).retryAfter
+    );
+    setIsLocked(wait > 0);
+    setRetryAfter(wait);
+  }, [clientId]);
+
+  useEffect(() => {
+    updateStatus();
+    const interval = setInterval(updateStatus, 1000);
+    return () => clearInterval(interval);
+  }, [updateStatus]);
+
+  const checkAttempt = useCallback((token: string) => {
+    const result = checkLoginRateLimit({ tokenKey: getTokenRateLimitKey(token), clientId });
+    updateStatus();
+    return result;
+  }, [clientId, updateStatus]);
+
+  // A successful login does not count against any tier
+  const resetToken = useCallback((token: string) => {
+    recordLoginSuccess({ tokenKey: getTokenRateLimitKey(token), clientId });
+  }, [clientId]);
+
+  return {
+    isLocked,
+    retryAfter,
+    checkAttempt,
+    resetToken
+  };
+}
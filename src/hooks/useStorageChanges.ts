@@ -0,0 +1,8 @@
+// Storage change hook - runs the callback when another tab writes a record
+import { useEffect } from 'react';
+import { subscribeToChanges, type StorageChangeListener } from '../utils/changeFeed';
+
+// Pass a stable callback (useCallback); a new one resubscribes
+export function useStorageChanges(onChange: StorageChangeListener): void {
+  useEffect(() => subscribeToChanges(onChange), [onChange]);
+}
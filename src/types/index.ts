@@ -7,19 +7,89 @@ export type NavigateFunction = (page: Page) => void;
 export interface ApiKey {
   id: string;
   provider: string;
-  key: string; // Encrypted
+  key: string; // Envelope sealed under a data key wrapped by the owner's vault key, bound to this id
   usage: number;
   limit: number;
 }
 
+export type TokenStatus = 'active' | 'revoked';
+
+// Effective state of a token: stored status plus expiry
+export type TokenState = 'active' | 'expired' | 'revoked';
+
+// Previous token hash that stays valid for a grace window after rotation
+export interface RetiringToken {
+  tokenHash: string;
+  tokenId?: string;
+  rotatedAt: string;
+  retiresAt: string;
+}
+
+// Enrolled TOTP second factor; the secret is AES-GCM encrypted and recovery codes are hashed
+export interface TotpEnrollment {
+  secret: string; // encryptApiKey() output
+  enabledAt: string;
+  lastUsedStep: number; // Time step of the last accepted code, refuses replays
+  recoveryCodes: string[]; // SHA-256 of each unused recovery code
+}
+
+export type VaultSource = 'token' | 'passphrase';
+
+// How a vault's key-encryption key is derived; the key itself is never stored
+export interface VaultKeyMaterial {
+  source: VaultSource; // Derived from the login token, or from a separate vault passphrase
+  salt: number[];
+  iterations?: number; // PBKDF2 iterations; absent on vaults from before this was configurable (100k)
+  verifier: string; // Known value sealed with the key, to tell a wrong secret from damaged keys
+  rotatedAt?: string; // When the data keys were last replaced; absent on vaults from before rotation
+}
+
+// Per-user key vault
+export interface VaultConfig extends VaultKeyMaterial {
+  pending?: VaultKeyMaterial; // Next key material while a rotation is part-way through
+}
+
+export type DashboardSection = 'overview' | 'providers' | 'activity';
+
+// Per-token restriction on top of permissions; a user without one is unrestricted
+export interface TokenScope {
+  providers: string[] | null; // Provider ids from PROVIDERS; null = every provider
+  readOnly: boolean; // Blocks revealing, adding, editing and deleting provider keys, and every Admin panel change
+  sections: DashboardSection[] | null; // null = every dashboard section
+}
+
 export interface UserData {
+  schemaVersion?: number; // Set on save; records without one predate versioning
+  revision?: number; // Bumped by every save; a save must carry the revision it was based on
   uuid: string;
   tokenHash: string; // Argon2id hash
+  tokenId?: string; // Public lookup id from the token; absent until a legacy token is first used
   apiKeys: ApiKey[];
   createdAt: string;
   lastAccess: string;
-  role: 'user' | 'manager' | 'admin';
+  role: string; // RoleDefinition id
   permissions: string[];
+  status: TokenStatus;
+  expiresAt: string | null; // null = never expires
+  revokedAt?: string;
+  revokedReason?: string;
+  retiringTokens?: RetiringToken[];
+  totp?: TotpEnrollment;
+  scope?: TokenScope;
+  vault?: VaultConfig;
+}
+
+export type BuiltInRole = 'user' | 'manager' | 'admin';
+
+// Named permission bundle; assigning a role copies its permissions onto the user
+export interface RoleDefinition {
+  id: string; // Slug, e.g. 'billing-viewer'
+  name: string;
+  description: string;
+  permissions: string[];
+  builtIn: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface Provider {
@@ -43,23 +113,150 @@ export interface RateLimitState {
   attempts: number;
   lastAttempt: number;
   lockedUntil: number | null;
+  lockouts?: number; // Lockout level, grows on repeated lockouts and decays over time
+  lastLockoutAt?: number | null;
+}
+
+// Persisted audit record; hash covers every other field, prevHash links it to the entry before
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  event: string;
+  details: Record<string, unknown>;
+  prevHash: string;
+  hash: string;
+}
+
+// Written once by the first-run setup wizard
+export interface SetupRecord {
+  completedAt: string;
+  adminUuid: string;
+}
+
+// Admin request that every vault re-encrypts its API keys; vaults rotated before it are due
+export interface KeyRotationRequest {
+  requestedAt: string;
+  requestedBy: string;
+}
+
+// Dashboard filter preset, kept in this browser's localStorage
+export interface SavedFilter {
+  id: string;
+  name: string;
+  providerFilter: string;
+  statusFilter: string;
+}
+
+// Everything a backup archive carries; sessions, rate limits, break-glass codes and quarantined records
+// stay behind, so a restore can never bring back a spent code
+export interface BackupDataset {
+  users: UserData[];
+  roles: RoleDefinition[]; // Stored roles only; built-ins are filled in on load
+  setup: SetupRecord | null;
+  keyRotation: KeyRotationRequest | null;
+  auditLog: AuditEntry[];
+  savedFilters: SavedFilter[];
 }
 
+export type BackupCategory = keyof BackupDataset;
+
+// Readable part of a backup archive; also the associated data of its encrypted payload
+export interface BackupManifest {
+  format: 'api-token-monitor-backup';
+  version: number;
+  createdAt: string;
+  createdBy: string | null;
+  userSchemaVersion: number; // USER_SCHEMA_VERSION of the exporting build
+  counts: Record<BackupCategory, number>;
+  sha256: string; // Of the dataset JSON before encryption
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  payload: string; // encryptApiKey() envelope of the dataset JSON
+}
+
+// One break-glass code: the public id locates it, the Argon2id hash verifies it like a token
+export interface BreakGlassCode {
+  id: string;
+  hash: string;
+}
+
+// Install-wide set of admin recovery codes; redeemed codes are removed, so codes.length is what remains
+export interface BreakGlassRecord {
+  generatedAt: string;
+  generatedBy: string;
+  total: number;
+  codes: BreakGlassCode[];
+}
+
+// Stored value that failed migration or validation, moved aside instead of being loaded
+export interface QuarantinedRecord {
+  key: string; // Storage key the value was read from
+  value: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+// Short-lived grant behind a session opened with a break-glass code
+export interface BreakGlassGrant {
+  codeId: string; // Public id of the redeemed code
+  expiresAt: number; // Ends the session sooner than the normal lifetime
+  mintedAt?: number; // Set once the replacement admin token is issued; a grant mints only one
+}
+
+export interface Session {
+  id: string; // Opaque random id, also held by the browser
+  userUuid: string;
+  createdAt: number;
+  lastSeen: number;
+  breakGlass?: BreakGlassGrant;
+}
+
+// 'second_factor' means the token was accepted and a TOTP or recovery code is still needed
+export type LoginOutcome = 'success' | 'second_factor' | 'failed';
+
 export interface AuthContextType {
   isAuthenticated: boolean;
+  isLoading: boolean;
   user: UserData | null;
   token: string | null;
-  login: (token: string) => Promise<boolean>;
+  login: (token: string) => Promise<LoginOutcome>;
+  secondFactorPending: boolean;
+  verifySecondFactor: (code: string) => Promise<boolean>;
+  cancelSecondFactor: () => void;
   logout: () => void;
+  refreshUser: () => Promise<void>; // Reload the signed-in user, e.g. after saving their record
+  redeemBreakGlassCode: (code: string) => Promise<boolean>;
+  isBreakGlass: boolean; // Signed in with a break-glass code; only a replacement admin token can be minted
   isAdmin: boolean;
+  sessionNotice: string | null;
 }
 
+// Legacy encryptApiKey() output, JSON with number arrays; still decoded, no longer written
 export interface EncryptedData {
   salt: number[];
   iv: number[];
   data: number[];
 }
 
+// Legacy vault envelope, written before the versioned format; still decoded, no longer written
+export interface KeyEnvelope {
+  wrapIv: number[];
+  wrappedKey: number[];
+  iv: number[];
+  data: number[];
+}
+
+// Header of a versioned "atm.<header>.<ciphertext>" envelope; binary fields are base64url
+export interface EnvelopeHeader {
+  v: number; // 0 only for legacy formats decoded in memory
+  alg: 'AES-256-GCM';
+  iv: string;
+  kdf?: { name: 'PBKDF2-SHA256'; iterations: number; salt: string }; // Password-encrypted
+  wrap?: { alg: 'AES-256-GCM'; iv: string; key: string }; // Data key wrapped by a vault key
+}
+
 export const PROVIDERS: Provider[] = [
   { id: 'openai', name: 'OpenAI', icon: 'openai', color: 'green', models: ['GPT-4', 'GPT-3.5', 'DALL-E', 'Whisper'] },
   { id: 'anthropic', name: 'Anthropic', icon: 'anthropic', color: 'purple', models: ['Claude 3 Opus', 'Claude 3 Sonnet', 'Claude 3 Haiku'] },
@@ -3,6 +3,15 @@
 interface ImportMetaEnv {
   readonly VITE_ADMIN_TOKEN_HASH: string;
   readonly VITE_APP_TITLE: string;
+  readonly VITE_AUTH_BYPASS?: string;
+  readonly VITE_SESSION_IDLE_MINUTES?: string;
+  readonly VITE_SESSION_MAX_HOURS?: string;
+  readonly VITE_SESSION_PERSISTENCE?: 'session' | 'local';
+  readonly VITE_TOKEN_ROTATION_GRACE_HOURS?: string;
+  readonly VITE_ARGON2_MEMORY_KIB?: string;
+  readonly VITE_ARGON2_ITERATIONS?: string;
+  readonly VITE_ARGON2_PARALLELISM?: string;
+  readonly VITE_STORAGE_BACKEND?: 'localStorage' | 'indexedDB' | 'memory';
   // Add other env variables here as needed
 }
 
@@ -0,0 +1,321 @@
+// Persistent audit trail: each entry carries the SHA-256 of the entry before it
+import type { AuditEntry } from '../types';
+import { generateUUID, sha256Hex } from './crypto';
+import { getClientFingerprint } from './fingerprint';
+import { appendAuditEntry, loadAuditEntries, type AuditTail } from './storage';
+
+// prevHash of the first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+// Covers every field except the hash itself, in a fixed order
+export async function computeAuditHash(entry: Omit<AuditEntry, 'hash'>): Promise<string> {
+  return sha256Hex(JSON.stringify([entry.seq, entry.timestamp, entry.event, entry.details, entry.prevHash]));
+}
+
+// Typed audit events: the record shape every logAuditEvent() call must satisfy
+export type AuditOutcome = 'success' | 'failure' | 'denied' | 'pending';
+
+export interface AuditClientInfo {
+  fingerprint: string; // getClientFingerprint(), 'server' outside a browser
+  userAgent: string | null;
+}
+
+type NoFields = Record<never, never>;
+
+// Event-specific fields; keep them to ids, counts and short strings, never whole objects
+interface AuditEventFields {
+  LOGIN_SUCCESS: { role: string };
+  LOGIN_FAILED: { reason: string };
+  LOGIN_REJECTED_REVOKED: { revokedAt: string | null };
+  LOGIN_REJECTED_EXPIRED: { expiresAt: string | null };
+  LOGIN_SECOND_FACTOR_REQUIRED: NoFields;
+  ADMIN_VERIFY_FAILED: { reason: string };
+  RATE_LIMIT_EXCEEDED: { tier: string; attempts: number; lockouts: number; lockoutSeconds: number };
+  TOKEN_GENERATED: { role: string; permissions: string[]; scope: string | null };
+  TOKEN_INDEXED: NoFields;
+  TOKEN_GRACE_LOGIN: { retiresAt: string };
+  TOKEN_HASH_UPGRADED: { from: string };
+  TOKEN_REVOKED: { reason: string | null };
+  TOKEN_ROTATED: { gracePeriodMs: number; retiresAt: string | null };
+  TOKEN_RETIRED: { rotatedAt: string };
+  ROLE_CREATED: { permissions: string[] };
+  ROLE_UPDATED: { permissions: string[]; holdersUpdated: number };
+  ROLE_DELETED: NoFields;
+  USER_ACCESS_CHANGED: { role: string; permissions: string[] };
+  SESSION_STARTED: NoFields;
+  SESSION_EXPIRED: { reason: string };
+  SESSION_ENDED: NoFields;
+  TOTP_ENABLED: NoFields;
+  TOTP_DISABLED: NoFields;
+  TOTP_SECRET_RESEALED: NoFields;
+  SECOND_FACTOR_VERIFIED: { method: string };
+  SECOND_FACTOR_FAILED: NoFields;
+  RECOVERY_CODE_USED: { remaining: number };
+  VAULT_SECRET_CHANGED: { source: string };
+  VAULT_KEYS_ROTATED: { keys: number; failed: number; resumed: boolean };
+  VAULT_UPGRADED: { iterations: number; keys: number };
+  KEY_ROTATION_REQUESTED: { vaults: number };
+  SETUP_COMPLETED: NoFields;
+  AUDIT_EXPORTED: { format: 'csv' | 'jsonl'; entries: number };
+  BREAK_GLASS_CODES_GENERATED: { count: number };
+  BREAK_GLASS_CODE_REDEEMED: { remaining: number; expiresAt: string };
+  BREAK_GLASS_CODE_REJECTED: { reason: string };
+  BREAK_GLASS_TOKEN_MINTED: { role: string };
+  BACKUP_EXPORTED: { users: number; auditEntries: number };
+  BACKUP_RESTORED: { mode: 'merge' | 'replace'; backupCreatedAt: string; added: number; updated: number; removed: number };
+  AUDIT_CHAIN_BROKEN: { brokenAt: number };
+}
+
+export type AuditEventType = keyof AuditEventFields;
+
+interface AuditEventBase {
+  actor: string | null; // uuid that performed the action; null for anonymous or system actions
+  target: string | null; // uuid, role id or rate-limit identifier acted upon
+  outcome: AuditOutcome;
+  correlationId?: string; // Shared by events from one operation; generated when omitted
+}
+
+export type AuditEvent = {
+  [K in AuditEventType]: { type: K } & AuditEventBase & AuditEventFields[K];
+}[AuditEventType];
+
+export function createCorrelationId(): string {
+  return generateUUID();
+}
+
+function getClientInfo(): AuditClientInfo {
+  return {
+    fingerprint: getClientFingerprint(),
+    userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent
+  };
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Field names whose values are secrets whatever they look like; tokenId is the public lookup id
+const SENSITIVE_KEY = /(secret|password|passphrase|api_?key|token(?!id)|recovery_?codes?|^code$|^key$|hash$)/i;
+
+// Secret-shaped strings: app tokens, provider keys, stored hashes and long hex or base64 runs
+const SENSITIVE_VALUE = [
+  /atm_v2_[A-Za-z0-9_]+/g,
+  /\b(sk|xai)-[A-Za-z0-9_-]{8,}/g,
+  /\$(argon2id|pbkdf2)\$\S+/g,
+  /\b[0-9a-f]{32,}\b/gi,
+  /\b[A-Za-z0-9+/]{40,}={0,2}/g
+];
+
+// Applied to every event before it is logged or stored, so a misplaced secret is masked rather than written
+export function redactAuditValue(value: unknown, key = ''): unknown {
+  if (key && SENSITIVE_KEY.test(key) && value !== null && value !== undefined) {
+    return REDACTED;
+  }
+  if (typeof value === 'string') {
+    return SENSITIVE_VALUE.reduce((text, pattern) => text.replace(pattern, REDACTED), value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactAuditValue(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, fieldValue]) => [field, redactAuditValue(fieldValue, field)])
+    );
+  }
+  return value;
+}
+
+// Last entry that could not be stored, and how many have failed since the user last dismissed it
+export interface AuditWriteFailure {
+  count: number;
+  event: string;
+  error: string;
+  at: string;
+}
+
+let writeFailure: AuditWriteFailure | null = null;
+const writeFailureListeners = new Set<(failure: AuditWriteFailure | null) => void>();
+
+export function getAuditWriteFailure(): AuditWriteFailure | null {
+  return writeFailure;
+}
+
+export function subscribeToAuditWriteFailures(listener: (failure: AuditWriteFailure | null) => void): () => void {
+  writeFailureListeners.add(listener);
+  return () => { writeFailureListeners.delete(listener); };
+}
+
+function setAuditWriteFailure(failure: AuditWriteFailure | null): void {
+  writeFailure = failure;
+  writeFailureListeners.forEach(listener => listener(failure));
+}
+
+// Once the user has seen it; the next failure reports again
+export function dismissAuditWriteFailure(): void {
+  setAuditWriteFailure(null);
+}
+
+interface PreparedAuditEvent {
+  type: AuditEventType;
+  details: Record<string, unknown>;
+}
+
+// Round-trip so the hashed details match what is read back from storage
+function prepareAuditEvent(event: AuditEvent): PreparedAuditEvent {
+  const { type, correlationId, ...fields } = event;
+  const details = JSON.parse(JSON.stringify(redactAuditValue({
+    ...fields,
+    client: getClientInfo(),
+    correlationId: correlationId ?? createCorrelationId()
+  }))) as Record<string, unknown>;
+  return { type, details };
+}
+
+async function buildAuditEntry(tail: AuditTail, timestamp: string, { type, details }: PreparedAuditEvent): Promise<AuditEntry> {
+  const entry = {
+    seq: tail.seq,
+    timestamp,
+    event: type,
+    details,
+    prevHash: tail.previous?.hash ?? AUDIT_GENESIS_HASH
+  };
+  return { ...entry, hash: await computeAuditHash(entry) };
+}
+
+// A missing or invalid last entry is never chained over: a marker naming it goes in first and
+// restarts the chain, so the gap stays visible to verifyAuditChain() and in the log itself
+async function writeAuditEntry(timestamp: string, event: PreparedAuditEvent): Promise<void> {
+  for (;;) {
+    const written = await appendAuditEntry(tail => buildAuditEntry(tail, timestamp, tail.damaged
+      ? prepareAuditEvent({ type: 'AUDIT_CHAIN_BROKEN', actor: null, target: null, outcome: 'failure', brokenAt: tail.seq - 1 })
+      : event));
+    if (written.event !== 'AUDIT_CHAIN_BROKEN' || event.type === 'AUDIT_CHAIN_BROKEN') {
+      return;
+    }
+    console.warn(`[audit] Entry ${written.details.brokenAt} is damaged; the chain restarts at ${written.seq}`);
+  }
+}
+
+// One queue so entries are chained in the order they were logged
+let pendingWrites: Promise<void> = Promise.resolve();
+
+// Stays synchronous for callers; the write is queued and flushAuditLog() waits for it. A write that
+// fails is reported through getAuditWriteFailure() so the app can tell the user, not just the console.
+export function logAuditEvent(event: AuditEvent): void {
+  const timestamp = new Date().toISOString();
+  const prepared = prepareAuditEvent(event);
+  console.log(`[${timestamp}] ${prepared.type}: ${JSON.stringify(prepared.details)}`); // Also log to console
+
+  pendingWrites = pendingWrites
+    .then(() => writeAuditEntry(timestamp, prepared))
+    .catch(error => {
+      console.error('Failed to persist audit entry:', error);
+      setAuditWriteFailure({
+        count: (writeFailure?.count ?? 0) + 1,
+        event: event.type,
+        error: error instanceof Error ? error.message : String(error),
+        at: timestamp
+      });
+    });
+}
+
+export async function flushAuditLog(): Promise<void> {
+  await pendingWrites;
+}
+
+export async function getAuditLogs(): Promise<AuditEntry[]> {
+  await flushAuditLog();
+  return loadAuditEntries();
+}
+
+export type AuditChainBreak = 'sequence' | 'link' | 'hash';
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number; // Entries verified before the first break, or all of them
+  brokenAt: number | null; // Index of the first entry that fails
+  reason: AuditChainBreak | null;
+}
+
+// Walk the chain from the start and report the first entry that was edited, inserted or removed
+export async function verifyAuditChain(): Promise<AuditChainReport> {
+  const entries = await getAuditLogs();
+  let prevHash = AUDIT_GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const reason: AuditChainBreak | null =
+      entry.seq !== i ? 'sequence'
+        : entry.prevHash !== prevHash ? 'link'
+          : entry.hash !== await computeAuditHash(entry) ? 'hash'
+            : null;
+
+    if (reason) {
+      return { valid: false, checked: i, brokenAt: i, reason };
+    }
+    prevHash = entry.hash;
+  }
+
+  return { valid: true, checked: entries.length, brokenAt: null, reason: null };
+}
+
+// Entries written before typed events carried only a uuid, which named the user concerned
+export function getAuditActor(entry: AuditEntry): string | null {
+  const actor = 'actor' in entry.details ? entry.details.actor : entry.details.uuid;
+  return typeof actor === 'string' ? actor : null;
+}
+
+export function getAuditTarget(entry: AuditEntry): string | null {
+  const target = 'target' in entry.details ? entry.details.target : entry.details.uuid;
+  return typeof target === 'string' ? target : null;
+}
+
+export function getAuditOutcome(entry: AuditEntry): AuditOutcome | null {
+  const { outcome } = entry.details;
+  return typeof outcome === 'string' ? outcome as AuditOutcome : null;
+}
+
+export interface AuditFilter {
+  event?: string; // Exact event name; empty for all
+  actor?: string; // Case-insensitive substring of the actor
+  from?: number | null; // Epoch ms, inclusive
+  to?: number | null; // Epoch ms, inclusive
+}
+
+export function filterAuditEntries(entries: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const actorQuery = filter.actor?.trim().toLowerCase();
+  return entries.filter(entry => {
+    const time = Date.parse(entry.timestamp);
+    if (filter.event && entry.event !== filter.event) return false;
+    if (actorQuery && !getAuditActor(entry)?.toLowerCase().includes(actorQuery)) return false;
+    if (filter.from != null && time < filter.from) return false;
+    if (filter.to != null && time > filter.to) return false;
+    return true;
+  });
+}
+
+// Quote per RFC 4180 and defuse spreadsheet formulas
+function toCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toAuditCsv(entries: AuditEntry[]): string {
+  const header = ['seq', 'timestamp', 'event', 'actor', 'target', 'outcome', 'correlationId', 'details', 'prevHash', 'hash'];
+  const rows = entries.map(entry => [
+    String(entry.seq),
+    entry.timestamp,
+    entry.event,
+    getAuditActor(entry) ?? '',
+    getAuditTarget(entry) ?? '',
+    getAuditOutcome(entry) ?? '',
+    typeof entry.details.correlationId === 'string' ? entry.details.correlationId : '',
+    JSON.stringify(entry.details),
+    entry.prevHash,
+    entry.hash
+  ]);
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// One full entry per line, hashes included so an export can be re-verified offline
+export function toAuditJsonLines(entries: AuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length ? '\n' : '');
+}
@@ -1,6 +1,11 @@
 // Authentication utilities with rate limiting and validation
 import { z } from 'zod';
-import type { RateLimitState } from '../types';
+import type { RateLimitState, RetiringToken, TokenState, UserData } from '../types';
+import { findUserByToken, loadUserData, updateUserRecord } from './storage';
+import { createDefaultRateLimitStore, type RateLimitStore } from './rateLimitStore';
+import { hashToken, verifyToken, needsRehash, getHashAlgorithm } from './crypto';
+import { createCorrelationId, logAuditEvent } from './audit';
+import { canAdminister } from './scopes';
 
 // Zod schemas for validation
 export const tokenSchema = z.string().min(8).max(128).regex(/^[a-zA-Z0-9_-]+$/);
@@ -20,12 +25,64 @@ export const userSettingsSchema = z.object({
 });
 
 // Rate limiting configuration
-const RATE_LIMIT_ATTEMPTS = 5;
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
-const LOCKOUT_DURATION = 60 * 60 * 1000; // 1 hour
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
 
-// In-memory rate limiting storage
-const rateLimitStore = new Map<string, RateLimitState>();
+export type RateLimitTierName = 'token' | 'client' | 'global';
+
+export interface RateLimitTier {
+  maxAttempts: number;
+  window: number; // ms of inactivity after which attempts start over
+}
+
+export interface RateLimitPolicy {
+  tiers: Record<RateLimitTierName, RateLimitTier>;
+  lockout: {
+    base: number; // ms for the first lockout
+    multiplier: number; // growth per repeated lockout
+    max: number; // ms cap on a single lockout
+    decayAfter: number; // ms without a lockout that forgives one level
+  };
+}
+
+export const DEFAULT_RATE_LIMIT_POLICY: RateLimitPolicy = {
+  tiers: {
+    token: { maxAttempts: 5, window: 15 * MINUTE },
+    client: { maxAttempts: 10, window: 15 * MINUTE },
+    global: { maxAttempts: 100, window: 15 * MINUTE }
+  },
+  lockout: {
+    base: 15 * MINUTE,
+    multiplier: 2,
+    max: 24 * HOUR,
+    decayAfter: 6 * HOUR
+  }
+};
+
+let rateLimitPolicy: RateLimitPolicy = DEFAULT_RATE_LIMIT_POLICY;
+
+export function getRateLimitPolicy(): RateLimitPolicy {
+  return rateLimitPolicy;
+}
+
+export function setRateLimitPolicy(policy: RateLimitPolicy): void {
+  rateLimitPolicy = policy;
+}
+
+// Rate limiting storage, created on first use (persisted when localStorage exists)
+let rateLimitStore: RateLimitStore | null = null;
+
+function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createDefaultRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+// Swap the backing store, e.g. an in-memory store in tests or a file store on a server
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
 
 // Sanitize input to prevent XSS
 export function sanitizeInput(input: string): string {
@@ -38,27 +95,32 @@ export function sanitizeInput(input: string): string {
     .replace(/\//g, '&#x2F;');
 }
 
-// Audit logging
-const auditLogs: string[] = [];
-
-export function logAuditEvent(event: string, details: Record<string, unknown>): void {
-  const timestamp = new Date().toISOString();
-  const logEntry = `[${timestamp}] ${event}: ${JSON.stringify(details)}`;
-  auditLogs.push(logEntry);
-  console.log(logEntry); // Also log to console
+// Lockout levels left after decay: each quiet decayAfter period forgives one
+function getLockoutLevel(state: RateLimitState, now: number, policy: RateLimitPolicy): number {
+  const lockouts = state.lockouts ?? 0;
+  if (!lockouts || !state.lastLockoutAt) return 0;
+  const forgiven = Math.floor((now - state.lastLockoutAt) / policy.lockout.decayAfter);
+  return Math.max(0, lockouts - forgiven);
 }
 
-export function getAuditLogs(): string[] {
-  return [...auditLogs];
+export function getLockoutDuration(level: number, policy: RateLimitPolicy = rateLimitPolicy): number {
+  const { base, multiplier, max } = policy.lockout;
+  return Math.min(base * Math.pow(multiplier, level), max);
 }
 
 // Rate limiting
-export function checkRateLimit(identifier: string): { allowed: boolean; retryAfter: number } {
+export function checkRateLimit(
+  identifier: string,
+  tier: RateLimitTier = rateLimitPolicy.tiers.client,
+  tierName: RateLimitTierName = 'client'
+): { allowed: boolean; retryAfter: number } {
   const now = Date.now();
-  const state = rateLimitStore.get(identifier);
+  const policy = rateLimitPolicy;
+  const store = getRateLimitStore();
+  const state = store.get(identifier);
 
   if (!state) {
-    rateLimitStore.set(identifier, {
+    store.set(identifier, {
       attempts: 1,
       lastAttempt: now,
       lockedUntil: null
@@ -71,42 +133,119 @@ export function checkRateLimit(identifier: string): { allowed: boolean; retryAft
     return { allowed: false, retryAfter: Math.ceil((state.lockedUntil - now) / 1000) };
   }
 
-  // Reset if window has passed
-  if (now - state.lastAttempt > RATE_LIMIT_WINDOW) {
-    rateLimitStore.set(identifier, {
+  // Reset if window has passed, remembering earlier lockouts so they can escalate
+  if (now - state.lastAttempt > tier.window) {
+    store.set(identifier, {
       attempts: 1,
       lastAttempt: now,
-      lockedUntil: null
+      lockedUntil: null,
+      lockouts: state.lockouts ?? 0, // Decay is applied when read, relative to lastLockoutAt
+      lastLockoutAt: state.lastLockoutAt ?? null
     });
     return { allowed: true, retryAfter: 0 };
   }
 
   // Check if too many attempts
-  if (state.attempts >= RATE_LIMIT_ATTEMPTS) {
-    const lockedUntil = now + LOCKOUT_DURATION;
-    state.lockedUntil = lockedUntil;
+  if (state.attempts >= tier.maxAttempts) {
+    const level = getLockoutLevel(state, now, policy);
+    const duration = getLockoutDuration(level, policy);
+    state.lockedUntil = now + duration;
     state.lastAttempt = now;
-    rateLimitStore.set(identifier, state);
+    state.lockouts = level + 1;
+    state.lastLockoutAt = now;
+    store.set(identifier, state);
     
-    logAuditEvent('RATE_LIMIT_EXCEEDED', { identifier, attempts: state.attempts });
-    return { allowed: false, retryAfter: Math.ceil(LOCKOUT_DURATION / 1000) };
+    logAuditEvent({
+      type: 'RATE_LIMIT_EXCEEDED',
+      actor: null,
+      target: identifier,
+      outcome: 'denied',
+      tier: tierName,
+      attempts: state.attempts,
+      lockouts: state.lockouts,
+      lockoutSeconds: Math.ceil(duration / 1000)
+    });
+    return { allowed: false, retryAfter: Math.ceil(duration / 1000) };
   }
 
   // Increment attempts
   state.attempts += 1;
   state.lastAttempt = now;
-  rateLimitStore.set(identifier, state);
+  store.set(identifier, state);
 
   return { allowed: true, retryAfter: 0 };
 }
 
+export interface LoginRateLimitKeys {
+  tokenKey: string; // Hash of the submitted token prefix
+  clientId: string; // Client fingerprint
+}
+
+export interface LoginRateLimitResult {
+  allowed: boolean;
+  retryAfter: number;
+  tier?: RateLimitTierName; // Tier that blocked the attempt
+}
+
+export function getLoginRateLimitIdentifiers(keys: LoginRateLimitKeys): Record<RateLimitTierName, string> {
+  return {
+    token: `token:${keys.tokenKey}`,
+    client: `client:${keys.clientId}`,
+    global: 'global'
+  };
+}
+
+// Seconds left on an active lockout, 0 when the identifier is not locked
+export function getLockoutRemaining(identifier: string, now: number = Date.now()): number {
+  const state = getRateLimitStore().get(identifier);
+  return state?.lockedUntil && now < state.lockedUntil ? Math.ceil((state.lockedUntil - now) / 1000) : 0;
+}
+
+// Layered login limit: one attempt counts against the token, the client and the global ceiling
+export function checkLoginRateLimit(keys: LoginRateLimitKeys): LoginRateLimitResult {
+  const identifiers = getLoginRateLimitIdentifiers(keys);
+  const tierNames: RateLimitTierName[] = ['global', 'client', 'token'];
+
+  // Refuse without counting while any tier is locked, so waiting it out is never penalised
+  const locked = tierNames
+    .map(tier => ({ tier, retryAfter: getLockoutRemaining(identifiers[tier]) }))
+    .filter(entry => entry.retryAfter > 0)
+    .sort((a, b) => b.retryAfter - a.retryAfter);
+  if (locked.length > 0) {
+    return { allowed: false, ...locked[0] };
+  }
+
+  let result: LoginRateLimitResult = { allowed: true, retryAfter: 0 };
+  for (const tier of tierNames) {
+    const check = checkRateLimit(identifiers[tier], rateLimitPolicy.tiers[tier], tier);
+    if (!check.allowed && check.retryAfter > result.retryAfter) {
+      result = { allowed: false, retryAfter: check.retryAfter, tier };
+    }
+  }
+  return result;
+}
+
 export function resetRateLimit(identifier: string): void {
-  rateLimitStore.delete(identifier);
+  getRateLimitStore().delete(identifier);
+}
+
+// A successful login clears the token tier and hands back the attempt it cost the client and global
+// tiers, so only failures build up towards a lockout; earlier lockouts still count for escalation
+export function recordLoginSuccess(keys: LoginRateLimitKeys): void {
+  const store = getRateLimitStore();
+  const identifiers = getLoginRateLimitIdentifiers(keys);
+  store.delete(identifiers.token);
+
+  for (const tier of ['client', 'global'] as const) {
+    const state = store.get(identifiers[tier]);
+    if (!state || (state.lockedUntil && Date.now() < state.lockedUntil)) continue;
+    store.set(identifiers[tier], { ...state, attempts: Math.max(0, state.attempts - 1) });
+  }
 }
 
 // Get rate limit status
 export function getRateLimitStatus(identifier: string): RateLimitState | null {
-  return rateLimitStore.get(identifier) || null;
+  return getRateLimitStore().get(identifier);
 }
 
 // Token validation
@@ -118,37 +257,230 @@ export function validateTokenFormat(token: string): { valid: boolean; error?: st
   return { valid: true };
 }
 
-// Admin token verification
-export async function verifyAdminToken(token: string): Promise<boolean> {
+let warnedInvalidAdminHash = false;
+
+// Optional pre-hashed admin credential; a value that is not a recognised hash is ignored
+export function getEnvAdminHash(): string | null {
   const adminHash = import.meta.env.VITE_ADMIN_TOKEN_HASH;
   if (!adminHash) {
-    logAuditEvent('ADMIN_VERIFY_FAILED', { reason: 'No admin hash configured' });
+    return null;
+  }
+  if (getHashAlgorithm(adminHash) === 'unknown') {
+    if (!warnedInvalidAdminHash) {
+      warnedInvalidAdminHash = true;
+      console.warn('[auth] VITE_ADMIN_TOKEN_HASH is not an Argon2id or PBKDF2 hash and is ignored');
+    }
+    return null;
+  }
+  return adminHash;
+}
+
+// Admin token verification, against the env hash like any stored hash
+export async function verifyAdminToken(token: string): Promise<boolean> {
+  const adminHash = getEnvAdminHash();
+  if (!adminHash) {
+    logAuditEvent({
+      type: 'ADMIN_VERIFY_FAILED',
+      actor: null,
+      target: ENV_ADMIN_UUID,
+      outcome: 'failure',
+      reason: 'No admin hash configured'
+    });
     return false;
   }
-  
-  // Use constant-time comparison to prevent timing attacks
-  return constantTimeEqual(token, adminHash);
-}
-
-// Constant-time comparison to prevent timing attacks
-function constantTimeEqual(a: string, b: string): boolean {
-  const encoder = new TextEncoder();
-  const aBytes = encoder.encode(a);
-  const bBytes = encoder.encode(b);
-  
-  if (aBytes.length !== bBytes.length) {
-    // Still do comparison to avoid leaking length info
-    const dummy = new Uint8Array(bBytes.length);
-    let result = 0;
-    for (let i = 0; i < bBytes.length; i++) {
-      result |= dummy[i] ^ bBytes[i];
+
+  return verifyToken(token, adminHash);
+}
+
+// Built-in identity for the VITE_ADMIN_TOKEN_HASH credential (never persisted)
+export const ENV_ADMIN_UUID = '00000000-0000-4000-8000-000000000000';
+
+export function getEnvAdminUser(): UserData {
+  const now = new Date().toISOString();
+  return {
+    uuid: ENV_ADMIN_UUID,
+    tokenHash: '',
+    apiKeys: [],
+    createdAt: now,
+    lastAccess: now,
+    role: 'admin',
+    permissions: ['read:dashboard', 'modify:settings', 'manage:providers', 'admin:access'],
+    status: 'active',
+    expiresAt: null
+  };
+}
+
+// Identity of a break-glass session (never persisted); it holds no permissions, so every page stays
+// closed and the only thing it can do is mint a replacement admin token
+export const BREAK_GLASS_UUID = '00000000-0000-4000-8000-000000000001';
+
+export function getBreakGlassUser(): UserData {
+  const now = new Date().toISOString();
+  return {
+    uuid: BREAK_GLASS_UUID,
+    tokenHash: '',
+    apiKeys: [],
+    createdAt: now,
+    lastAccess: now,
+    role: 'break-glass',
+    permissions: [],
+    status: 'active',
+    expiresAt: null
+  };
+}
+
+// Revocation wins over expiry so the audit trail records the deliberate action
+export function getTokenState(user: UserData, now: number = Date.now()): TokenState {
+  if (user.status === 'revoked') {
+    return 'revoked';
+  }
+  if (user.expiresAt && new Date(user.expiresAt).getTime() <= now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+// Split off retiring hashes whose grace window has closed; returns the retired entries
+export function pruneRetiringTokens(user: UserData, now: number = Date.now()): RetiringToken[] {
+  const retiring = user.retiringTokens ?? [];
+  const retired = retiring.filter(entry => new Date(entry.retiresAt).getTime() <= now);
+  if (retired.length > 0) {
+    user.retiringTokens = retiring.filter(entry => !retired.includes(entry));
+  }
+  return retired;
+}
+
+// Reload the user behind a resumed session
+export async function loadSessionUser(uuid: string): Promise<UserData | null> {
+  if (uuid === ENV_ADMIN_UUID) {
+    return getEnvAdminHash() ? getEnvAdminUser() : null;
+  }
+  if (uuid === BREAK_GLASS_UUID) {
+    return getBreakGlassUser();
+  }
+
+  const user = await loadUserData(uuid);
+  if (!user || getTokenState(user) !== 'active') {
+    return null;
+  }
+  return user;
+}
+
+// The Admin panel hides its actions from read-only tokens; utils that act for an admin check again here
+export async function requireAdministrator(actorUuid: string, action: string): Promise<UserData> {
+  const actor = await loadSessionUser(actorUuid);
+  if (!actor || !canAdminister(actor)) {
+    throw new Error(`Only admins with a writable token can ${action}`);
+  }
+  return actor;
+}
+
+export interface AuthResult {
+  success: boolean;
+  user?: UserData;
+  error?: string;
+  secondFactorRequired?: boolean; // Token accepted; a TOTP or recovery code must follow
+}
+
+// Resolve a submitted token to the stored user it belongs to
+export async function authenticateToken(token: string): Promise<AuthResult> {
+  const correlationId = createCorrelationId();
+  const format = validateTokenFormat(token);
+  if (!format.valid) {
+    logAuditEvent({ type: 'LOGIN_FAILED', actor: null, target: null, outcome: 'failure', correlationId, reason: 'invalid_format' });
+    return { success: false, error: format.error };
+  }
+
+  if (getEnvAdminHash() && await verifyAdminToken(token)) {
+    logAuditEvent({
+      type: 'LOGIN_SUCCESS',
+      actor: ENV_ADMIN_UUID,
+      target: ENV_ADMIN_UUID,
+      outcome: 'success',
+      correlationId,
+      role: 'admin'
+    });
+    return { success: true, user: getEnvAdminUser() };
+  }
+
+  const match = await findUserByToken(token);
+  if (!match) {
+    logAuditEvent({ type: 'LOGIN_FAILED', actor: null, target: null, outcome: 'failure', correlationId, reason: 'unknown_token' });
+    return { success: false, error: 'Invalid access token' };
+  }
+  const { user } = match;
+  const subject = { actor: user.uuid, target: user.uuid, correlationId };
+
+  const state = getTokenState(user);
+  if (state === 'revoked') {
+    logAuditEvent({ type: 'LOGIN_REJECTED_REVOKED', ...subject, outcome: 'denied', revokedAt: user.revokedAt ?? null });
+    return { success: false, error: 'This token has been revoked' };
+  }
+  if (state === 'expired') {
+    logAuditEvent({ type: 'LOGIN_REJECTED_EXPIRED', ...subject, outcome: 'denied', expiresAt: user.expiresAt });
+    return { success: false, error: 'This token has expired' };
+  }
+
+  // The plaintext is only available here, so legacy or outdated hashes are upgraded on login
+  const upgradedHash = !match.retiring && needsRehash(user.tokenHash) ? await hashToken(token) : null;
+
+  // Re-applied to the fresh record if another writer saved first; events are kept only for the attempt that is saved
+  let events: Array<() => void> = [];
+  let held = false;
+  const saved = await updateUserRecord(user.uuid, async current => {
+    events = [];
+    held = false;
+    const next: UserData = {
+      ...current,
+      lastAccess: new Date().toISOString(),
+      retiringTokens: current.retiringTokens?.map(entry => ({ ...entry }))
+    };
+    const retiring = match.retiring
+      ? next.retiringTokens?.find(entry => entry.tokenHash === match.retiring!.tokenHash && new Date(entry.retiresAt).getTime() > Date.now())
+      : undefined;
+    // Rotated or revoked since the lookup: the submitted token no longer belongs to this record.
+    // Another tab may have upgraded the hash meanwhile, so a changed hash is verified again
+    const stillHeld = match.retiring
+      ? Boolean(retiring)
+      : current.tokenHash === user.tokenHash || await verifyToken(token, current.tokenHash);
+    if (getTokenState(current) !== 'active' || !stillHeld) {
+      return null;
+    }
+
+    // Found by the legacy scan: record the lookup id so the next login is a single index read
+    if (!match.indexed) {
+      if (retiring) {
+        retiring.tokenId = match.lookupId;
+      } else {
+        next.tokenId = match.lookupId;
+      }
+      events.push(() => logAuditEvent({ type: 'TOKEN_INDEXED', ...subject, outcome: 'success' }));
     }
-    return result === 0 && false; // Always false for different lengths
+
+    if (retiring) {
+      events.push(() => logAuditEvent({ type: 'TOKEN_GRACE_LOGIN', ...subject, outcome: 'success', retiresAt: retiring.retiresAt }));
+    } else if (upgradedHash && needsRehash(next.tokenHash)) {
+      const from = getHashAlgorithm(next.tokenHash);
+      next.tokenHash = upgradedHash;
+      events.push(() => logAuditEvent({ type: 'TOKEN_HASH_UPGRADED', ...subject, outcome: 'success', from }));
+    }
+    for (const retired of pruneRetiringTokens(next)) {
+      events.push(() => logAuditEvent({ type: 'TOKEN_RETIRED', ...subject, actor: null, outcome: 'success', rotatedAt: retired.rotatedAt }));
+    }
+    held = true;
+    return next;
+  });
+
+  if (!saved || !held) {
+    logAuditEvent({ type: 'LOGIN_FAILED', actor: null, target: null, outcome: 'failure', correlationId, reason: 'unknown_token' });
+    return { success: false, error: 'Invalid access token' };
   }
-  
-  let result = 0;
-  for (let i = 0; i < aBytes.length; i++) {
-    result |= aBytes[i] ^ bBytes[i];
+  events.forEach(log => log());
+
+  if (saved.totp) {
+    logAuditEvent({ type: 'LOGIN_SECOND_FACTOR_REQUIRED', ...subject, outcome: 'pending' });
+    return { success: true, user: saved, secondFactorRequired: true };
   }
-  return result === 0;
+  logAuditEvent({ type: 'LOGIN_SUCCESS', ...subject, outcome: 'success', role: saved.role });
+  return { success: true, user: saved };
 }
@@ -0,0 +1,387 @@
+// Passphrase-encrypted backup of the whole dataset, restored by merge or replace after a dry run
+import type {
+  BackupArchive,
+  BackupCategory,
+  BackupDataset,
+  BackupManifest,
+  RoleDefinition,
+  UserData
+} from '../types';
+import { z } from 'zod';
+import { decryptApiKey, encryptApiKey, sha256Hex } from './crypto';
+import { logAuditEvent } from './audit';
+import { getTokenState } from './auth';
+import { migrateRecord, USER_SCHEMA_VERSION, type StoredRecord } from './migrations';
+import {
+  auditEntrySchema,
+  backupManifestSchema,
+  keyRotationRequestSchema,
+  roleDefinitionSchema,
+  savedFilterSchema,
+  setupRecordSchema,
+  userDataSchema,
+  validateRecord
+} from './schemas';
+import { loadSavedFilters, storeSavedFilters } from './savedFilters';
+import { can, PERMISSIONS } from './permissions';
+import { DatasetConflictError, readStoredDataset, replaceStoredDataset, type RestoredDataset } from './storage';
+import { MIN_VAULT_PASSPHRASE_LENGTH } from './vault';
+
+export const BACKUP_FORMAT = 'api-token-monitor-backup';
+export const BACKUP_VERSION = 1;
+
+export const BACKUP_CATEGORIES: BackupCategory[] = ['users', 'roles', 'setup', 'keyRotation', 'auditLog', 'savedFilters'];
+
+// Decrypted and validated archive, ready to plan a restore from
+export interface BackupContents {
+  manifest: BackupManifest;
+  dataset: BackupDataset;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Record ids per outcome; skipped means the current record was kept over a different one in the backup
+export interface RecordDiff {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  skipped: string[];
+  removed: string[];
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  manifest: BackupManifest;
+  diff: Record<BackupCategory, RecordDiff>;
+  warnings: string[];
+  signsOutActor: boolean; // Replace drops the acting admin's own record
+  result: BackupDataset; // What storage holds once the plan is applied
+}
+
+// Binds the manifest to the payload in a fixed order, so an edited manifest fails decryption
+function manifestAssociatedData(manifest: BackupManifest): string {
+  const { format, version, createdAt, createdBy, userSchemaVersion, counts, sha256 } = manifest;
+  return JSON.stringify([
+    format,
+    version,
+    createdAt,
+    createdBy,
+    userSchemaVersion,
+    BACKUP_CATEGORIES.map(category => counts[category]),
+    sha256
+  ]);
+}
+
+function countRecords(dataset: BackupDataset): Record<BackupCategory, number> {
+  return {
+    users: dataset.users.length,
+    roles: dataset.roles.length,
+    setup: dataset.setup ? 1 : 0,
+    keyRotation: dataset.keyRotation ? 1 : 0,
+    auditLog: dataset.auditLog.length,
+    savedFilters: dataset.savedFilters.length
+  };
+}
+
+async function readCurrentDataset(): Promise<BackupDataset> {
+  return { ...await readStoredDataset(), savedFilters: loadSavedFilters() };
+}
+
+// Returns the archive file contents; tokens stay hashed and API keys stay sealed inside the payload
+export async function exportBackup(passphrase: string, actorUuid: string | null): Promise<string> {
+  if (passphrase.length < MIN_VAULT_PASSPHRASE_LENGTH) {
+    throw new Error(`Backup passphrase must be at least ${MIN_VAULT_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const dataset = await readCurrentDataset();
+  const json = JSON.stringify(dataset);
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: actorUuid,
+    userSchemaVersion: USER_SCHEMA_VERSION,
+    counts: countRecords(dataset),
+    sha256: await sha256Hex(json)
+  };
+  const archive: BackupArchive = {
+    manifest,
+    payload: await encryptApiKey(json, passphrase, manifestAssociatedData(manifest))
+  };
+
+  logAuditEvent({
+    type: 'BACKUP_EXPORTED',
+    actor: actorUuid,
+    target: null,
+    outcome: 'success',
+    users: dataset.users.length,
+    auditEntries: dataset.auditLog.length
+  });
+  return JSON.stringify(archive, null, 2);
+}
+
+const archiveSchema = z.object({
+  manifest: z.unknown(),
+  payload: z.string().min(1)
+});
+
+function parseList<T>(name: string, schema: z.ZodType<T>, value: unknown): T[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Backup ${name} is not a list`);
+  }
+  return value.map((entry, index) => parseRecord(`${name}[${index}]`, schema, entry));
+}
+
+function parseRecord<T>(name: string, schema: z.ZodType<T>, value: unknown): T {
+  const result = validateRecord(schema, value);
+  if (!result.success) {
+    throw new Error(`Backup ${name} is invalid: ${result.reason}`);
+  }
+  return result.data;
+}
+
+const parseOptional = <T>(name: string, schema: z.ZodType<T>, value: unknown): T | null =>
+  (value === null || value === undefined ? null : parseRecord(name, schema, value));
+
+// Older user records are upgraded the same way storage upgrades them on load
+function parseUser(index: number, value: unknown): UserData {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Backup users[${index}] is not an object`);
+  }
+  let record: StoredRecord;
+  try {
+    record = migrateRecord(value as StoredRecord).record;
+  } catch (error) {
+    throw new Error(`Backup users[${index}] cannot be upgraded: ${(error as Error).message}`);
+  }
+  return parseRecord(`users[${index}]`, userDataSchema, record);
+}
+
+function assertUniqueIds(name: string, ids: string[]): void {
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Backup ${name} has a duplicate id: ${duplicate}`);
+  }
+}
+
+// Every check runs here, before a restore can write anything; any failure throws
+export async function readBackup(text: string, passphrase: string): Promise<BackupContents> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a backup file');
+  }
+  const archive = archiveSchema.safeParse(parsed);
+  if (!archive.success || (archive.data.manifest as Partial<BackupManifest> | null)?.format !== BACKUP_FORMAT) {
+    throw new Error('Not a backup file');
+  }
+
+  const manifestResult = validateRecord(backupManifestSchema, archive.data.manifest);
+  if (!manifestResult.success) {
+    throw new Error(`Backup manifest is invalid: ${manifestResult.reason}`);
+  }
+  const manifest = manifestResult.data;
+  if (manifest.version > BACKUP_VERSION || manifest.userSchemaVersion > USER_SCHEMA_VERSION) {
+    throw new Error('Backup was made by a newer version of the app');
+  }
+
+  let json: string;
+  try {
+    json = await decryptApiKey(archive.data.payload, passphrase, manifestAssociatedData(manifest));
+  } catch {
+    throw new Error('Incorrect passphrase, or the backup was modified');
+  }
+  if (await sha256Hex(json) !== manifest.sha256) {
+    throw new Error('Backup failed its integrity check');
+  }
+
+  const raw = JSON.parse(json) as Partial<Record<BackupCategory, unknown>> | null;
+  if (!Array.isArray(raw?.users)) {
+    throw new Error('Backup users is not a list');
+  }
+  const dataset: BackupDataset = {
+    users: raw.users.map((value, index) => parseUser(index, value)),
+    roles: parseList('roles', roleDefinitionSchema, raw.roles),
+    setup: parseOptional('setup', setupRecordSchema, raw.setup),
+    keyRotation: parseOptional('keyRotation', keyRotationRequestSchema, raw.keyRotation),
+    auditLog: parseList('auditLog', auditEntrySchema, raw.auditLog),
+    savedFilters: parseList('savedFilters', savedFilterSchema, raw.savedFilters)
+  };
+
+  assertUniqueIds('users', dataset.users.map(user => user.uuid));
+  assertUniqueIds('roles', dataset.roles.map(role => role.id));
+  assertUniqueIds('savedFilters', dataset.savedFilters.map(filter => filter.id));
+  const counts = countRecords(dataset);
+  const mismatch = BACKUP_CATEGORIES.find(category => counts[category] !== manifest.counts[category]);
+  if (mismatch) {
+    throw new Error(`Backup ${mismatch} count does not match its manifest`);
+  }
+  return { manifest, dataset };
+}
+
+const emptyDiff = (): RecordDiff => ({ added: [], updated: [], unchanged: [], skipped: [], removed: [] });
+
+// Match records by id. Merge keeps current records unless preferIncoming says the backup copy is newer;
+// replace takes the backup as it is and removes what it does not have
+function diffRecords<T>(
+  current: T[],
+  incoming: T[],
+  idOf: (record: T) => string,
+  mode: RestoreMode,
+  preferIncoming: (incoming: T, current: T) => boolean
+): { diff: RecordDiff; result: T[] } {
+  const diff = emptyDiff();
+  const currentById = new Map(current.map(record => [idOf(record), record]));
+  const incomingIds = new Set(incoming.map(idOf));
+  const taken = new Map<string, T>();
+
+  for (const record of incoming) {
+    const id = idOf(record);
+    const existing = currentById.get(id);
+    if (!existing) {
+      diff.added.push(id);
+      taken.set(id, record);
+    } else if (JSON.stringify(existing) === JSON.stringify(record)) {
+      diff.unchanged.push(id);
+    } else if (mode === 'replace' || preferIncoming(record, existing)) {
+      diff.updated.push(id);
+      taken.set(id, record);
+    } else {
+      diff.skipped.push(id);
+    }
+  }
+
+  if (mode === 'replace') {
+    diff.removed = current.map(idOf).filter(id => !incomingIds.has(id));
+    return { diff, result: incoming.map(record => taken.get(idOf(record)) ?? currentById.get(idOf(record))!) };
+  }
+  const result = current.map(record => taken.get(idOf(record)) ?? record);
+  return { diff, result: [...result, ...incoming.filter(record => diff.added.includes(idOf(record)))] };
+}
+
+const listOf = <T>(record: T | null): T[] => (record ? [record] : []);
+const later = (a: string, b: string) => new Date(a).getTime() > new Date(b).getTime();
+
+// Any account, built-in or custom role, whose token can still reach the admin pages
+function hasActiveAdmin(users: UserData[]): boolean {
+  return users.some(user => can(user, PERMISSIONS.adminAccess) && getTokenState(user) === 'active');
+}
+
+// Dry run: what a restore would add, update, keep and remove. Nothing is written.
+export async function planRestore(
+  backup: BackupContents,
+  mode: RestoreMode,
+  actorUuid: string | null
+): Promise<RestorePlan> {
+  return planAgainst(await readCurrentDataset(), backup, mode, actorUuid);
+}
+
+function planAgainst(
+  current: BackupDataset,
+  backup: BackupContents,
+  mode: RestoreMode,
+  actorUuid: string | null
+): RestorePlan {
+  const incoming = backup.dataset;
+
+  const users = diffRecords(current.users, incoming.users, user => user.uuid, mode,
+    (theirs, ours) => (theirs.revision ?? 0) > (ours.revision ?? 0));
+  const roles = diffRecords<RoleDefinition>(current.roles, incoming.roles, role => role.id, mode,
+    (theirs, ours) => later(theirs.updatedAt, ours.updatedAt));
+  const savedFilters = diffRecords(current.savedFilters, incoming.savedFilters, filter => filter.id, mode, () => false);
+  const keyRotation = diffRecords(listOf(current.keyRotation), listOf(incoming.keyRotation), () => 'request', mode,
+    (theirs, ours) => later(theirs.requestedAt, ours.requestedAt));
+  // A stored setup marker is always kept: dropping it would reopen the first-run wizard to anyone
+  const setup = diffRecords(listOf(current.setup), listOf(incoming.setup), () => 'setup', 'merge', () => false);
+  // The live audit chain is never restored in either mode: an unkeyed hash chain can be recomputed
+  // over edited entries, so taking the backup's copy would let it rewrite history unnoticed
+  const auditLog = diffRecords(current.auditLog, incoming.auditLog, entry => String(entry.seq), 'merge', () => false);
+  auditLog.diff.skipped.push(...auditLog.diff.added);
+  auditLog.diff.added = [];
+  auditLog.result = current.auditLog;
+
+  const result: BackupDataset = {
+    users: users.result,
+    roles: roles.result,
+    setup: setup.result[0] ?? null,
+    keyRotation: keyRotation.result[0] ?? null,
+    auditLog: auditLog.result,
+    savedFilters: savedFilters.result
+  };
+  const signsOutActor = Boolean(actorUuid) && current.users.some(user => user.uuid === actorUuid) &&
+    !result.users.some(user => user.uuid === actorUuid);
+
+  const warnings: string[] = [];
+  if (signsOutActor) {
+    warnings.push('Your own account is not in this backup; you will be signed out after the restore.');
+  }
+  if (!hasActiveAdmin(result.users) && hasActiveAdmin(current.users)) {
+    warnings.push('No active admin token remains after this restore.');
+  }
+  if (auditLog.diff.skipped.length > 0) {
+    warnings.push('Audit entries in the backup are not restored; the current audit log is kept and records this restore.');
+  }
+
+  return {
+    mode,
+    manifest: backup.manifest,
+    diff: {
+      users: users.diff,
+      roles: roles.diff,
+      setup: setup.diff,
+      keyRotation: keyRotation.diff,
+      auditLog: auditLog.diff,
+      savedFilters: savedFilters.diff
+    },
+    warnings,
+    signsOutActor,
+    result
+  };
+}
+
+// How many times applyRestore plans again after a concurrent write
+const RESTORE_ATTEMPTS = 3;
+
+const restoredPart = ({ users, roles, setup, keyRotation }: BackupDataset): RestoredDataset =>
+  ({ users, roles, setup, keyRotation });
+
+// Re-plans against the records as they are now and writes the result in one storage transaction; if
+// anything changed between the two, the plan is made again so no concurrent write is silently lost
+export async function applyRestore(
+  backup: BackupContents,
+  mode: RestoreMode,
+  actorUuid: string | null
+): Promise<RestorePlan> {
+  let plan: RestorePlan;
+  for (let attempt = 1; ; attempt++) {
+    const current = await readCurrentDataset();
+    plan = planAgainst(current, backup, mode, actorUuid);
+    try {
+      if (JSON.stringify(loadSavedFilters()) !== JSON.stringify(current.savedFilters)) {
+        throw new DatasetConflictError();
+      }
+      await replaceStoredDataset(restoredPart(plan.result), restoredPart(current));
+      break;
+    } catch (error) {
+      if (!(error instanceof DatasetConflictError) || attempt >= RESTORE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+  storeSavedFilters(plan.result.savedFilters);
+
+  const totals = BACKUP_CATEGORIES.map(category => plan.diff[category]);
+  logAuditEvent({
+    type: 'BACKUP_RESTORED',
+    actor: actorUuid,
+    target: null,
+    outcome: 'success',
+    mode,
+    backupCreatedAt: plan.manifest.createdAt,
+    added: totals.reduce((sum, diff) => sum + diff.added.length, 0),
+    updated: totals.reduce((sum, diff) => sum + diff.updated.length, 0),
+    removed: totals.reduce((sum, diff) => sum + diff.removed.length, 0)
+  });
+  return plan;
+}
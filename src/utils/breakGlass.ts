@@ -0,0 +1,160 @@
+// Break-glass admin recovery: single-use codes that open a short session able only to mint an admin token
+import type { BreakGlassRecord, Session, UserData } from '../types';
+import { createUser, updateBreakGlassRecord, updateSession } from './storage';
+import { BREAK_GLASS_UUID, checkRateLimit, getRateLimitPolicy, resetRateLimit } from './auth';
+import { createCorrelationId, logAuditEvent } from './audit';
+import { generateSecureToken, getTokenLookupId, hashToken, verifyToken } from './crypto';
+import { canAdminister } from './scopes';
+import { getSessionConfig, resumeSession, startSession, type SessionConfig } from './session';
+import { base32Encode } from './totp';
+
+export const BREAK_GLASS_CODE_COUNT = 10;
+
+// How long a redeemed code keeps its session open, whatever the normal session lifetime
+export const BREAK_GLASS_SESSION_MINUTES = 15;
+
+// Every redemption attempt counts against one limit, whichever code it tries
+const RATE_LIMIT_IDENTIFIER = 'break-glass';
+
+const CODE_PATTERN = /^([0-9a-f]{8})[a-z2-7]{16}$/;
+
+// Case, spaces and dashes do not matter when a code is typed back in
+function parseCode(code: string): { id: string; normalized: string } | null {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  const match = CODE_PATTERN.exec(normalized);
+  return match ? { id: match[1], normalized } : null;
+}
+
+// Public 32-bit id plus an 80-bit secret, formatted as 1a2b3c4d-abcd-efgh-ijkl-mnop
+function generateCode(): string {
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(4)), byte => byte.toString(16).padStart(2, '0')).join('');
+  const secret = base32Encode(crypto.getRandomValues(new Uint8Array(10))).toLowerCase();
+  return [id, ...secret.match(/.{4}/g)!].join('-');
+}
+
+// Replaces any earlier set. Returns the plaintext codes; they are shown once and only their hashes are kept
+export async function generateBreakGlassCodes(actor: UserData, count: number = BREAK_GLASS_CODE_COUNT): Promise<string[]> {
+  if (!canAdminister(actor)) {
+    throw new Error('Only admins with a writable token can generate break-glass codes');
+  }
+
+  const codes = Array.from({ length: count }, generateCode);
+  const record: BreakGlassRecord = {
+    generatedAt: new Date().toISOString(),
+    generatedBy: actor.uuid,
+    total: count,
+    codes: await Promise.all(codes.map(async code => {
+      const { id, normalized } = parseCode(code)!;
+      return { id, hash: await hashToken(normalized) };
+    }))
+  };
+
+  await updateBreakGlassRecord(async () => record);
+  logAuditEvent({ type: 'BREAK_GLASS_CODES_GENERATED', actor: actor.uuid, target: null, outcome: 'success', count });
+  return codes;
+}
+
+export interface BreakGlassRedemption {
+  success: boolean;
+  session?: Session;
+  remaining?: number;
+  error?: string;
+  retryAfter?: number;
+}
+
+// Spends the code and starts a break-glass session in this browser
+export async function redeemBreakGlassCode(
+  code: string,
+  config: SessionConfig = getSessionConfig(),
+  now: number = Date.now()
+): Promise<BreakGlassRedemption> {
+  const rateCheck = checkRateLimit(RATE_LIMIT_IDENTIFIER, getRateLimitPolicy().tiers.token, 'token');
+  if (!rateCheck.allowed) {
+    return { success: false, error: 'Too many attempts', retryAfter: rateCheck.retryAfter };
+  }
+
+  const audit = { actor: BREAK_GLASS_UUID, target: null, correlationId: createCorrelationId() };
+  const parsed = parseCode(code);
+  if (!parsed) {
+    logAuditEvent({ type: 'BREAK_GLASS_CODE_REJECTED', ...audit, outcome: 'failure', reason: 'invalid_format' });
+    return { success: false, error: 'Invalid break-glass code' };
+  }
+
+  // Checked and removed under the record lock, so a code cannot be spent twice
+  let spent = false;
+  const record = await updateBreakGlassRecord(async current => {
+    const entry = current?.codes.find(candidate => candidate.id === parsed.id);
+    if (!current || !entry || !await verifyToken(parsed.normalized, entry.hash)) {
+      return null;
+    }
+    spent = true;
+    return { ...current, codes: current.codes.filter(candidate => candidate !== entry) };
+  });
+
+  if (!spent) {
+    logAuditEvent({ type: 'BREAK_GLASS_CODE_REJECTED', ...audit, outcome: 'failure', reason: 'unknown_code' });
+    return { success: false, error: 'Invalid break-glass code' };
+  }
+
+  resetRateLimit(RATE_LIMIT_IDENTIFIER);
+  const remaining = record?.codes.length ?? 0;
+  const expiresAt = now + BREAK_GLASS_SESSION_MINUTES * 60 * 1000;
+  const session = await startSession(BREAK_GLASS_UUID, config, { codeId: parsed.id, expiresAt });
+  logAuditEvent({
+    type: 'BREAK_GLASS_CODE_REDEEMED',
+    ...audit,
+    outcome: 'success',
+    remaining,
+    expiresAt: new Date(expiresAt).toISOString()
+  });
+  return { success: true, session, remaining };
+}
+
+export interface MintedAdminToken {
+  token: string; // Shown once, never stored
+  user: UserData;
+}
+
+// The one action of a break-glass session: a new admin account with a fresh token, once per session
+export async function mintReplacementAdminToken(
+  config: SessionConfig = getSessionConfig(),
+  now: number = Date.now()
+): Promise<MintedAdminToken> {
+  const check = await resumeSession(config);
+  if (!check.valid || !check.session.breakGlass) {
+    throw new Error('The break-glass session has expired; redeem another code');
+  }
+
+  // Checked and recorded under the session lock before the token exists, so a second tab holding
+  // the same session cannot mint another
+  let claim: 'expired' | 'minted' | 'claimed' = 'expired';
+  await updateSession(check.session.id, async current => {
+    const grant = current?.breakGlass;
+    if (!current || !grant) {
+      return null;
+    }
+    if (grant.mintedAt) {
+      claim = 'minted';
+      return null;
+    }
+    claim = 'claimed';
+    return { ...current, breakGlass: { ...grant, mintedAt: now } };
+  });
+  if (claim === 'expired') {
+    throw new Error('The break-glass session has expired; redeem another code');
+  }
+  if (claim === 'minted') {
+    throw new Error('A replacement admin token was already issued in this session');
+  }
+
+  const token = generateSecureToken();
+  const user = await createUser(await hashToken(token), 'admin', { tokenId: await getTokenLookupId(token) });
+  logAuditEvent({
+    type: 'BREAK_GLASS_TOKEN_MINTED',
+    actor: BREAK_GLASS_UUID,
+    target: user.uuid,
+    outcome: 'success',
+    role: user.role
+  });
+  return { token, user };
+}
@@ -0,0 +1,110 @@
+// Change notifications between tabs, so a tab reloads records another tab has written
+export type StorageChangeKind = 'user' | 'roles' | 'setup' | 'keyRotation' | 'breakGlass' | 'audit' | 'all';
+
+export interface StorageChange {
+  kind: StorageChangeKind;
+  id: string | null; // User uuid for 'user' changes
+}
+
+export type StorageChangeListener = (change: StorageChange) => void;
+
+// Listeners hear changes made by other tabs only; the writing tab already has the new data
+export interface ChangeFeed {
+  publish(change: StorageChange): void;
+  subscribe(listener: StorageChangeListener): () => void;
+}
+
+const CHANGE_CHANNEL = 'api_token_monitor_v2_changes';
+const CHANGE_KEY = 'api_token_monitor_v2_change';
+
+function isStorageChange(value: unknown): value is StorageChange {
+  const change = value as StorageChange | null;
+  return typeof change?.kind === 'string' && (change.id === null || typeof change.id === 'string');
+}
+
+function createListenerSet() {
+  const listeners = new Set<StorageChangeListener>();
+  return {
+    add: (listener: StorageChangeListener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    notify: (change: StorageChange) => listeners.forEach(listener => listener(change))
+  };
+}
+
+// BroadcastChannel does not deliver a message back to the channel that posted it
+export function createBroadcastChangeFeed(channel: BroadcastChannel = new BroadcastChannel(CHANGE_CHANNEL)): ChangeFeed {
+  const listeners = createListenerSet();
+  channel.addEventListener('message', (event: MessageEvent) => {
+    if (isStorageChange(event.data)) {
+      listeners.notify({ kind: event.data.kind, id: event.data.id });
+    }
+  });
+
+  return {
+    publish: (change) => channel.postMessage(change),
+    subscribe: listeners.add
+  };
+}
+
+// For browsers without BroadcastChannel: 'storage' events fire in every tab except the writer.
+// The timestamp makes repeated changes to the same record still count as a new value.
+export function createStorageEventChangeFeed(
+  target: Pick<Window, 'addEventListener'> = window,
+  getStorage: () => Storage = () => localStorage
+): ChangeFeed {
+  const listeners = createListenerSet();
+  target.addEventListener('storage', (event: StorageEvent) => {
+    if (event.key !== CHANGE_KEY || !event.newValue) return;
+    try {
+      const change = JSON.parse(event.newValue);
+      if (isStorageChange(change)) {
+        listeners.notify({ kind: change.kind, id: change.id });
+      }
+    } catch {
+      // Not ours; ignore
+    }
+  });
+
+  return {
+    publish: (change) => getStorage().setItem(CHANGE_KEY, JSON.stringify({ ...change, at: Date.now() })),
+    subscribe: listeners.add
+  };
+}
+
+// Outside a browser there are no other tabs to tell
+export function createLocalChangeFeed(): ChangeFeed {
+  return {
+    publish: () => {},
+    subscribe: () => () => {}
+  };
+}
+
+export function createDefaultChangeFeed(): ChangeFeed {
+  if (typeof window === 'undefined') {
+    return createLocalChangeFeed();
+  }
+  return typeof BroadcastChannel !== 'undefined' ? createBroadcastChangeFeed() : createStorageEventChangeFeed();
+}
+
+let changeFeed: ChangeFeed | null = null;
+
+export function getChangeFeed(): ChangeFeed {
+  if (!changeFeed) {
+    changeFeed = createDefaultChangeFeed();
+  }
+  return changeFeed;
+}
+
+export function setChangeFeed(feed: ChangeFeed): void {
+  changeFeed = feed;
+}
+
+export function publishChange(kind: StorageChangeKind, id: string | null = null): void {
+  getChangeFeed().publish({ kind, id });
+}
+
+export function subscribeToChanges(listener: StorageChangeListener): () => void {
+  return getChangeFeed().subscribe(listener);
+}
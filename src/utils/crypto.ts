@@ -1,81 +1,270 @@
 // Web Crypto API Implementation
-// NOTE: Using PBKDF2-SHA256 for token hashing (browser-compatible)
-// For production with Node.js backend, consider migrating to Argon2id
-import type { EncryptedData } from '../types';
+// Tokens are hashed with Argon2id (hash-wasm) as PHC strings; PBKDF2-SHA256 hashes are still verified
+import { argon2id, argon2Verify } from 'hash-wasm';
+import type { EncryptedData, EnvelopeHeader, KeyEnvelope } from '../types';
 
-// Encryption using Web Crypto API (AES-256-GCM)
-export async function encryptApiKey(key: string, password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(key);
+export interface Argon2Params {
+  memoryKiB: number;
+  iterations: number;
+  parallelism: number;
+  hashLength: number; // bytes
+}
+
+// 64 MiB / 3 passes, as called for in PROJECT.md
+export const DEFAULT_ARGON2_PARAMS: Argon2Params = {
+  memoryKiB: 65536,
+  iterations: 3,
+  parallelism: 1,
+  hashLength: 32
+};
+
+function readPositiveInt(raw: string | undefined, fallback: number): number {
+  const value = Number(raw);
+  return raw && Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Configurable via VITE_ARGON2_MEMORY_KIB, VITE_ARGON2_ITERATIONS and VITE_ARGON2_PARALLELISM
+export function getArgon2Params(): Argon2Params {
+  return {
+    memoryKiB: readPositiveInt(import.meta.env.VITE_ARGON2_MEMORY_KIB, DEFAULT_ARGON2_PARAMS.memoryKiB),
+    iterations: readPositiveInt(import.meta.env.VITE_ARGON2_ITERATIONS, DEFAULT_ARGON2_PARAMS.iterations),
+    parallelism: readPositiveInt(import.meta.env.VITE_ARGON2_PARALLELISM, DEFAULT_ARGON2_PARAMS.parallelism),
+    hashLength: DEFAULT_ARGON2_PARAMS.hashLength
+  };
+}
+
+// Versioned ciphertext envelope: "atm.<header>.<ciphertext>", both parts base64url.
+// The header names the cipher and carries the KDF parameters or the wrapped data key, so
+// raising the KDF cost only affects new ciphertexts. Legacy JSON number-array formats still decode.
+export const ENVELOPE_PREFIX = 'atm';
+export const ENVELOPE_VERSION = 1;
+export const LEGACY_KDF_ITERATIONS = 100000;
+
+// Configurable via VITE_KDF_ITERATIONS; existing envelopes and vault keys are re-sealed at this cost when next opened
+export function getKdfIterations(): number {
+  return readPositiveInt(import.meta.env.VITE_KDF_ITERATIONS, LEGACY_KDF_ITERATIONS);
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export interface DecodedEnvelope {
+  header: EnvelopeHeader;
+  iv: Uint8Array;
+  data: Uint8Array;
+  legacy: boolean; // Read from a pre-envelope JSON format; re-encrypt it when convenient
+}
+
+// Reads every format this app has written; throws on anything else
+export function decodeEnvelope(sealed: string): DecodedEnvelope {
+  if (sealed.startsWith('{')) {
+    const parsed: EncryptedData | KeyEnvelope = JSON.parse(sealed);
+    const iv = new Uint8Array(parsed.iv);
+    const header: EnvelopeHeader = { v: 0, alg: 'AES-256-GCM', iv: toBase64Url(iv) };
+    if ('wrappedKey' in parsed) {
+      header.wrap = { alg: 'AES-256-GCM', iv: toBase64Url(new Uint8Array(parsed.wrapIv)), key: toBase64Url(new Uint8Array(parsed.wrappedKey)) };
+    } else {
+      header.kdf = { name: 'PBKDF2-SHA256', iterations: LEGACY_KDF_ITERATIONS, salt: toBase64Url(new Uint8Array(parsed.salt)) };
+    }
+    return { header, iv, data: new Uint8Array(parsed.data), legacy: true };
+  }
+
+  const [prefix, encodedHeader, encodedData, ...rest] = sealed.split('.');
+  if (prefix !== ENVELOPE_PREFIX || !encodedHeader || encodedData === undefined || rest.length > 0) {
+    throw new Error('Unrecognised ciphertext format');
+  }
+  const header: EnvelopeHeader = JSON.parse(new TextDecoder().decode(fromBase64Url(encodedHeader)));
+  if (header.v !== ENVELOPE_VERSION) {
+    throw new Error(`Unsupported envelope version: ${header.v}`);
+  }
+  if (header.alg !== 'AES-256-GCM') {
+    throw new Error(`Unsupported cipher: ${header.alg}`);
+  }
+  return { header, iv: fromBase64Url(header.iv), data: fromBase64Url(encodedData), legacy: false };
+}
+
+function encodeEnvelope(header: EnvelopeHeader, data: ArrayBuffer): string {
+  const encodedHeader = toBase64Url(new TextEncoder().encode(JSON.stringify(header)));
+  return `${ENVELOPE_PREFIX}.${encodedHeader}.${toBase64Url(new Uint8Array(data))}`;
+}
+
+// Authenticated but not stored: decrypting with different associated data fails, so a
+// ciphertext bound to one record cannot be copied onto another
+function getAdditionalData(associatedData: string | undefined): Uint8Array {
+  return new TextEncoder().encode(`${ENVELOPE_PREFIX}:v${ENVELOPE_VERSION}:${associatedData ?? ''}`);
+}
+
+function gcmParams(decoded: Pick<DecodedEnvelope, 'iv' | 'legacy'>, associatedData?: string): AesGcmParams {
+  return decoded.legacy
+    ? { name: 'AES-GCM', iv: decoded.iv }
+    : { name: 'AES-GCM', iv: decoded.iv, additionalData: getAdditionalData(associatedData) };
+}
 
-  // Derive key with PBKDF2
+async function derivePasswordKey(password: string, salt: Uint8Array, iterations: number, usages: KeyUsage[]): Promise<CryptoKey> {
   const baseKey = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(password),
+    new TextEncoder().encode(password),
     'PBKDF2',
     false,
     ['deriveKey']
   );
 
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const derivedKey = await crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
     baseKey,
     { name: 'AES-GCM', length: 256 },
     false,
-    ['encrypt']
+    usages
   );
+}
+
+// Encryption using Web Crypto API (AES-256-GCM) under a PBKDF2 password key
+export async function encryptApiKey(key: string, password: string, associatedData?: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = getKdfIterations();
+  const derivedKey = await derivePasswordKey(password, salt, iterations, ['encrypt']);
 
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
+    gcmParams({ iv, legacy: false }, associatedData),
     derivedKey,
-    data
+    new TextEncoder().encode(key)
   );
 
-  const encryptedData: EncryptedData = {
-    salt: Array.from(salt),
-    iv: Array.from(iv),
-    data: Array.from(new Uint8Array(encrypted))
-  };
+  return encodeEnvelope({
+    v: ENVELOPE_VERSION,
+    alg: 'AES-256-GCM',
+    kdf: { name: 'PBKDF2-SHA256', iterations, salt: toBase64Url(salt) },
+    iv: toBase64Url(iv)
+  }, encrypted);
+}
+
+// Decryption using Web Crypto API; the KDF parameters come from the ciphertext itself
+export async function decryptApiKey(encryptedData: string, password: string, associatedData?: string): Promise<string> {
+  const decoded = decodeEnvelope(encryptedData);
+  const { kdf } = decoded.header;
+  if (!kdf || kdf.name !== 'PBKDF2-SHA256') {
+    throw new Error('Ciphertext is not password-encrypted');
+  }
+
+  const derivedKey = await derivePasswordKey(password, fromBase64Url(kdf.salt), kdf.iterations, ['decrypt']);
+  const decrypted = await crypto.subtle.decrypt(gcmParams(decoded, associatedData), derivedKey, decoded.data);
 
-  return JSON.stringify(encryptedData);
+  return new TextDecoder().decode(decrypted);
 }
 
-// Decryption using Web Crypto API
-export async function decryptApiKey(encryptedData: string, password: string): Promise<string> {
-  const parsed: EncryptedData = JSON.parse(encryptedData);
-  const encoder = new TextEncoder();
+// True for legacy formats and for envelopes derived with fewer iterations than currently configured
+export function needsReencryption(sealed: string): boolean {
+  const { header, legacy } = decodeEnvelope(sealed);
+  return legacy || (header.kdf !== undefined && header.kdf.iterations < getKdfIterations());
+}
 
-  const baseKey = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(password),
-    'PBKDF2',
-    false,
-    ['deriveKey']
+// Key-encryption key for a user's vault; non-extractable, so it only ever exists in memory
+export function deriveKeyEncryptionKey(
+  secret: string,
+  salt: Uint8Array,
+  iterations: number = LEGACY_KDF_ITERATIONS
+): Promise<CryptoKey> {
+  return derivePasswordKey(secret, salt, iterations, ['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']);
+}
+
+// A fresh AES-256-GCM data key per value; only its wrapped form is kept
+export async function sealEnvelope(plaintext: string, keyEncryptionKey: CryptoKey, associatedData?: string): Promise<string> {
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    gcmParams({ iv, legacy: false }, associatedData),
+    dataKey,
+    new TextEncoder().encode(plaintext)
   );
 
-  const derivedKey = await crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: new Uint8Array(parsed.salt), iterations: 100000, hash: 'SHA-256' },
-    baseKey,
+  return encodeEnvelope({
+    v: ENVELOPE_VERSION,
+    alg: 'AES-256-GCM',
+    wrap: await wrapDataKey(dataKey, keyEncryptionKey),
+    iv: toBase64Url(iv)
+  }, encrypted);
+}
+
+async function wrapDataKey(dataKey: CryptoKey, keyEncryptionKey: CryptoKey): Promise<NonNullable<EnvelopeHeader['wrap']>> {
+  const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, keyEncryptionKey, { name: 'AES-GCM', iv: wrapIv });
+  return { alg: 'AES-256-GCM', iv: toBase64Url(wrapIv), key: toBase64Url(new Uint8Array(wrappedKey)) };
+}
+
+// Extractable only when it is about to be wrapped again
+function unwrapDataKey(decoded: DecodedEnvelope, keyEncryptionKey: CryptoKey, extractable: boolean): Promise<CryptoKey> {
+  const { wrap } = decoded.header;
+  if (!wrap) {
+    throw new Error('Ciphertext has no wrapped data key');
+  }
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64Url(wrap.key),
+    keyEncryptionKey,
+    { name: 'AES-GCM', iv: fromBase64Url(wrap.iv) },
     { name: 'AES-GCM', length: 256 },
-    false,
+    extractable,
     ['decrypt']
   );
+}
 
-  const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv: new Uint8Array(parsed.iv) },
-    derivedKey,
-    new Uint8Array(parsed.data)
-  );
+export async function openEnvelope(sealed: string, keyEncryptionKey: CryptoKey, associatedData?: string): Promise<string> {
+  const decoded = decodeEnvelope(sealed);
+  const dataKey = await unwrapDataKey(decoded, keyEncryptionKey, false);
+
+  const decrypted = await crypto.subtle.decrypt(gcmParams(decoded, associatedData), dataKey, decoded.data);
 
   return new TextDecoder().decode(decrypted);
 }
 
-// PBKDF2-SHA256 hashing for tokens (100k iterations)
-// Note: Using PBKDF2 as it's natively supported in Web Crypto API
-// For Argon2id support, backend implementation required
-export async function hashToken(token: string): Promise<string> {
+// Re-wraps only the data key, so changing the vault secret never touches the sealed value
+export async function rewrapEnvelope(sealed: string, from: CryptoKey, to: CryptoKey): Promise<string> {
+  const decoded = decodeEnvelope(sealed);
+  const dataKey = await unwrapDataKey(decoded, from, true);
+  const wrap = await wrapDataKey(dataKey, to);
+
+  if (decoded.legacy) {
+    const legacy: KeyEnvelope = JSON.parse(sealed);
+    return JSON.stringify({ ...legacy, wrapIv: Array.from(fromBase64Url(wrap.iv)), wrappedKey: Array.from(fromBase64Url(wrap.key)) });
+  }
+  return encodeEnvelope({ ...decoded.header, wrap }, decoded.data.slice().buffer);
+}
+
+// Vault envelopes, as opposed to password-encrypted encryptApiKey() output
+export function isWrappedEnvelope(sealed: string): boolean {
+  try {
+    return decodeEnvelope(sealed).header.wrap !== undefined;
+  } catch {
+    return false;
+  }
+}
+
+// Argon2id token hash as a PHC string: $argon2id$v=19$m=65536,t=3,p=1$<salt>$<hash>
+// The parameters travel with the hash, so changing them never breaks existing tokens
+export async function hashToken(token: string, params: Argon2Params = getArgon2Params()): Promise<string> {
+  return argon2id({
+    password: token,
+    salt: crypto.getRandomValues(new Uint8Array(16)),
+    memorySize: params.memoryKiB,
+    iterations: params.iterations,
+    parallelism: params.parallelism,
+    hashLength: params.hashLength,
+    outputType: 'encoded'
+  });
+}
+
+// Legacy PBKDF2-SHA256 format (100k iterations), kept to verify and test hashes issued before Argon2id
+export async function hashTokenPbkdf2(token: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(token);
   
@@ -120,64 +309,130 @@ export function constantTimeEqual(a: string, b: string): boolean {
   return result === 0;
 }
 
-// Verify token against hash (timing-safe)
+export type HashAlgorithm = 'argon2id' | 'pbkdf2' | 'unknown';
+
+export function getHashAlgorithm(hash: string): HashAlgorithm {
+  if (hash.startsWith('$argon2id$')) return 'argon2id';
+  if (hash.startsWith('$pbkdf2$')) return 'pbkdf2';
+  return 'unknown';
+}
+
+// True when a stored hash is not Argon2id with the currently configured parameters
+export function needsRehash(hash: string, params: Argon2Params = getArgon2Params()): boolean {
+  if (getHashAlgorithm(hash) !== 'argon2id') {
+    return true;
+  }
+  const match = hash.match(/^\$argon2id\$v=19\$m=(\d+),t=(\d+),p=(\d+)\$/);
+  if (!match) {
+    return true;
+  }
+  return Number(match[1]) !== params.memoryKiB ||
+    Number(match[2]) !== params.iterations ||
+    Number(match[3]) !== params.parallelism;
+}
+
+// Verify token against hash (timing-safe), dispatching on the algorithm prefix
 export async function verifyToken(token: string, hash: string): Promise<boolean> {
   try {
-    // Check admin token first (using constant-time comparison)
-    const adminHash = import.meta.env.VITE_ADMIN_TOKEN_HASH;
-    if (adminHash && constantTimeEqual(token, adminHash)) {
-      return true;
-    }
-    
-    const encoder = new TextEncoder();
-    const data = encoder.encode(token);
-    
-    // Parse the stored hash
-    const parts = hash.split('$');
-    if (parts.length !== 6 || parts[1] !== 'pbkdf2') {
-      // Do fake computation to maintain constant time
-      await hashToken('dummy');
-      return false;
+    switch (getHashAlgorithm(hash)) {
+      case 'argon2id':
+        return await argon2Verify({ password: token, hash });
+      case 'pbkdf2':
+        return await verifyPbkdf2(token, hash);
+      default:
+        // Do fake computation to maintain constant time
+        await hashTokenPbkdf2('dummy');
+        return false;
     }
-    
-    const iterations = parseInt(parts[3], 10);
-    const saltHex = parts[4];
-    const storedHash = parts[5];
-    
-    const salt = new Uint8Array(saltHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
-    
-    const baseKey = await crypto.subtle.importKey(
-      'raw',
-      data,
-      'PBKDF2',
-      false,
-      ['deriveBits']
-    );
-    
-    const hashBits = await crypto.subtle.deriveBits(
-      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
-      baseKey,
-      256
-    );
-    
-    const computedHash = Array.from(new Uint8Array(hashBits))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-    
-    // Constant-time comparison
-    return constantTimeEqual(computedHash, storedHash);
   } catch {
     // Do fake computation on error
-    await hashToken('dummy');
+    await hashTokenPbkdf2('dummy');
+    return false;
+  }
+}
+
+// Legacy format: $pbkdf2$sha256$<iterations>$<salt hex>$<hash hex>
+async function verifyPbkdf2(token: string, hash: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(token);
+  
+  // Parse the stored hash
+  const parts = hash.split('$');
+  if (parts.length !== 6) {
+    await hashTokenPbkdf2('dummy');
     return false;
   }
+  
+  const iterations = parseInt(parts[3], 10);
+  const saltHex = parts[4];
+  const storedHash = parts[5];
+  
+  const salt = new Uint8Array(saltHex.match(/.{2}/g)!.map(byte => parseInt(byte, 16)));
+  
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    data,
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  
+  const hashBits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    256
+  );
+  
+  const computedHash = Array.from(new Uint8Array(hashBits))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  
+  // Constant-time comparison
+  return constantTimeEqual(computedHash, storedHash);
+}
+
+const TOKEN_PATTERN = /^atm_v2_([0-9a-f]{16})_([0-9a-f]{64})$/;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
-// Generate a secure random token
+// Generate a secure random token: atm_v2_<public lookup id>_<secret>
 export function generateSecureToken(): string {
-  const array = new Uint8Array(32);
-  crypto.getRandomValues(array);
-  return 'atm_v2_' + Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+  const id = crypto.getRandomValues(new Uint8Array(8));
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+  return `atm_v2_${toHex(id)}_${toHex(secret)}`;
+}
+
+export interface ParsedToken {
+  id: string; // Public, indexes the owning user
+  secret: string;
+}
+
+// Null for tokens issued before lookup ids (atm_v2_<secret>) and for anything malformed
+export function parseToken(token: string): ParsedToken | null {
+  const match = TOKEN_PATTERN.exec(token);
+  return match ? { id: match[1], secret: match[2] } : null;
+}
+
+// Index key for a token: its embedded id, or a SHA-256 derived id for legacy tokens
+export async function getTokenLookupId(token: string): Promise<string> {
+  const parsed = parseToken(token);
+  if (parsed) {
+    return parsed.id;
+  }
+  return `legacy_${(await sha256Hex(token)).slice(0, 16)}`;
+}
+
+// Plain SHA-256 of a UTF-8 string as hex; for integrity checks, never for secrets
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return toHex(new Uint8Array(digest));
+}
+
+// Generate an opaque session id (256 bits, hex)
+export function generateSessionId(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
 }
 
 // Generate UUID for filenames
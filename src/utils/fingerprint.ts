@@ -0,0 +1,33 @@
+// Client fingerprinting for rate limiting - stable per browser, not a tracking identifier
+import { parseToken } from './crypto';
+
+// FNV-1a (32-bit) - fast and synchronous; only used to bucket identifiers, never for secrets
+export function hashIdentifier(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// Bucket attempts on the public lookup id (or the prefix of a legacy token), never the secret part
+export function getTokenRateLimitKey(token: string): string {
+  return hashIdentifier(parseToken(token)?.id ?? token.slice(0, 16));
+}
+
+// Derived from browser attributes rather than storage, so clearing site data does not reset it
+export function getClientFingerprint(): string {
+  if (typeof navigator === 'undefined') {
+    return 'server';
+  }
+
+  const parts = [
+    navigator.userAgent,
+    navigator.language,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+    typeof screen !== 'undefined' ? `${screen.width}x${screen.height}x${screen.colorDepth}` : '',
+    String(navigator.hardwareConcurrency ?? '')
+  ];
+  return hashIdentifier(parts.join('|'));
+}
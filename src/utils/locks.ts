@@ -0,0 +1,221 @@
+// Cross-tab mutual exclusion: Web Locks where available, a BroadcastChannel claim protocol otherwise
+import { generateUUID } from './crypto';
+
+// How long acquireLock waits before giving up
+export const LOCK_TIMEOUT_MS = 10 * 1000;
+
+// Broadcast fallback: how long a claim waits for objections, and how often a blocked claim retries
+export const LOCK_CLAIM_WINDOW_MS = 30;
+export const LOCK_RETRY_MS = 250;
+
+const LOCK_PREFIX = 'api_token_monitor_v2:';
+const LOCK_CHANNEL = 'api_token_monitor_v2_locks';
+
+export type ReleaseLock = () => void;
+
+export type LockProviderKind = 'webLocks' | 'broadcast' | 'local';
+
+export interface LockProvider {
+  readonly kind: LockProviderKind;
+  acquire(name: string, timeoutMs: number): Promise<ReleaseLock>;
+}
+
+function lockTimeoutError(name: string): Error {
+  return new Error(`Timed out waiting for lock: ${name}`);
+}
+
+// Calling release twice must not hand the lock to two waiters
+function once(release: () => void): ReleaseLock {
+  let released = false;
+  return () => {
+    if (!released) {
+      released = true;
+      release();
+    }
+  };
+}
+
+// Only serializes callers inside this tab; used where there are no other tabs, e.g. tests under Node
+export function createLocalLockProvider(): LockProvider {
+  const locks = new Map<string, Promise<void>>();
+
+  return {
+    kind: 'local',
+    acquire: async (name, timeoutMs) => {
+      const deadline = Date.now() + timeoutMs;
+      while (locks.has(name)) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw lockTimeoutError(name);
+        }
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        await Promise.race([
+          locks.get(name),
+          new Promise<void>(resolve => { timer = setTimeout(resolve, remaining); })
+        ]);
+        clearTimeout(timer);
+      }
+
+      let release: () => void;
+      locks.set(name, new Promise<void>(resolve => { release = resolve; }));
+
+      return once(() => {
+        locks.delete(name);
+        release();
+      });
+    }
+  };
+}
+
+// The browser queues requests across every tab and frees the lock if the holding tab closes
+export function createWebLockProvider(manager: LockManager = navigator.locks): LockProvider {
+  return {
+    kind: 'webLocks',
+    acquire: (name, timeoutMs) => new Promise((resolve, reject) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      manager.request(`${LOCK_PREFIX}${name}`, { signal: controller.signal }, () => {
+        clearTimeout(timer);
+        // The lock is held until this promise settles
+        return new Promise<void>(release => resolve(once(release)));
+      }).catch(error => {
+        clearTimeout(timer);
+        reject(controller.signal.aborted ? lockTimeoutError(name) : error);
+      });
+    })
+  };
+}
+
+interface LockMessage {
+  type: 'request' | 'held' | 'released';
+  name: string;
+  tabId: string;
+  to?: string; // Tab a 'held' reply is meant for
+  requestedAt?: number;
+}
+
+interface Claim {
+  requestedAt: number;
+  contested: boolean;
+}
+
+// Earlier claims win; the tab id breaks ties so both tabs reach the same answer
+function claimsBefore(a: { requestedAt: number; tabId: string }, b: { requestedAt: number; tabId: string }): boolean {
+  return a.requestedAt < b.requestedAt || (a.requestedAt === b.requestedAt && a.tabId < b.tabId);
+}
+
+// Fallback for browsers without Web Locks. A tab announces a claim and takes the lock if no tab
+// holding it, or claiming it earlier, objects within the claim window. A blocked claim retries on
+// 'released' or every LOCK_RETRY_MS, so a holder that closed without releasing only costs one retry.
+export function createBroadcastLockProvider(
+  channel: BroadcastChannel = new BroadcastChannel(LOCK_CHANNEL),
+  tabId: string = generateUUID()
+): LockProvider {
+  const local = createLocalLockProvider();
+  const held = new Set<string>();
+  const claims = new Map<string, Claim>();
+  const waiters = new Map<string, Set<() => void>>();
+
+  const post = (message: Omit<LockMessage, 'tabId'>) => channel.postMessage({ ...message, tabId });
+
+  channel.addEventListener('message', (event: MessageEvent<LockMessage>) => {
+    const message = event.data;
+    if (!message || message.tabId === tabId) return;
+
+    if (message.type === 'request') {
+      const claim = claims.get(message.name);
+      const objects = held.has(message.name) || (claim !== undefined &&
+        claimsBefore({ requestedAt: claim.requestedAt, tabId }, { requestedAt: message.requestedAt ?? 0, tabId: message.tabId }));
+      if (objects) {
+        post({ type: 'held', name: message.name, to: message.tabId });
+      }
+    } else if (message.type === 'held' && message.to === tabId) {
+      const claim = claims.get(message.name);
+      if (claim) {
+        claim.contested = true;
+      }
+    } else if (message.type === 'released') {
+      waiters.get(message.name)?.forEach(wake => wake());
+    }
+  });
+
+  const wait = (name: string, ms: number) => new Promise<void>(resolve => {
+    const set = waiters.get(name) ?? new Set<() => void>();
+    waiters.set(name, set);
+    const wake = () => {
+      clearTimeout(timer);
+      set.delete(wake);
+      resolve();
+    };
+    const timer = setTimeout(wake, ms);
+    set.add(wake);
+  });
+
+  return {
+    kind: 'broadcast',
+    acquire: async (name, timeoutMs) => {
+      const deadline = Date.now() + timeoutMs;
+      // One claim per tab at a time; other callers in this tab queue here
+      const releaseLocal = await local.acquire(name, timeoutMs);
+
+      try {
+        for (;;) {
+          const claim: Claim = { requestedAt: Date.now(), contested: false };
+          claims.set(name, claim);
+          post({ type: 'request', name, requestedAt: claim.requestedAt });
+          await new Promise(resolve => setTimeout(resolve, LOCK_CLAIM_WINDOW_MS));
+          claims.delete(name);
+
+          if (!claim.contested) {
+            held.add(name);
+            return once(() => {
+              held.delete(name);
+              post({ type: 'released', name });
+              releaseLocal();
+            });
+          }
+
+          const remaining = deadline - Date.now();
+          if (remaining <= 0) {
+            throw lockTimeoutError(name);
+          }
+          await wait(name, Math.min(LOCK_RETRY_MS, remaining));
+        }
+      } catch (error) {
+        releaseLocal();
+        throw error;
+      }
+    }
+  };
+}
+
+// Web Locks in current browsers, the broadcast protocol in older ones, in-tab only elsewhere
+export function createDefaultLockProvider(): LockProvider {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return createWebLockProvider(navigator.locks);
+  }
+  if (typeof window !== 'undefined' && typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastLockProvider();
+  }
+  return createLocalLockProvider();
+}
+
+let lockProvider: LockProvider | null = null;
+
+export function getLockProvider(): LockProvider {
+  if (!lockProvider) {
+    lockProvider = createDefaultLockProvider();
+  }
+  return lockProvider;
+}
+
+// Swap the provider, e.g. to simulate two tabs in tests
+export function setLockProvider(provider: LockProvider): void {
+  lockProvider = provider;
+}
+
+// Resolves with a release function once this tab holds the lock; throws if timeoutMs passes first
+export function acquireLock(name: string, timeoutMs: number = LOCK_TIMEOUT_MS): Promise<ReleaseLock> {
+  return getLockProvider().acquire(name, timeoutMs);
+}
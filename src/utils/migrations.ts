@@ -0,0 +1,80 @@
+// Migration registry for stored user records: each step upgrades one schemaVersion to the next
+import type { BuiltInRole } from '../types';
+import { BUILT_IN_ROLES } from './permissions';
+
+export type StoredRecord = Record<string, unknown>;
+
+export interface RecordMigration {
+  from: number; // Upgrades records at this version to from + 1
+  description: string;
+  migrate: (record: StoredRecord) => StoredRecord;
+}
+
+// Append new steps here and bump USER_SCHEMA_VERSION; never edit a step that has shipped
+export const USER_MIGRATIONS: RecordMigration[] = [
+  {
+    from: 0,
+    description: 'Records from before expiry and revocation default to active and never expiring',
+    migrate: record => ({
+      ...record,
+      status: record.status ?? 'active',
+      expiresAt: record.expiresAt ?? null
+    })
+  },
+  {
+    from: 1,
+    description: 'Records from before compare-and-swap saves start at revision 0',
+    migrate: record => ({
+      ...record,
+      revision: record.revision ?? 0
+    })
+  },
+  {
+    from: 2,
+    description: 'Records from before the permission catalog only hold read:dashboard; add their built-in role bundle',
+    migrate: record => {
+      if (typeof record.role !== 'string' || !Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, record.role)) {
+        return record;
+      }
+      const permissions = Array.isArray(record.permissions) ? record.permissions as unknown[] : [];
+      const bundle = BUILT_IN_ROLES[record.role as BuiltInRole].permissions;
+      return { ...record, permissions: [...new Set([...permissions, ...bundle])] };
+    }
+  }
+];
+
+export const USER_SCHEMA_VERSION = 3;
+
+// Records written before versioning carry no schemaVersion and count as version 0
+export function getSchemaVersion(record: StoredRecord): number {
+  return typeof record.schemaVersion === 'number' ? record.schemaVersion : 0;
+}
+
+export interface MigrationResult {
+  record: StoredRecord;
+  fromVersion: number;
+  migrated: boolean;
+}
+
+// Throws when the record is newer than this build or a step is missing; storage quarantines those
+export function migrateRecord(
+  record: StoredRecord,
+  migrations: RecordMigration[] = USER_MIGRATIONS,
+  targetVersion: number = USER_SCHEMA_VERSION
+): MigrationResult {
+  const fromVersion = getSchemaVersion(record);
+  if (fromVersion > targetVersion) {
+    throw new Error(`Record schema version ${fromVersion} is newer than supported version ${targetVersion}`);
+  }
+
+  let current = record;
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const step = migrations.find(migration => migration.from === version);
+    if (!step) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    current = { ...step.migrate(current), schemaVersion: version + 1 };
+  }
+
+  return { record: current, fromVersion, migrated: fromVersion !== targetVersion };
+}
@@ -0,0 +1,103 @@
+// Authorization: permission catalog and checks against UserData.permissions
+import type { BuiltInRole, Page, RoleDefinition, UserData } from '../types';
+
+export const PERMISSIONS = {
+  readDashboard: 'read:dashboard',
+  modifySettings: 'modify:settings',
+  manageProviders: 'manage:providers',
+  adminAccess: 'admin:access',
+} as const;
+
+export type PermissionKey = keyof typeof PERMISSIONS;
+export type Permission = typeof PERMISSIONS[PermissionKey];
+
+export const PERMISSION_CATALOG: Record<Permission, { label: string; description: string }> = {
+  'read:dashboard': {
+    label: 'Read Dashboard',
+    description: 'View usage statistics and the activity log'
+  },
+  'modify:settings': {
+    label: 'Modify Settings',
+    description: 'Open Settings and change general preferences'
+  },
+  'manage:providers': {
+    label: 'Manage Providers',
+    description: 'Add, edit and delete provider API keys'
+  },
+  'admin:access': {
+    label: 'Admin Access',
+    description: 'Use the Admin panel; implies every other permission'
+  },
+};
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[];
+
+// Roles that always exist; their bundles can be edited but the roles cannot be deleted
+export const BUILT_IN_ROLES: Record<BuiltInRole, Omit<RoleDefinition, 'createdAt' | 'updatedAt'>> = {
+  user: {
+    id: 'user',
+    name: 'User',
+    description: 'Read-only access to the dashboard',
+    permissions: [PERMISSIONS.readDashboard],
+    builtIn: true
+  },
+  manager: {
+    id: 'manager',
+    name: 'Manager',
+    description: 'Manages settings and provider keys',
+    permissions: [PERMISSIONS.readDashboard, PERMISSIONS.modifySettings, PERMISSIONS.manageProviders],
+    builtIn: true
+  },
+  admin: {
+    id: 'admin',
+    name: 'Admin',
+    description: 'Full access including the Admin panel',
+    permissions: [...ALL_PERMISSIONS],
+    builtIn: true
+  },
+};
+
+// Permission required to open each page
+export const PAGE_PERMISSIONS: Record<Page, Permission> = {
+  dashboard: PERMISSIONS.readDashboard,
+  settings: PERMISSIONS.modifySettings,
+  admin: PERMISSIONS.adminAccess,
+};
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+// admin:access acts as a superuser grant so admins are never locked out of a page
+export function can(user: UserData | null, permission: Permission): boolean {
+  if (!user) {
+    return false;
+  }
+  return user.permissions.includes(permission) || user.permissions.includes(PERMISSIONS.adminAccess);
+}
+
+export function canAccessPage(user: UserData | null, page: Page): boolean {
+  return can(user, PAGE_PERMISSIONS[page]);
+}
+
+// First page the user may open, used to redirect away from a denied page
+export function getDefaultPage(user: UserData | null): Page | null {
+  const pages: Page[] = ['dashboard', 'settings', 'admin'];
+  return pages.find(page => canAccessPage(user, page)) ?? null;
+}
+
+// Translate a { readDashboard: true, ... } checkbox map into stored permission strings
+export function permissionsFromFlags(flags: Partial<Record<PermissionKey, boolean>>): Permission[] {
+  return (Object.keys(PERMISSIONS) as PermissionKey[])
+    .filter(key => flags[key])
+    .map(key => PERMISSIONS[key]);
+}
+
+// Inverse of permissionsFromFlags, used to preset checkboxes from a role bundle
+export function flagsFromPermissions(permissions: string[]): Record<PermissionKey, boolean> {
+  const flags = {} as Record<PermissionKey, boolean>;
+  (Object.keys(PERMISSIONS) as PermissionKey[]).forEach(key => {
+    flags[key] = permissions.includes(PERMISSIONS[key]);
+  });
+  return flags;
+}
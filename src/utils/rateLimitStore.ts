@@ -0,0 +1,97 @@
+// Rate limit state stores: in-memory for tests/servers, localStorage so lockouts survive reloads
+import type { RateLimitState } from '../types';
+
+export interface RateLimitStore {
+  get(identifier: string): RateLimitState | null;
+  set(identifier: string, state: RateLimitState): void;
+  delete(identifier: string): void;
+}
+
+const RATE_LIMIT_PREFIX = 'api_token_monitor_v2_ratelimit_';
+
+// A damaged entry may have been a lockout, so it is replaced by one as long as the default first lockout
+const CORRUPT_ENTRY_LOCKOUT = 15 * 60 * 1000;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitState>();
+
+  return {
+    get: (identifier) => {
+      const state = entries.get(identifier);
+      return state ? { ...state } : null;
+    },
+    set: (identifier, state) => {
+      entries.set(identifier, { ...state });
+    },
+    delete: (identifier) => {
+      entries.delete(identifier);
+    }
+  };
+}
+
+function isRateLimitState(value: unknown): value is RateLimitState {
+  const state = value as RateLimitState;
+  return typeof state === 'object' && state !== null &&
+    typeof state.attempts === 'number' &&
+    typeof state.lastAttempt === 'number' &&
+    (state.lockedUntil === null || typeof state.lockedUntil === 'number');
+}
+
+// Storage is resolved on every call so a stubbed or late-initialised localStorage is honoured
+export function createLocalStorageRateLimitStore(
+  getStorage: () => Storage = () => localStorage,
+  prefix: string = RATE_LIMIT_PREFIX
+): RateLimitStore {
+  return {
+    get: (identifier) => {
+      let data: string | null;
+      try {
+        data = getStorage().getItem(prefix + identifier);
+      } catch {
+        return null; // Storage unavailable: nothing was persisted to enforce
+      }
+      if (!data) return null;
+
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        // Handled below with invalid shapes
+      }
+      if (isRateLimitState(parsed)) {
+        return parsed;
+      }
+
+      // Fail closed: an unreadable entry locks the identifier instead of clearing its attempts
+      const now = Date.now();
+      const locked: RateLimitState = { attempts: 0, lastAttempt: now, lockedUntil: now + CORRUPT_ENTRY_LOCKOUT };
+      try {
+        getStorage().setItem(prefix + identifier, JSON.stringify(locked));
+      } catch (e) {
+        console.error('Failed to persist rate limit state:', e);
+      }
+      return locked;
+    },
+    set: (identifier, state) => {
+      try {
+        getStorage().setItem(prefix + identifier, JSON.stringify(state));
+      } catch (e) {
+        console.error('Failed to persist rate limit state:', e);
+      }
+    },
+    delete: (identifier) => {
+      try {
+        getStorage().removeItem(prefix + identifier);
+      } catch (e) {
+        console.error('Failed to clear rate limit state:', e);
+      }
+    }
+  };
+}
+
+// Persist when the browser offers localStorage, otherwise fall back to memory
+export function createDefaultRateLimitStore(): RateLimitStore {
+  return typeof localStorage !== 'undefined'
+    ? createLocalStorageRateLimitStore()
+    : createMemoryRateLimitStore();
+}
@@ -0,0 +1,67 @@
+// Three-way merges for a user record that lost a compare-and-swap race:
+// base is what the editor loaded, mine is their edit, theirs is what is stored now
+import type { ApiKey, UserData } from '../types';
+
+// Bookkeeping fields that are never merged or reported
+const IGNORED_FIELDS = ['revision', 'schemaVersion', 'lastAccess'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldsOf = (user: UserData) => user as unknown as Record<string, unknown>;
+
+// Keys are matched by id: my additions, removals and edits apply on top of theirs
+export function mergeApiKeys(base: ApiKey[], mine: ApiKey[], theirs: ApiKey[]): ApiKey[] {
+  const baseById = new Map(base.map(key => [key.id, key]));
+  const mineById = new Map(mine.map(key => [key.id, key]));
+
+  const merged = theirs
+    .filter(key => !baseById.has(key.id) || mineById.has(key.id))
+    .map(key => {
+      const edited = mineById.get(key.id);
+      return edited && !sameValue(edited, baseById.get(key.id)) ? edited : key;
+    });
+  const added = mine.filter(key => !baseById.has(key.id) && !merged.some(existing => existing.id === key.id));
+
+  return [...merged, ...added];
+}
+
+// Set merge: theirs, plus what I granted, minus what I removed
+export function mergePermissions(base: string[], mine: string[], theirs: string[]): string[] {
+  const granted = mine.filter(permission => !base.includes(permission));
+  const removed = base.filter(permission => !mine.includes(permission));
+  return [...new Set([...theirs, ...granted])].filter(permission => !removed.includes(permission));
+}
+
+// Other fields both sides changed to different values; merging keeps mine, so show these first
+export function findConflictingFields(base: UserData, mine: UserData, theirs: UserData): string[] {
+  const [b, m, t] = [fieldsOf(base), fieldsOf(mine), fieldsOf(theirs)];
+  const fields = new Set([...Object.keys(b), ...Object.keys(m), ...Object.keys(t)]);
+
+  return [...fields].filter(field =>
+    !IGNORED_FIELDS.includes(field) && field !== 'apiKeys' && field !== 'permissions' &&
+    !sameValue(m[field], b[field]) && !sameValue(t[field], b[field]) && !sameValue(m[field], t[field])
+  );
+}
+
+// apiKeys and permissions merge entry by entry; any other field I changed replaces theirs.
+// The result carries their revision, so saving it is a fresh compare-and-swap.
+export function mergeUserData(base: UserData, mine: UserData, theirs: UserData): UserData {
+  const [b, m] = [fieldsOf(base), fieldsOf(mine)];
+  const merged = { ...fieldsOf(theirs) };
+
+  for (const field of new Set([...Object.keys(b), ...Object.keys(m)])) {
+    if (IGNORED_FIELDS.includes(field) || sameValue(m[field], b[field])) continue;
+    if (m[field] === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = m[field];
+    }
+  }
+
+  return {
+    ...(merged as unknown as UserData),
+    apiKeys: mergeApiKeys(base.apiKeys, mine.apiKeys, theirs.apiKeys),
+    permissions: mergePermissions(base.permissions, mine.permissions, theirs.permissions),
+    revision: theirs.revision
+  };
+}
@@ -0,0 +1,153 @@
+// Role registry: custom permission bundles that propagate to every holder
+import type { RoleDefinition, UserData } from '../types';
+import { loadRole, saveRole, deleteRole, listAllUsers, saveUserData, updateUserRecord } from './storage';
+import { isPermission, PERMISSIONS } from './permissions';
+import { logAuditEvent } from './audit';
+
+export interface RoleInput {
+  id: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+// Lowercase slug so role ids are safe to show in badges and audit records
+export function isValidRoleId(id: string): boolean {
+  return /^[a-z][a-z0-9-]{1,31}$/.test(id);
+}
+
+export function slugifyRoleName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32);
+}
+
+function validatePermissions(permissions: string[]): string[] {
+  const unknown = permissions.filter(permission => !isPermission(permission));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown permission: ${unknown.join(', ')}`);
+  }
+  return [...new Set(permissions)];
+}
+
+export async function defineRole(input: RoleInput, actorUuid: string): Promise<RoleDefinition> {
+  if (!isValidRoleId(input.id)) {
+    throw new Error('Invalid role id');
+  }
+  if (!input.name.trim()) {
+    throw new Error('Role name is required');
+  }
+  if (await loadRole(input.id)) {
+    throw new Error('Role already exists');
+  }
+
+  const now = new Date().toISOString();
+  const role: RoleDefinition = {
+    id: input.id,
+    name: input.name.trim(),
+    description: input.description?.trim() ?? '',
+    permissions: validatePermissions(input.permissions),
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await saveRole(role);
+  logAuditEvent({ type: 'ROLE_CREATED', actor: actorUuid, target: role.id, outcome: 'success', permissions: role.permissions });
+  return role;
+}
+
+// Swap the old bundle for the new one on a user, keeping permissions granted individually
+export function applyRoleChange(user: UserData, previous: string[], next: string[]): UserData {
+  const individual = user.permissions.filter(permission => !previous.includes(permission));
+  return { ...user, permissions: [...new Set([...next, ...individual])] };
+}
+
+export interface RoleUpdateResult {
+  role: RoleDefinition;
+  holdersUpdated: number;
+}
+
+export async function updateRole(
+  id: string,
+  changes: Omit<Partial<RoleInput>, 'id'>,
+  actorUuid: string
+): Promise<RoleUpdateResult> {
+  const existing = await loadRole(id);
+  if (!existing) {
+    throw new Error('Role not found');
+  }
+
+  const permissions = changes.permissions ? validatePermissions(changes.permissions) : existing.permissions;
+  if (id === 'admin' && !permissions.includes(PERMISSIONS.adminAccess)) {
+    throw new Error('The admin role must keep admin:access');
+  }
+
+  const role: RoleDefinition = {
+    ...existing,
+    name: changes.name?.trim() || existing.name,
+    description: changes.description?.trim() ?? existing.description,
+    permissions,
+    updatedAt: new Date().toISOString()
+  };
+  await saveRole(role);
+
+  let holdersUpdated = 0;
+  for (const user of await listAllUsers()) {
+    if (user.role !== id) continue;
+    await updateUserRecord(user.uuid, current =>
+      current.role === id ? applyRoleChange(current, existing.permissions, role.permissions) : null
+    );
+    holdersUpdated++;
+  }
+
+  logAuditEvent({
+    type: 'ROLE_UPDATED',
+    actor: actorUuid,
+    target: id,
+    outcome: 'success',
+    permissions: role.permissions,
+    holdersUpdated
+  });
+  return { role, holdersUpdated };
+}
+
+export async function deleteCustomRole(id: string, actorUuid: string): Promise<void> {
+  const existing = await loadRole(id);
+  if (!existing) {
+    throw new Error('Role not found');
+  }
+  if (existing.builtIn) {
+    throw new Error('Built-in roles cannot be deleted');
+  }
+
+  const holders = (await listAllUsers()).filter(user => user.role === id);
+  if (holders.length > 0) {
+    throw new Error(`Role is still assigned to ${holders.length} user(s)`);
+  }
+
+  await deleteRole(id);
+  logAuditEvent({ type: 'ROLE_DELETED', actor: actorUuid, target: id, outcome: 'success' });
+}
+
+// Admin edit of one user's role and permissions; user is the copy the admin was shown, so a
+// change made since then surfaces as a RevisionConflictError instead of being overwritten
+export async function changeUserAccess(
+  user: UserData,
+  roleId: string,
+  permissions: string[],
+  actorUuid: string
+): Promise<UserData> {
+  if (!await loadRole(roleId)) {
+    throw new Error('Role not found');
+  }
+
+  const saved = await saveUserData({ ...user, role: roleId, permissions: validatePermissions(permissions) });
+  logAuditEvent({
+    type: 'USER_ACCESS_CHANGED',
+    actor: actorUuid,
+    target: user.uuid,
+    outcome: 'success',
+    role: saved.role,
+    permissions: saved.permissions
+  });
+  return saved;
+}
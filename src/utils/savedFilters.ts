@@ -0,0 +1,28 @@
+// Dashboard filter presets: per-browser UI state, kept in localStorage next to the records
+import type { SavedFilter } from '../types';
+import { savedFilterSchema, validateRecord } from './schemas';
+
+const SAVED_FILTERS_KEY = 'api-token-monitor-saved-filters';
+
+// Unreadable or invalid entries are dropped rather than breaking the dashboard
+export function loadSavedFilters(getStorage: () => Storage = () => localStorage): SavedFilter[] {
+  try {
+    const data = getStorage().getItem(SAVED_FILTERS_KEY);
+    const parsed: unknown = data ? JSON.parse(data) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap(value => {
+      const result = validateRecord(savedFilterSchema, value);
+      return result.success ? [result.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function storeSavedFilters(filters: SavedFilter[], getStorage: () => Storage = () => localStorage): void {
+  try {
+    getStorage().setItem(SAVED_FILTERS_KEY, JSON.stringify(filters));
+  } catch (e) {
+    console.error('Failed to persist saved filters:', e);
+  }
+}
@@ -0,0 +1,171 @@
+// Zod schemas for every persisted record; storage validates against these on load and save
+import { z } from 'zod';
+import type {
+  AuditEntry,
+  BackupManifest,
+  BreakGlassRecord,
+  KeyRotationRequest,
+  RoleDefinition,
+  SavedFilter,
+  SetupRecord,
+  Session,
+  UserData
+} from '../types';
+
+const timestamp = z.string().min(1);
+
+const apiKeyRecordSchema = z.object({
+  id: z.string(),
+  provider: z.string(),
+  key: z.string(),
+  usage: z.number(),
+  limit: z.number()
+});
+
+const retiringTokenSchema = z.object({
+  tokenHash: z.string().min(1),
+  tokenId: z.string().optional(),
+  rotatedAt: timestamp,
+  retiresAt: timestamp
+});
+
+const totpEnrollmentSchema = z.object({
+  secret: z.string().min(1),
+  enabledAt: timestamp,
+  lastUsedStep: z.number().int(),
+  recoveryCodes: z.array(z.string())
+});
+
+const vaultKeyMaterialSchema = z.object({
+  source: z.enum(['token', 'passphrase']),
+  salt: z.array(z.number().int()),
+  iterations: z.number().int().positive().optional(),
+  verifier: z.string().min(1),
+  rotatedAt: timestamp.optional()
+});
+
+const vaultConfigSchema = vaultKeyMaterialSchema.extend({
+  pending: vaultKeyMaterialSchema.optional()
+});
+
+const tokenScopeSchema = z.object({
+  providers: z.array(z.string()).nullable(),
+  readOnly: z.boolean(),
+  sections: z.array(z.enum(['overview', 'providers', 'activity'])).nullable()
+});
+
+export const userDataSchema = z.object({
+  schemaVersion: z.number().int().nonnegative().optional(),
+  revision: z.number().int().nonnegative(),
+  uuid: z.string().uuid(),
+  tokenHash: z.string().min(1),
+  tokenId: z.string().optional(),
+  apiKeys: z.array(apiKeyRecordSchema),
+  createdAt: timestamp,
+  lastAccess: timestamp,
+  role: z.string().min(1),
+  permissions: z.array(z.string()),
+  status: z.enum(['active', 'revoked']),
+  expiresAt: timestamp.nullable(),
+  revokedAt: timestamp.optional(),
+  revokedReason: z.string().optional(),
+  retiringTokens: z.array(retiringTokenSchema).optional(),
+  totp: totpEnrollmentSchema.optional(),
+  scope: tokenScopeSchema.optional(),
+  vault: vaultConfigSchema.optional()
+}) satisfies z.ZodType<UserData>;
+
+export const roleDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  permissions: z.array(z.string()),
+  builtIn: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+}) satisfies z.ZodType<RoleDefinition>;
+
+export const sessionSchema = z.object({
+  id: z.string().regex(/^[0-9a-f]{64}$/),
+  userUuid: z.string().min(1),
+  createdAt: z.number(),
+  lastSeen: z.number(),
+  breakGlass: z.object({
+    codeId: z.string().min(1),
+    expiresAt: z.number(),
+    mintedAt: z.number().optional()
+  }).optional()
+}) satisfies z.ZodType<Session>;
+
+export const setupRecordSchema = z.object({
+  completedAt: timestamp,
+  adminUuid: z.string().min(1)
+}) satisfies z.ZodType<SetupRecord>;
+
+export const keyRotationRequestSchema = z.object({
+  requestedAt: timestamp,
+  requestedBy: z.string().min(1)
+}) satisfies z.ZodType<KeyRotationRequest>;
+
+export const breakGlassRecordSchema = z.object({
+  generatedAt: timestamp,
+  generatedBy: z.string().min(1),
+  total: z.number().int().nonnegative(),
+  codes: z.array(z.object({ id: z.string().min(1), hash: z.string().min(1) }))
+}) satisfies z.ZodType<BreakGlassRecord>;
+
+export const auditEntrySchema = z.object({
+  seq: z.number().int().nonnegative(),
+  timestamp,
+  event: z.string().min(1),
+  details: z.record(z.unknown()),
+  prevHash: z.string(),
+  hash: z.string()
+}) satisfies z.ZodType<AuditEntry>;
+
+// Number of audit entries stored one per key
+export const auditHeadSchema = z.object({
+  length: z.number().int().nonnegative()
+});
+
+export const savedFilterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  providerFilter: z.string(),
+  statusFilter: z.string()
+}) satisfies z.ZodType<SavedFilter>;
+
+const backupCount = z.number().int().nonnegative();
+
+export const backupManifestSchema = z.object({
+  format: z.literal('api-token-monitor-backup'),
+  version: z.number().int().positive(),
+  createdAt: timestamp,
+  createdBy: z.string().nullable(),
+  userSchemaVersion: z.number().int().nonnegative(),
+  counts: z.object({
+    users: backupCount,
+    roles: backupCount,
+    setup: backupCount,
+    keyRotation: backupCount,
+    auditLog: backupCount,
+    savedFilters: backupCount
+  }),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/)
+}) satisfies z.ZodType<BackupManifest>;
+
+export type ValidationResult<T> = { success: true; data: T } | { success: false; reason: string };
+
+// One line per issue, e.g. "status: Invalid enum value"
+export function formatSchemaError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+export function validateRecord<T>(schema: z.ZodType<T>, value: unknown): ValidationResult<T> {
+  const result = schema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, reason: formatSchemaError(result.error) };
+}
@@ -0,0 +1,97 @@
+// Token scopes: narrow which providers and dashboard sections a token reaches, and whether it may write
+import { PROVIDERS, type DashboardSection, type TokenScope, type UserData } from '../types';
+import { can, PERMISSIONS } from './permissions';
+
+export const DASHBOARD_SECTIONS: Record<DashboardSection, { label: string }> = {
+  overview: { label: 'Usage Overview' },
+  providers: { label: 'Provider Usage' },
+  activity: { label: 'Activity Log' },
+};
+
+export const ALL_SECTIONS = Object.keys(DASHBOARD_SECTIONS) as DashboardSection[];
+
+export const FULL_SCOPE: TokenScope = { providers: null, readOnly: false, sections: null };
+
+export function getTokenScope(user: UserData | null): TokenScope {
+  return user?.scope ?? FULL_SCOPE;
+}
+
+export function isRestrictedScope(scope: TokenScope): boolean {
+  return scope.readOnly || scope.providers !== null || scope.sections !== null;
+}
+
+// Validate a scope before storing it; an unrestricted scope is dropped so the user reads as unscoped
+export function normalizeTokenScope(scope: TokenScope | undefined): TokenScope | undefined {
+  if (!scope || !isRestrictedScope(scope)) {
+    return undefined;
+  }
+
+  const unknownProvider = scope.providers?.find(id => !PROVIDERS.some(p => p.id === id));
+  if (unknownProvider) {
+    throw new Error(`Unknown provider in scope: ${unknownProvider}`);
+  }
+  const unknownSection = scope.sections?.find(section => !ALL_SECTIONS.includes(section));
+  if (unknownSection) {
+    throw new Error(`Unknown dashboard section in scope: ${unknownSection}`);
+  }
+
+  return {
+    providers: scope.providers ? [...new Set(scope.providers)] : null,
+    readOnly: scope.readOnly,
+    sections: scope.sections ? [...new Set(scope.sections)] : null
+  };
+}
+
+export function canAccessProvider(user: UserData | null, providerId: string): boolean {
+  if (!user) {
+    return false;
+  }
+  const { providers } = getTokenScope(user);
+  return providers === null || providers.includes(providerId);
+}
+
+// Adding, editing and deleting a key needs manage:providers and a writable scope covering the provider
+export function canModifyProvider(user: UserData | null, providerId: string): boolean {
+  return can(user, PERMISSIONS.manageProviders) && !getTokenScope(user).readOnly && canAccessProvider(user, providerId);
+}
+
+// Issuing, editing, rotating and revoking tokens, role edits, restores and the other Admin panel
+// changes need admin:access and a writable scope; a read-only admin token can only look
+export function canAdminister(user: UserData | null): boolean {
+  return can(user, PERMISSIONS.adminAccess) && !getTokenScope(user).readOnly;
+}
+
+// Plaintext keys are as sensitive as changing them, so read-only tokens never see one
+export function canRevealProviderKey(user: UserData | null, providerId: string): boolean {
+  return !getTokenScope(user).readOnly && canAccessProvider(user, providerId);
+}
+
+export function canViewSection(user: UserData | null, section: DashboardSection): boolean {
+  if (!user) {
+    return false;
+  }
+  const { sections } = getTokenScope(user);
+  return sections === null || sections.includes(section);
+}
+
+// Keep only the items whose provider the token may see
+export function filterByProvider<T>(user: UserData | null, items: T[], getProviderId: (item: T) => string): T[] {
+  return items.filter(item => canAccessProvider(user, getProviderId(item)));
+}
+
+// Activity rows carry the provider's display name rather than its id
+export function getProviderIdByName(name: string): string {
+  return PROVIDERS.find(p => p.name.toLowerCase() === name.toLowerCase())?.id ?? name.toLowerCase();
+}
+
+// Short label for the Admin user table, e.g. "Anthropic · Read-only"
+export function describeTokenScope(scope: TokenScope): string {
+  const parts = [
+    scope.providers ? scope.providers.map(id => PROVIDERS.find(p => p.id === id)?.name ?? id).join(', ') || 'No providers' : 'All providers',
+    scope.readOnly ? 'Read-only' : 'Read/write'
+  ];
+  if (scope.sections) {
+    parts.push(scope.sections.map(section => DASHBOARD_SECTIONS[section].label).join(', ') || 'No sections');
+  }
+  return parts.join(' · ');
+}
@@ -0,0 +1,119 @@
+// Session management: opaque session ids with idle timeout and absolute expiry
+import type { BreakGlassGrant, Session } from '../types';
+import { generateSessionId } from './crypto';
+import { saveSession, loadSession, deleteSession, updateSession } from './storage';
+import { logAuditEvent } from './audit';
+
+const SESSION_ID_KEY = 'api_token_monitor_v2_session_id';
+
+export interface SessionConfig {
+  idleTimeout: number; // ms without activity before the session ends
+  absoluteLifetime: number; // ms after creation regardless of activity
+  persistence: 'session' | 'local'; // sessionStorage (per tab) or localStorage
+}
+
+export type SessionStatus = 'active' | 'idle_timeout' | 'expired';
+
+export type SessionCheck =
+  | { valid: true; session: Session }
+  | { valid: false; reason: SessionStatus | 'missing' };
+
+// Configurable via VITE_SESSION_IDLE_MINUTES, VITE_SESSION_MAX_HOURS and VITE_SESSION_PERSISTENCE
+export function getSessionConfig(): SessionConfig {
+  const idleMinutes = Number(import.meta.env.VITE_SESSION_IDLE_MINUTES) || 30;
+  const maxHours = Number(import.meta.env.VITE_SESSION_MAX_HOURS) || 12;
+
+  return {
+    idleTimeout: idleMinutes * 60 * 1000,
+    absoluteLifetime: maxHours * 60 * 60 * 1000,
+    persistence: import.meta.env.VITE_SESSION_PERSISTENCE === 'local' ? 'local' : 'session'
+  };
+}
+
+function getBrowserStorage(config: SessionConfig): Storage {
+  return config.persistence === 'local' ? localStorage : sessionStorage;
+}
+
+export function getSessionStatus(session: Session, config: SessionConfig, now: number = Date.now()): SessionStatus {
+  if (now - session.createdAt >= config.absoluteLifetime || (session.breakGlass && now >= session.breakGlass.expiresAt)) {
+    return 'expired';
+  }
+  if (now - session.lastSeen >= config.idleTimeout) {
+    return 'idle_timeout';
+  }
+  return 'active';
+}
+
+export async function startSession(
+  userUuid: string,
+  config: SessionConfig = getSessionConfig(),
+  breakGlass?: BreakGlassGrant
+): Promise<Session> {
+  const now = Date.now();
+  const session: Session = {
+    id: generateSessionId(),
+    userUuid,
+    createdAt: now,
+    lastSeen: now,
+    ...(breakGlass ? { breakGlass } : {})
+  };
+
+  await saveSession(session);
+  getBrowserStorage(config).setItem(SESSION_ID_KEY, session.id);
+  logAuditEvent({ type: 'SESSION_STARTED', actor: userUuid, target: userUuid, outcome: 'success' });
+  return session;
+}
+
+// Look up the session held by this browser and end it if it has lapsed
+export async function resumeSession(config: SessionConfig = getSessionConfig()): Promise<SessionCheck> {
+  const id = getBrowserStorage(config).getItem(SESSION_ID_KEY);
+  if (!id) {
+    return { valid: false, reason: 'missing' };
+  }
+
+  const session = await loadSession(id);
+  if (!session) {
+    getBrowserStorage(config).removeItem(SESSION_ID_KEY);
+    return { valid: false, reason: 'missing' };
+  }
+
+  const status = getSessionStatus(session, config);
+  if (status !== 'active') {
+    await deleteSession(id);
+    getBrowserStorage(config).removeItem(SESSION_ID_KEY);
+    logAuditEvent({
+      type: 'SESSION_EXPIRED',
+      actor: null,
+      target: session.userUuid,
+      outcome: 'denied',
+      reason: status
+    });
+    return { valid: false, reason: status };
+  }
+
+  return { valid: true, session };
+}
+
+// Record activity so the idle timer restarts
+export async function touchSession(config: SessionConfig = getSessionConfig()): Promise<void> {
+  const id = getBrowserStorage(config).getItem(SESSION_ID_KEY);
+  if (!id) return;
+
+  await updateSession(id, async session => {
+    if (!session || getSessionStatus(session, config) !== 'active') return null;
+    return { ...session, lastSeen: Date.now() };
+  });
+}
+
+// This browser forgets the session first, so it is signed out even if the stored copy cannot be removed
+export async function endSession(config: SessionConfig = getSessionConfig()): Promise<void> {
+  const id = getBrowserStorage(config).getItem(SESSION_ID_KEY);
+  if (!id) return;
+
+  getBrowserStorage(config).removeItem(SESSION_ID_KEY);
+  const session = await loadSession(id);
+  await deleteSession(id);
+  if (session) {
+    logAuditEvent({ type: 'SESSION_ENDED', actor: session.userUuid, target: session.userUuid, outcome: 'success' });
+  }
+}
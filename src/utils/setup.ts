@@ -0,0 +1,30 @@
+// First-run setup: provisions the initial admin credential when the install has none
+import type { UserData } from '../types';
+import { hasStoredUsers, loadSetupRecord, completeSetup } from './storage';
+import { logAuditEvent } from './audit';
+import { generateSecureToken, getTokenLookupId, hashToken } from './crypto';
+
+// Shown only on a truly empty install: no setup marker, no user records and no env admin hash.
+// Any VITE_ADMIN_TOKEN_HASH counts, even one auth ignores, so a typo cannot reopen the wizard
+export async function needsSetup(): Promise<boolean> {
+  if (import.meta.env.VITE_ADMIN_TOKEN_HASH || await loadSetupRecord()) {
+    return false;
+  }
+  return !await hasStoredUsers();
+}
+
+export interface SetupResult {
+  token: string; // Shown once by the wizard, never stored
+  user: UserData;
+}
+
+export async function runFirstRunSetup(): Promise<SetupResult> {
+  if (!await needsSetup()) {
+    throw new Error('Setup has already been completed');
+  }
+
+  const token = generateSecureToken();
+  const user = await completeSetup(await hashToken(token), await getTokenLookupId(token));
+  logAuditEvent({ type: 'SETUP_COMPLETED', actor: null, target: user.uuid, outcome: 'success' });
+  return { token, user };
+}
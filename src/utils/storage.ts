@@ -1,47 +1,165 @@
-// File operations with locking using localStorage for persistence
-import type { UserData } from '../types';
-import { generateUUID } from './crypto';
+// Record operations under cross-tab locks, persisted through the configured StorageAdapter
+import type {
+  AuditEntry,
+  BackupDataset,
+  BreakGlassRecord,
+  KeyRotationRequest,
+  QuarantinedRecord,
+  RetiringToken,
+  RoleDefinition,
+  Session,
+  SetupRecord,
+  TokenScope,
+  UserData
+} from '../types';
+import type { z } from 'zod';
+import { generateUUID, getTokenLookupId, verifyToken } from './crypto';
+import { BUILT_IN_ROLES } from './permissions';
+import { publishChange } from './changeFeed';
+import { acquireLock } from './locks';
+import { migrateRecord, type MigrationResult, type StoredRecord } from './migrations';
+import {
+  auditEntrySchema,
+  auditHeadSchema,
+  breakGlassRecordSchema,
+  keyRotationRequestSchema,
+  roleDefinitionSchema,
+  sessionSchema,
+  setupRecordSchema,
+  userDataSchema,
+  validateRecord,
+  type ValidationResult
+} from './schemas';
+import { normalizeTokenScope } from './scopes';
+import { createStorageAdapter, type StorageAdapter, type StorageTransaction } from './storageAdapter';
 
-// Simulated file locking using in-memory locks
-const locks = new Map<string, Promise<void>>();
+const STORAGE_PREFIX = 'api_token_monitor_v2_';
+const USERS_KEY = `${STORAGE_PREFIX}users_index`;
+const ROLES_KEY = `${STORAGE_PREFIX}roles`;
+const SETUP_KEY = `${STORAGE_PREFIX}setup`;
+const KEY_ROTATION_KEY = `${STORAGE_PREFIX}key_rotation`;
+const BREAK_GLASS_KEY = `${STORAGE_PREFIX}break_glass`;
+const TOKEN_INDEX_KEY = `${STORAGE_PREFIX}token_index`;
+const AUDIT_HEAD_KEY = `${STORAGE_PREFIX}audit_head`;
+const AUDIT_ENTRY_PREFIX = `${STORAGE_PREFIX}audit_entry_`;
+const LEGACY_AUDIT_LOG_KEY = `${STORAGE_PREFIX}audit_log`; // Whole log as one array, before per-entry keys
+const QUARANTINE_PREFIX = `${STORAGE_PREFIX}quarantine_`;
+
+let storageAdapter: StorageAdapter | null = null;
 
-async function acquireLock(key: string): Promise<() => void> {
-  while (locks.has(key)) {
-    await locks.get(key);
+// Backend for every persisted record, created from VITE_STORAGE_BACKEND on first use
+export function getStorageAdapter(): StorageAdapter {
+  if (!storageAdapter) {
+    storageAdapter = createStorageAdapter();
   }
+  return storageAdapter;
+}
 
-  let release: () => void;
-  const lockPromise = new Promise<void>((resolve) => {
-    release = resolve;
-  });
-  locks.set(key, lockPromise);
+// Swap the backend, e.g. createMemoryStorageAdapter() in tests
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  storageAdapter = adapter;
+}
 
-  return () => {
-    locks.delete(key);
-    release!();
-  };
+// Quarantined copies live under their own prefix, keyed by the key they came from
+function getQuarantineKey(key: string): string {
+  return `${QUARANTINE_PREFIX}${key.slice(STORAGE_PREFIX.length)}`;
 }
 
-const STORAGE_PREFIX = 'api_token_monitor_v2_';
-const USERS_KEY = `${STORAGE_PREFIX}users_index`;
+function toQuarantine(key: string, value: unknown, reason: string): QuarantinedRecord {
+  console.warn(`Quarantined stored record ${key}: ${reason}`);
+  return { key, value, reason, quarantinedAt: new Date().toISOString() };
+}
 
-// Get users index from localStorage
-function getUsersIndex(): string[] {
+function stageQuarantine(tx: StorageTransaction, key: string, value: unknown, reason: string): void {
+  tx.put(getQuarantineKey(key), toQuarantine(key, value, reason));
+}
+
+// For records that must stay in place (setup marker, audit log): copy once, leave the original
+async function quarantineCopy(key: string, value: unknown, reason: string): Promise<void> {
+  const adapter = getStorageAdapter();
+  if (!await adapter.get(getQuarantineKey(key))) {
+    await adapter.put(getQuarantineKey(key), toQuarantine(key, value, reason));
+  }
+}
+
+interface StoredValue {
+  value: unknown; // null when unreadable
+  error: string | null;
+}
+
+// Corrupt JSON is reported rather than thrown; other backend errors still propagate
+async function readStored(key: string): Promise<StoredValue | null> {
   try {
-    const index = localStorage.getItem(USERS_KEY);
-    return index ? JSON.parse(index) : [];
+    const value = await getStorageAdapter().get<unknown>(key);
+    return value === null ? null : { value, error: null };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return { value: null, error: `Unreadable: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+function validateStored<T>(schema: z.ZodType<T>, stored: StoredValue): ValidationResult<T> {
+  return stored.error ? { success: false, reason: stored.error } : validateRecord(schema, stored.value);
+}
+
+export async function listQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  const adapter = getStorageAdapter();
+  const records: QuarantinedRecord[] = [];
+  for (const key of await adapter.list(QUARANTINE_PREFIX)) {
+    const record = await adapter.get<QuarantinedRecord>(key);
+    if (record) {
+      records.push(record);
+    }
+  }
+  return records;
+}
+
+// key is the original storage key, as in QuarantinedRecord.key
+export async function discardQuarantinedRecord(key: string): Promise<void> {
+  await getStorageAdapter().delete(getQuarantineKey(key));
+}
+
+// Users index and token index are shared by every user, so writers take this lock after their user lock
+const INDEX_LOCK = 'user:index';
+
+async function getUsersIndex(reader: Pick<StorageTransaction, 'get'> = getStorageAdapter()): Promise<string[]> {
+  try {
+    return await reader.get<string[]>(USERS_KEY) ?? [];
   } catch {
     return [];
   }
 }
 
-// Save users index to localStorage
-function saveUsersIndex(index: string[]): void {
-  try {
-    localStorage.setItem(USERS_KEY, JSON.stringify(index));
-  } catch (e) {
-    console.error('Failed to save users index:', e);
+// Token lookup id -> user uuid, so login needs one read and one verifyToken
+async function getTokenIndex(reader: Pick<StorageTransaction, 'get'> = getStorageAdapter()): Promise<Record<string, string>> {
+  return await reader.get<Record<string, string>>(TOKEN_INDEX_KEY) ?? {};
+}
+
+// Point every lookup id the user holds (current and retiring) at them, dropping stale ones
+async function indexUserTokens(tx: StorageTransaction, userData: UserData): Promise<void> {
+  const index = await getTokenIndex(tx);
+  for (const [id, uuid] of Object.entries(index)) {
+    if (uuid === userData.uuid) {
+      delete index[id];
+    }
+  }
+
+  for (const id of getHeldTokenIds(userData)) {
+    index[id] = userData.uuid;
   }
+  tx.put(TOKEN_INDEX_KEY, index);
+}
+
+function getHeldTokenIds(userData: UserData): string[] {
+  const ids = [userData.tokenId, ...(userData.retiringTokens ?? []).map(entry => entry.tokenId)];
+  return ids.filter((id): id is string => Boolean(id));
+}
+
+async function unindexUserTokens(tx: StorageTransaction, uuid: string): Promise<void> {
+  const index = await getTokenIndex(tx);
+  tx.put(TOKEN_INDEX_KEY, Object.fromEntries(Object.entries(index).filter(([, owner]) => owner !== uuid)));
 }
 
 // Validate UUID format to prevent path traversal
@@ -50,12 +168,90 @@ export function isValidUUID(uuid: string): boolean {
   return uuidRegex.test(uuid);
 }
 
+type UserRecordRead = { user: UserData; migrated: boolean } | { reason: string };
+
+// Upgrade to USER_SCHEMA_VERSION, then validate against userDataSchema
+function readUserRecord(uuid: string, raw: unknown): UserRecordRead {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { reason: 'Not an object' };
+  }
+
+  let migration: MigrationResult;
+  try {
+    migration = migrateRecord(raw as StoredRecord);
+  } catch (error) {
+    return { reason: (error as Error).message };
+  }
+
+  const result = validateRecord(userDataSchema, migration.record);
+  if (!result.success) {
+    return { reason: result.reason };
+  }
+  if (result.data.uuid !== uuid) {
+    return { reason: 'uuid does not match its storage key' };
+  }
+  return { user: result.data, migrated: migration.migrated };
+}
+
+export type UserRecordOutcome = 'missing' | 'current' | 'migrated' | 'quarantined';
+
+// Caller holds the user lock. Upgraded records are written back; invalid ones are moved to
+// quarantine and dropped from both indexes, so one bad entry cannot break every page that lists users
+async function settleUserRecord(uuid: string): Promise<{ user: UserData | null; outcome: UserRecordOutcome }> {
+  const key = getUserKey(uuid);
+  const stored = await readStored(key);
+  if (!stored) {
+    return { user: null, outcome: 'missing' };
+  }
+
+  const read = stored.error ? { reason: stored.error } : readUserRecord(uuid, stored.value);
+  if ('user' in read) {
+    if (read.migrated) {
+      await getStorageAdapter().put(key, read.user);
+    }
+    return { user: read.user, outcome: read.migrated ? 'migrated' : 'current' };
+  }
+
+  const releaseIndex = await acquireLock(INDEX_LOCK);
+  try {
+    await getStorageAdapter().transaction(async tx => {
+      stageQuarantine(tx, key, stored.value, read.reason);
+      tx.delete(key);
+      await unindexUserTokens(tx, uuid);
+      tx.put(USERS_KEY, (await getUsersIndex(tx)).filter(id => id !== uuid));
+    });
+  } finally {
+    releaseIndex();
+  }
+  publishChange('user', uuid);
+  return { user: null, outcome: 'quarantined' };
+}
+
 // Get storage key for user
 function getUserKey(uuid: string): string {
   return `${STORAGE_PREFIX}user_${uuid}`;
 }
 
-export async function saveUserData(userData: UserData): Promise<void> {
+// Thrown by saveUserData when the stored record moved on since the caller read it
+export class RevisionConflictError extends Error {
+  readonly uuid: string;
+  readonly expectedRevision: number;
+  readonly current: UserData | null; // Stored record now; null if it was deleted
+
+  constructor(uuid: string, expectedRevision: number, current: UserData | null) {
+    super(current
+      ? `User record changed: expected revision ${expectedRevision}, found ${current.revision}`
+      : 'User record was deleted');
+    this.name = 'RevisionConflictError';
+    this.uuid = uuid;
+    this.expectedRevision = expectedRevision;
+    this.current = current;
+  }
+}
+
+// Compare-and-swap: succeeds only if the stored revision still matches userData.revision
+// (0 for a new user), and returns the record as stored with the next revision
+export async function saveUserData(userData: UserData): Promise<UserData> {
   const lockKey = `user:${userData.uuid}`;
   const release = await acquireLock(lockKey);
 
@@ -64,16 +260,37 @@ export async function saveUserData(userData: UserData): Promise<void> {
       throw new Error('Invalid UUID format');
     }
 
-    // Save to localStorage
-    const key = getUserKey(userData.uuid);
-    localStorage.setItem(key, JSON.stringify(userData));
-    
-    // Update index
-    const index = getUsersIndex();
-    if (!index.includes(userData.uuid)) {
-      index.push(userData.uuid);
-      saveUsersIndex(index);
+    // Same upgrade and validation as a load, so an in-memory copy from an older version saves cleanly
+    const record = readUserRecord(userData.uuid, userData);
+    if (!('user' in record)) {
+      throw new Error(`Invalid user record: ${record.reason}`);
+    }
+    const expectedRevision = record.user.revision ?? 0;
+    const saved: UserData = { ...record.user, revision: expectedRevision + 1 };
+
+    const releaseIndex = await acquireLock(INDEX_LOCK);
+    try {
+      await getStorageAdapter().transaction(async tx => {
+        const stored = await tx.get<unknown>(getUserKey(userData.uuid));
+        const current = stored ? readUserRecord(userData.uuid, stored) : null;
+        const currentUser = current && 'user' in current ? current.user : null;
+        if ((stored ? currentUser?.revision ?? -1 : 0) !== expectedRevision) {
+          throw new RevisionConflictError(userData.uuid, expectedRevision, currentUser);
+        }
+
+        tx.put(getUserKey(userData.uuid), saved);
+        await indexUserTokens(tx, userData);
+
+        const index = await getUsersIndex(tx);
+        if (!index.includes(userData.uuid)) {
+          tx.put(USERS_KEY, [...index, userData.uuid]);
+        }
+      });
+    } finally {
+      releaseIndex();
     }
+    publishChange('user', userData.uuid);
+    return saved;
   } finally {
     release();
   }
@@ -88,59 +305,130 @@ export async function loadUserData(uuid: string): Promise<UserData | null> {
       throw new Error('Invalid UUID format');
     }
 
-    const key = getUserKey(uuid);
-    const data = localStorage.getItem(key);
-    
-    if (!data) return null;
-    return JSON.parse(data) as UserData;
+    return (await settleUserRecord(uuid)).user;
   } finally {
     release();
   }
 }
 
-export async function findUserByTokenHash(tokenHash: string): Promise<UserData | null> {
-  const release = await acquireLock('user:search');
+export interface TokenMatch {
+  user: UserData;
+  retiring?: RetiringToken; // Set when a rotated-out hash inside its grace window matched
+  lookupId: string;
+  indexed: boolean; // False when found by the legacy scan; the caller should record lookupId
+}
 
-  try {
-    const index = getUsersIndex();
-    
-    for (const uuid of index) {
-      const key = getUserKey(uuid);
-      const data = localStorage.getItem(key);
-      if (data) {
-        const user = JSON.parse(data) as UserData;
-        if (user.tokenHash === tokenHash) {
-          return user;
-        }
+function matchHeldToken(user: UserData, lookupId: string, now: number): RetiringToken | 'current' | null {
+  if (user.tokenId === lookupId) {
+    return 'current';
+  }
+  const retiring = user.retiringTokens?.find(entry => entry.tokenId === lookupId);
+  return retiring && new Date(retiring.retiresAt).getTime() > now ? retiring : null;
+}
+
+// One index lookup plus one verifyToken; tokens without an indexed id fall back to a scan
+export async function findUserByToken(token: string, now: number = Date.now()): Promise<TokenMatch | null> {
+  const lookupId = await getTokenLookupId(token);
+  const uuid = (await getTokenIndex())[lookupId];
+
+  if (uuid) {
+    const user = await loadUserData(uuid);
+    const held = user ? matchHeldToken(user, lookupId, now) : null;
+    if (!user || !held) {
+      return null;
+    }
+    const hash = held === 'current' ? user.tokenHash : held.tokenHash;
+    if (!await verifyToken(token, hash)) {
+      return null;
+    }
+    return held === 'current'
+      ? { user, lookupId, indexed: true }
+      : { user, retiring: held, lookupId, indexed: true };
+  }
+
+  return findUnindexedToken(token, lookupId, now);
+}
+
+// Migration path for hashes stored before lookup ids: only entries without an id are checked
+async function findUnindexedToken(token: string, lookupId: string, now: number): Promise<TokenMatch | null> {
+  const users = await listAllUsers();
+
+  for (const user of users) {
+    if (!user.tokenId && await verifyToken(token, user.tokenHash)) {
+      return { user, lookupId, indexed: false };
+    }
+  }
+
+  for (const user of users) {
+    for (const retiring of user.retiringTokens ?? []) {
+      if (!retiring.tokenId && new Date(retiring.retiresAt).getTime() > now && await verifyToken(token, retiring.tokenHash)) {
+        return { user, retiring, lookupId, indexed: false };
       }
     }
-    return null;
-  } finally {
-    release();
   }
+  return null;
+}
+
+export interface CreateUserOptions {
+  expiresAt?: string | null;
+  permissions?: string[];
+  tokenId?: string; // From getTokenLookupId; omit only for hashes without a known token
+  scope?: TokenScope;
 }
 
-export async function createUser(tokenHash: string, role: string = 'user'): Promise<UserData> {
+export async function createUser(
+  tokenHash: string,
+  role: string = 'user',
+  options: CreateUserOptions = {}
+): Promise<UserData> {
   const uuid = generateUUID();
   const now = new Date().toISOString();
+  const scope = normalizeTokenScope(options.scope);
 
   const userData: UserData = {
     uuid,
     tokenHash,
+    ...(options.tokenId ? { tokenId: options.tokenId } : {}),
     apiKeys: [],
     createdAt: now,
     lastAccess: now,
-    role: role as 'user' | 'manager' | 'admin',
-    permissions: ['read:dashboard']
+    role,
+    permissions: options.permissions ?? (await loadRole(role))?.permissions ?? [],
+    status: 'active',
+    expiresAt: options.expiresAt ?? null,
+    ...(scope ? { scope } : {})
   };
 
-  await saveUserData(userData);
-  return userData;
+  return saveUserData(userData);
 }
 
+// Bumps lastAccess and saves; the caller's copy takes the new revision so it can be saved again
 export async function updateUser(userData: UserData): Promise<void> {
   userData.lastAccess = new Date().toISOString();
-  await saveUserData(userData);
+  userData.revision = (await saveUserData(userData)).revision;
+}
+
+// Load, apply and save, re-applying to the fresh record when another writer got in first.
+// For changes computed from the current record; apply returns null when there is nothing to save.
+export async function updateUserRecord(
+  uuid: string,
+  apply: (current: UserData) => UserData | null | Promise<UserData | null>,
+  attempts: number = 3
+): Promise<UserData | null> {
+  for (let attempt = 1; ; attempt++) {
+    const current = await loadUserData(uuid);
+    const next = current ? await apply(current) : null;
+    if (!next) {
+      return current;
+    }
+    try {
+      return await saveUserData(next);
+    } catch (error) {
+      if (!(error instanceof RevisionConflictError) || attempt >= attempts) {
+        throw error;
+      }
+    }
+  }
 }
 
 export async function deleteUser(uuid: string): Promise<boolean> {
@@ -152,14 +440,18 @@ export async function deleteUser(uuid: string): Promise<boolean> {
       throw new Error('Invalid UUID format');
     }
 
-    const key = getUserKey(uuid);
-    localStorage.removeItem(key);
-    
-    // Update index
-    const index = getUsersIndex();
-    const newIndex = index.filter(id => id !== uuid);
-    saveUsersIndex(newIndex);
-    
+    const releaseIndex = await acquireLock(INDEX_LOCK);
+    try {
+      await getStorageAdapter().transaction(async tx => {
+        tx.delete(getUserKey(uuid));
+        await unindexUserTokens(tx, uuid);
+        tx.put(USERS_KEY, (await getUsersIndex(tx)).filter(id => id !== uuid));
+      });
+    } finally {
+      releaseIndex();
+    }
+    publishChange('user', uuid);
+
     return true;
   } finally {
     release();
@@ -170,14 +462,13 @@ export async function listAllUsers(): Promise<UserData[]> {
   const release = await acquireLock('user:list');
 
   try {
-    const index = getUsersIndex();
+    const index = await getUsersIndex();
     const users: UserData[] = [];
     
-    for (const uuid of index) {
-      const key = getUserKey(uuid);
-      const data = localStorage.getItem(key);
-      if (data) {
-        users.push(JSON.parse(data) as UserData);
+    for (const uuid of index.filter(isValidUUID)) {
+      const user = await loadUserData(uuid);
+      if (user) {
+        users.push(user);
       }
     }
     
@@ -187,16 +478,574 @@ export async function listAllUsers(): Promise<UserData[]> {
   }
 }
 
+export interface MigrationReport {
+  checked: number;
+  migrated: number;
+  quarantined: number;
+}
+
+// Upgrade every stored user now instead of as each one is next read
+export async function migrateAllUsers(): Promise<MigrationReport> {
+  const report: MigrationReport = { checked: 0, migrated: 0, quarantined: 0 };
+
+  for (const uuid of (await getUsersIndex()).filter(isValidUUID)) {
+    const release = await acquireLock(`user:${uuid}`);
+    try {
+      const { outcome } = await settleUserRecord(uuid);
+      if (outcome === 'missing') continue;
+      report.checked++;
+      if (outcome === 'migrated') report.migrated++;
+      if (outcome === 'quarantined') report.quarantined++;
+    } finally {
+      release();
+    }
+  }
+  return report;
+}
+
+// Caller holds the roles lock; entries that fail validation are moved to quarantine
+async function readStoredRoles(): Promise<RoleDefinition[]> {
+  const stored = await readStored(ROLES_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  const entries = !stored.error && Array.isArray(stored.value) ? stored.value : null;
+  const roles: RoleDefinition[] = [];
+  const rejected: Array<{ key: string; value: unknown; reason: string }> = [];
+
+  if (!entries) {
+    rejected.push({ key: ROLES_KEY, value: stored.value, reason: stored.error ?? 'Not an array' });
+  } else {
+    entries.forEach((value, index) => {
+      const result = validateRecord(roleDefinitionSchema, value);
+      if (result.success) {
+        roles.push(result.data);
+      } else {
+        const id = (value as Partial<RoleDefinition> | null)?.id;
+        rejected.push({ key: `${ROLES_KEY}_${typeof id === 'string' ? id : index}`, value, reason: result.reason });
+      }
+    });
+  }
+
+  if (rejected.length > 0) {
+    await getStorageAdapter().transaction(async tx => {
+      rejected.forEach(({ key, value, reason }) => stageQuarantine(tx, key, value, reason));
+      tx.put(ROLES_KEY, roles);
+    });
+  }
+  return roles;
+}
+
+// Role registry, stored next to the users; built-in roles are filled in when missing
+async function readRoles(): Promise<RoleDefinition[]> {
+  const stored = await readStoredRoles();
+
+  const epoch = new Date(0).toISOString();
+  const builtIns = Object.values(BUILT_IN_ROLES)
+    .filter(role => !stored.some(existing => existing.id === role.id))
+    .map(role => ({ ...role, permissions: [...role.permissions], createdAt: epoch, updatedAt: epoch }));
+
+  return [...builtIns, ...stored];
+}
+
+export async function listRoles(): Promise<RoleDefinition[]> {
+  const release = await acquireLock('roles');
+
+  try {
+    return await readRoles();
+  } finally {
+    release();
+  }
+}
+
+export async function loadRole(id: string): Promise<RoleDefinition | null> {
+  const roles = await listRoles();
+  return roles.find(role => role.id === id) ?? null;
+}
+
+export async function saveRole(role: RoleDefinition): Promise<void> {
+  const release = await acquireLock('roles');
+
+  try {
+    const roles = (await readRoles()).filter(existing => existing.id !== role.id);
+    roles.push(role);
+    await getStorageAdapter().put(ROLES_KEY, roles);
+    publishChange('roles');
+  } finally {
+    release();
+  }
+}
+
+export async function deleteRole(id: string): Promise<void> {
+  const release = await acquireLock('roles');
+
+  try {
+    const roles = (await readRoles()).filter(existing => existing.id !== id);
+    await getStorageAdapter().put(ROLES_KEY, roles);
+    publishChange('roles');
+  } finally {
+    release();
+  }
+}
+
+// Session records are keyed by their opaque id
+function getSessionKey(id: string): string {
+  return `${STORAGE_PREFIX}session_${id}`;
+}
+
+export function isValidSessionId(id: string): boolean {
+  return /^[0-9a-f]{64}$/.test(id);
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  const release = await acquireLock(`session:${session.id}`);
+
+  try {
+    if (!isValidSessionId(session.id)) {
+      throw new Error('Invalid session id');
+    }
+    await getStorageAdapter().put(getSessionKey(session.id), session);
+  } finally {
+    release();
+  }
+}
+
+// Caller holds the session lock
+async function readSession(id: string): Promise<Session | null> {
+  if (!isValidSessionId(id)) {
+    return null;
+  }
+
+  const key = getSessionKey(id);
+  const stored = await readStored(key);
+  if (!stored) {
+    return null;
+  }
+  const result = validateStored(sessionSchema, stored);
+  if (result.success) {
+    return result.data;
+  }
+
+  // A damaged session just signs the browser out
+  await getStorageAdapter().transaction(async tx => {
+    stageQuarantine(tx, key, stored.value, result.reason);
+    tx.delete(key);
+  });
+  return null;
+}
+
+export async function loadSession(id: string): Promise<Session | null> {
+  const release = await acquireLock(`session:${id}`);
+
+  try {
+    return await readSession(id);
+  } finally {
+    release();
+  }
+}
+
+// Read-check-write under the session lock, so two tabs sharing a session see each other's change;
+// apply returns null to leave the session as it is. Resolves to the session as stored afterwards.
+export async function updateSession(
+  id: string,
+  apply: (current: Session | null) => Promise<Session | null>
+): Promise<Session | null> {
+  const release = await acquireLock(`session:${id}`);
+
+  try {
+    const current = await readSession(id);
+    const next = await apply(current);
+    if (!next) {
+      return current;
+    }
+    if (next.id !== id) {
+      throw new Error('Invalid session id');
+    }
+    await getStorageAdapter().put(getSessionKey(id), next);
+    return next;
+  } finally {
+    release();
+  }
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const release = await acquireLock(`session:${id}`);
+
+  try {
+    if (isValidSessionId(id)) {
+      await getStorageAdapter().delete(getSessionKey(id));
+    }
+  } finally {
+    release();
+  }
+}
+
+// Any user record at all, readable or not, including ones already moved to quarantine
+export async function hasStoredUsers(): Promise<boolean> {
+  const adapter = getStorageAdapter();
+  if ((await getUsersIndex()).length > 0) {
+    return true;
+  }
+  const keys = [
+    ...await adapter.list(`${STORAGE_PREFIX}user_`),
+    ...await adapter.list(`${QUARANTINE_PREFIX}user_`)
+  ];
+  return keys.length > 0;
+}
+
+// First-run marker; once written the setup wizard never runs again. A damaged marker is copied to
+// quarantine but still counts as written, since reopening the wizard would let anyone provision an admin
+export async function loadSetupRecord(): Promise<SetupRecord | null> {
+  const stored = await readStored(SETUP_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  const result = validateStored(setupRecordSchema, stored);
+  if (result.success) {
+    return result.data;
+  }
+  await quarantineCopy(SETUP_KEY, stored.value, result.reason);
+  return { completedAt: new Date(0).toISOString(), adminUuid: '' };
+}
+
+// Create the initial admin and the marker together so two submissions cannot both provision
+export async function completeSetup(tokenHash: string, tokenId: string): Promise<UserData> {
+  const release = await acquireLock('setup');
+
+  try {
+    if (await loadSetupRecord()) {
+      throw new Error('Setup has already been completed');
+    }
+
+    const admin = await createUser(tokenHash, 'admin', { tokenId });
+    const record: SetupRecord = { completedAt: admin.createdAt, adminUuid: admin.uuid };
+    await getStorageAdapter().put(SETUP_KEY, record);
+    publishChange('setup');
+    return admin;
+  } finally {
+    release();
+  }
+}
+
+// Latest admin request to rotate every vault's keys; a damaged one is quarantined and ignored
+export async function loadKeyRotationRequest(): Promise<KeyRotationRequest | null> {
+  const stored = await readStored(KEY_ROTATION_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  const result = validateStored(keyRotationRequestSchema, stored);
+  if (result.success) {
+    return result.data;
+  }
+  await quarantineCopy(KEY_ROTATION_KEY, stored.value, result.reason);
+  await getStorageAdapter().delete(KEY_ROTATION_KEY);
+  return null;
+}
+
+export async function saveKeyRotationRequest(request: KeyRotationRequest): Promise<void> {
+  await getStorageAdapter().put(KEY_ROTATION_KEY, request);
+  publishChange('keyRotation');
+}
+
+// Break-glass codes for the whole install; a damaged record is quarantined and treated as none
+async function readBreakGlassRecord(): Promise<BreakGlassRecord | null> {
+  const stored = await readStored(BREAK_GLASS_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  const result = validateStored(breakGlassRecordSchema, stored);
+  if (result.success) {
+    return result.data;
+  }
+  await quarantineCopy(BREAK_GLASS_KEY, stored.value, result.reason);
+  await getStorageAdapter().delete(BREAK_GLASS_KEY);
+  return null;
+}
+
+export async function loadBreakGlassRecord(): Promise<BreakGlassRecord | null> {
+  const release = await acquireLock('break-glass');
+
+  try {
+    return await readBreakGlassRecord();
+  } finally {
+    release();
+  }
+}
+
+// Apply runs under the lock, so two tabs cannot both spend the same code; it returns null to leave
+// the record as it is. Resolves to the record as stored afterwards.
+export async function updateBreakGlassRecord(
+  apply: (current: BreakGlassRecord | null) => Promise<BreakGlassRecord | null>
+): Promise<BreakGlassRecord | null> {
+  const release = await acquireLock('break-glass');
+
+  try {
+    const current = await readBreakGlassRecord();
+    const next = await apply(current);
+    if (!next) {
+      return current;
+    }
+    await getStorageAdapter().put(BREAK_GLASS_KEY, next);
+    publishChange('breakGlass');
+    return next;
+  } finally {
+    release();
+  }
+}
+
+function getAuditEntryKey(seq: number): string {
+  return `${AUDIT_ENTRY_PREFIX}${seq}`;
+}
+
+// Caller holds the audit lock. Entries live under one key each, numbered by seq, and the head holds
+// how many there are, so an append reads and writes one entry instead of the whole log. A log stored
+// as one array is moved over on first use; a damaged head is rebuilt by counting the entries present.
+async function readAuditLength(): Promise<number> {
+  const head = await readStored(AUDIT_HEAD_KEY);
+  if (head) {
+    const result = validateStored(auditHeadSchema, head);
+    if (result.success) {
+      return result.data.length;
+    }
+    await quarantineCopy(AUDIT_HEAD_KEY, head.value, result.reason);
+    let length = 0;
+    while (await getStorageAdapter().get(getAuditEntryKey(length)) !== null) {
+      length++;
+    }
+    await getStorageAdapter().put(AUDIT_HEAD_KEY, { length });
+    return length;
+  }
+
+  const legacy = await readStored(LEGACY_AUDIT_LOG_KEY);
+  if (!legacy) {
+    return 0;
+  }
+  const entries: unknown[] = !legacy.error && Array.isArray(legacy.value) ? legacy.value : [];
+  if (!Array.isArray(legacy.value)) {
+    await quarantineCopy(LEGACY_AUDIT_LOG_KEY, legacy.value, legacy.error ?? 'Not an array');
+  }
+  await getStorageAdapter().transaction(async tx => {
+    entries.forEach((value, seq) => tx.put(getAuditEntryKey(seq), value));
+    tx.put(AUDIT_HEAD_KEY, { length: entries.length });
+    tx.delete(LEGACY_AUDIT_LOG_KEY);
+  });
+  return entries.length;
+}
+
+// Caller holds the audit lock. A missing or invalid entry reads as null; an invalid one is copied to
+// quarantine but stays in place, so the chain keeps its evidence and verifyAuditChain() reports the gap
+async function readAuditEntry(seq: number): Promise<AuditEntry | null> {
+  const key = getAuditEntryKey(seq);
+  const stored = await readStored(key);
+  if (!stored) {
+    return null;
+  }
+  const result = validateStored(auditEntrySchema, stored);
+  if (!result.success) {
+    await quarantineCopy(key, stored.value, result.reason);
+    return null;
+  }
+  return result.data;
+}
+
+// Audit trail, oldest first, valid entries only; only ever appended to
+export async function loadAuditEntries(): Promise<AuditEntry[]> {
+  const release = await acquireLock('audit');
+
+  try {
+    const entries: AuditEntry[] = [];
+    const length = await readAuditLength();
+    for (let seq = 0; seq < length; seq++) {
+      const entry = await readAuditEntry(seq);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  } finally {
+    release();
+  }
+}
+
+// Where the next entry goes. previous is the entry it chains onto: null for the first entry, and
+// also when the last stored entry is missing or invalid, which damaged reports
+export interface AuditTail {
+  seq: number;
+  previous: AuditEntry | null;
+  damaged: boolean;
+}
+
+// Build runs under the lock so concurrent appends cannot chain onto the same predecessor
+export async function appendAuditEntry(build: (tail: AuditTail) => Promise<AuditEntry>): Promise<AuditEntry> {
+  const release = await acquireLock('audit');
+
+  try {
+    const seq = await readAuditLength();
+    const previous = seq > 0 ? await readAuditEntry(seq - 1) : null;
+    const entry = await build({ seq, previous, damaged: seq > 0 && !previous });
+    if (entry.seq !== seq) {
+      throw new Error(`Audit entry ${entry.seq} does not follow the stored log (expected ${seq})`);
+    }
+    await getStorageAdapter().transaction(async tx => {
+      tx.put(getAuditEntryKey(seq), entry);
+      tx.put(AUDIT_HEAD_KEY, { length: seq + 1 });
+    });
+    publishChange('audit');
+    return entry;
+  } finally {
+    release();
+  }
+}
+
+// Records a backup carries from this store; saved filters live in localStorage (see savedFilters.ts)
+export type StoredDataset = Omit<BackupDataset, 'savedFilters'>;
+
+// Valid records only: anything quarantined on the way is left out of the copy
+export async function readStoredDataset(): Promise<StoredDataset> {
+  const users = await listAllUsers();
+
+  const releaseRoles = await acquireLock('roles');
+  let roles: RoleDefinition[];
+  try {
+    roles = await readStoredRoles();
+  } finally {
+    releaseRoles();
+  }
+
+  // Not loadSetupRecord(): its stand-in for a damaged marker is not a record worth restoring
+  const storedSetup = await readStored(SETUP_KEY);
+  const setup = storedSetup ? validateStored(setupRecordSchema, storedSetup) : null;
+
+  return {
+    users,
+    roles,
+    setup: setup?.success ? setup.data : null,
+    keyRotation: await loadKeyRotationRequest(),
+    auditLog: await loadAuditEntries()
+  };
+}
+
+// Records a restore writes. The audit log is never among them: the live chain is only appended to
+export type RestoredDataset = Omit<StoredDataset, 'auditLog'>;
+
+// Thrown by replaceStoredDataset when records moved on since the restore was planned
+export class DatasetConflictError extends Error {
+  constructor() {
+    super('Stored records changed while the restore was being prepared');
+    this.name = 'DatasetConflictError';
+  }
+}
+
+const revisionOf = (user: Partial<UserData> | null | undefined): number | null =>
+  user ? (typeof user.revision === 'number' ? user.revision : 0) : null;
+
+const roleVersions = (roles: unknown): string =>
+  JSON.stringify(Array.isArray(roles) ? roles.map(role => [role?.id, role?.updatedAt]) : []);
+
+// Swap in a restored dataset with one transaction and rebuild both indexes. base is what the restore
+// was planned from; if any user revision, role or key rotation request differs from it now, nothing
+// is written and DatasetConflictError asks the caller to plan again. Changed users are stored one
+// revision past what was there, so copies open in other tabs fail compare-and-swap instead of
+// overwriting the restore.
+export async function replaceStoredDataset(dataset: RestoredDataset, base: RestoredDataset): Promise<void> {
+  const release = await acquireLock('global:clear');
+
+  try {
+    const invalid = dataset.users.find(user => !isValidUUID(user.uuid));
+    if (invalid) {
+      throw new Error('Invalid UUID format');
+    }
+
+    const releaseRoles = await acquireLock('roles');
+    const releaseIndex = await acquireLock(INDEX_LOCK);
+    try {
+      await getStorageAdapter().transaction(async tx => {
+        const planned = new Map(base.users.map(user => [user.uuid, user]));
+        const index = (await getUsersIndex(tx)).filter(isValidUUID);
+        for (const uuid of new Set([...index, ...planned.keys()])) {
+          if (revisionOf(await tx.get<Partial<UserData>>(getUserKey(uuid))) !== revisionOf(planned.get(uuid))) {
+            throw new DatasetConflictError();
+          }
+        }
+        const keyRotation = await tx.get<Partial<KeyRotationRequest>>(KEY_ROTATION_KEY);
+        if (roleVersions(await tx.get<unknown>(ROLES_KEY)) !== roleVersions(base.roles) ||
+            (keyRotation?.requestedAt ?? null) !== (base.keyRotation?.requestedAt ?? null)) {
+          throw new DatasetConflictError();
+        }
+
+        const restored = new Set(dataset.users.map(user => user.uuid));
+        for (const uuid of index) {
+          if (!restored.has(uuid)) {
+            tx.delete(getUserKey(uuid));
+          }
+        }
+
+        const tokenIndex: Record<string, string> = {};
+        for (const user of dataset.users) {
+          const stored = await tx.get<Partial<UserData>>(getUserKey(user.uuid));
+          if (JSON.stringify(stored) !== JSON.stringify(user)) {
+            tx.put(getUserKey(user.uuid), { ...user, revision: Math.max(revisionOf(stored) ?? 0, user.revision ?? 0) + 1 });
+          }
+          for (const id of getHeldTokenIds(user)) {
+            tokenIndex[id] = user.uuid;
+          }
+        }
+        tx.put(USERS_KEY, [...restored]);
+        tx.put(TOKEN_INDEX_KEY, tokenIndex);
+        tx.put(ROLES_KEY, dataset.roles);
+
+        const singletons: Array<[string, unknown]> = [[SETUP_KEY, dataset.setup], [KEY_ROTATION_KEY, dataset.keyRotation]];
+        for (const [key, value] of singletons) {
+          if (value === null) {
+            tx.delete(key);
+          } else {
+            tx.put(key, value);
+          }
+        }
+      });
+    } finally {
+      releaseIndex();
+      releaseRoles();
+    }
+    publishChange('all');
+  } finally {
+    release();
+  }
+}
+
 // Clear all data (for testing/admin)
 export async function clearAllData(): Promise<void> {
   const release = await acquireLock('global:clear');
   
   try {
-    const index = getUsersIndex();
-    for (const uuid of index) {
-      localStorage.removeItem(getUserKey(uuid));
+    const releaseIndex = await acquireLock(INDEX_LOCK);
+    const releaseAudit = await acquireLock('audit');
+    try {
+      const quarantined = await getStorageAdapter().list(QUARANTINE_PREFIX);
+      const auditLength = await readAuditLength();
+      await getStorageAdapter().transaction(async tx => {
+        for (let seq = 0; seq < auditLength; seq++) {
+          tx.delete(getAuditEntryKey(seq));
+        }
+        for (const uuid of await getUsersIndex(tx)) {
+          tx.delete(getUserKey(uuid));
+        }
+        for (const key of quarantined) {
+          tx.delete(key);
+        }
+        for (const key of [USERS_KEY, ROLES_KEY, SETUP_KEY, KEY_ROTATION_KEY, BREAK_GLASS_KEY, TOKEN_INDEX_KEY, AUDIT_HEAD_KEY]) {
+          tx.delete(key);
+        }
+      });
+    } finally {
+      releaseAudit();
+      releaseIndex();
     }
-    localStorage.removeItem(USERS_KEY);
+    publishChange('all');
   } finally {
     release();
   }
@@ -0,0 +1,215 @@
+// Storage backends for persisted records: localStorage, IndexedDB for larger datasets, memory for tests
+export interface StorageTransaction {
+  get<T>(key: string): Promise<T | null>; // Sees writes staged earlier in the same transaction
+  put(key: string, value: unknown): void;
+  delete(key: string): void;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  get<T>(key: string): Promise<T | null>;
+  put(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<string[]>; // Keys starting with prefix, sorted
+  // Writes are staged and applied together once fn resolves; nothing is written if it throws
+  transaction<T>(fn: (tx: StorageTransaction) => Promise<T>): Promise<T>;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['localStorage', 'indexedDB', 'memory'];
+
+// A write in a committed batch; value undefined means delete
+interface StorageWrite {
+  key: string;
+  value?: unknown;
+}
+
+// What each backend implements; put, delete and transaction are built on commit
+interface StorageDriver {
+  get(key: string): Promise<unknown>;
+  list(prefix: string): Promise<string[]>;
+  commit(writes: StorageWrite[]): Promise<void>;
+}
+
+function createAdapter(backend: StorageBackend, driver: StorageDriver): StorageAdapter {
+  return {
+    backend,
+    get: async <T>(key: string) => (await driver.get(key) ?? null) as T | null,
+    put: (key, value) => driver.commit([{ key, value }]),
+    delete: (key) => driver.commit([{ key }]),
+    list: async (prefix) => (await driver.list(prefix)).sort(),
+    transaction: async (fn) => {
+      const staged = new Map<string, StorageWrite>();
+      const tx: StorageTransaction = {
+        get: async <T>(key: string) => {
+          const write = staged.get(key);
+          if (write) {
+            return (write.value ?? null) as T | null;
+          }
+          return (await driver.get(key) ?? null) as T | null;
+        },
+        put: (key, value) => { staged.set(key, { key, value }); },
+        delete: (key) => { staged.set(key, { key }); }
+      };
+
+      const result = await fn(tx);
+      if (staged.size > 0) {
+        await driver.commit([...staged.values()]);
+      }
+      return result;
+    }
+  };
+}
+
+// Values are stored as JSON so callers never share a mutable reference with the store
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const entries = new Map<string, string>();
+
+  return createAdapter('memory', {
+    get: async (key) => {
+      const data = entries.get(key);
+      return data === undefined ? null : JSON.parse(data);
+    },
+    list: async (prefix) => [...entries.keys()].filter(key => key.startsWith(prefix)),
+    commit: async (writes) => {
+      for (const { key, value } of writes) {
+        if (value === undefined) {
+          entries.delete(key);
+        } else {
+          entries.set(key, JSON.stringify(value));
+        }
+      }
+    }
+  });
+}
+
+// Storage is resolved on every call so a stubbed or late-initialised localStorage is honoured
+export function createLocalStorageAdapter(getStorage: () => Storage = () => localStorage): StorageAdapter {
+  return createAdapter('localStorage', {
+    get: async (key) => {
+      const data = getStorage().getItem(key);
+      return data ? JSON.parse(data) : null;
+    },
+    list: async (prefix) => {
+      const storage = getStorage();
+      const keys: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key?.startsWith(prefix)) {
+          keys.push(key);
+        }
+      }
+      return keys;
+    },
+    // setItem can throw partway through (QuotaExceededError), so the previous values are kept and put
+    // back before the error is rethrown, so a failed batch leaves this tab's storage as it was
+    commit: async (writes) => {
+      const storage = getStorage();
+      const previous = writes.map(({ key }) => ({ key, data: storage.getItem(key) }));
+      try {
+        for (const { key, value } of writes) {
+          if (value === undefined) {
+            storage.removeItem(key);
+          } else {
+            storage.setItem(key, JSON.stringify(value));
+          }
+        }
+      } catch (error) {
+        for (const { key, data } of previous.reverse()) {
+          if (data === null) {
+            storage.removeItem(key);
+          } else {
+            storage.setItem(key, data);
+          }
+        }
+        throw error;
+      }
+    }
+  });
+}
+
+const IDB_STORE = 'records';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// One object store of structured-cloned values; a batch commits as a single readwrite transaction
+export function createIndexedDbStorageAdapter(
+  databaseName: string = 'api_token_monitor_v2',
+  getFactory: () => IDBFactory = () => indexedDB
+): StorageAdapter {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = getFactory().open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IDB_STORE);
+      };
+      database = promisifyRequest(request).catch(error => {
+        database = null;
+        throw error;
+      });
+    }
+    return database;
+  };
+
+  const read = async <T>(run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return promisifyRequest(run(db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE)));
+  };
+
+  return createAdapter('indexedDB', {
+    get: (key) => read(store => store.get(key)),
+    list: async (prefix) => {
+      const keys = await read(store => store.getAllKeys(IDBKeyRange.bound(prefix, `${prefix}\uffff`)));
+      return keys.map(String);
+    },
+    commit: async (writes) => {
+      const db = await open();
+      const transaction = db.transaction(IDB_STORE, 'readwrite');
+      const store = transaction.objectStore(IDB_STORE);
+      for (const { key, value } of writes) {
+        if (value === undefined) {
+          store.delete(key);
+        } else {
+          store.put(value, key);
+        }
+      }
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'));
+      });
+    }
+  });
+}
+
+export function isStorageBackend(value: string): value is StorageBackend {
+  return (STORAGE_BACKENDS as string[]).includes(value);
+}
+
+// VITE_STORAGE_BACKEND picks the backend; unset falls back to localStorage when the browser has it
+export function getConfiguredStorageBackend(): StorageBackend {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND;
+  if (configured) {
+    if (!isStorageBackend(configured)) {
+      throw new Error(`Unknown storage backend: ${configured}`);
+    }
+    return configured;
+  }
+  return typeof localStorage !== 'undefined' ? 'localStorage' : 'memory';
+}
+
+export function createStorageAdapter(backend: StorageBackend = getConfiguredStorageBackend()): StorageAdapter {
+  switch (backend) {
+    case 'indexedDB': return createIndexedDbStorageAdapter();
+    case 'memory': return createMemoryStorageAdapter();
+    default: return createLocalStorageAdapter();
+  }
+}
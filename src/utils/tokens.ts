@@ -0,0 +1,154 @@
+// Token lifecycle: expiry calculation, revocation and rotation for issued tokens
+import type { RetiringToken, UserData } from '../types';
+import { listAllUsers, updateUserRecord } from './storage';
+import { pruneRetiringTokens, requireAdministrator } from './auth';
+import { createCorrelationId, logAuditEvent } from './audit';
+import { generateSecureToken, getTokenLookupId, hashToken } from './crypto';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Overlap during which a rotated-out token still works (VITE_TOKEN_ROTATION_GRACE_HOURS, default 24)
+export function getRotationGracePeriod(): number {
+  const raw = import.meta.env.VITE_TOKEN_ROTATION_GRACE_HOURS;
+  const hours = raw === undefined || raw === '' ? 24 : Number(raw);
+  return (Number.isFinite(hours) && hours >= 0 ? hours : 24) * HOUR;
+}
+
+// Map the Admin "Expires In" choice ('7', '30', ..., 'never') to an ISO timestamp
+export function computeExpiry(expiresIn: string, now: number = Date.now()): string | null {
+  if (expiresIn === 'never') {
+    return null;
+  }
+
+  const days = parseInt(expiresIn, 10);
+  if (!Number.isFinite(days) || days <= 0) {
+    throw new Error('Invalid expiry');
+  }
+  return new Date(now + days * DAY).toISOString();
+}
+
+export async function revokeUserToken(uuid: string, reason: string, actorUuid: string): Promise<UserData> {
+  await requireAdministrator(actorUuid, 'revoke tokens');
+
+  let changed = false;
+  const revoked = await updateUserRecord(uuid, current => {
+    changed = current.status !== 'revoked';
+    return changed
+      ? { ...current, status: 'revoked', revokedAt: new Date().toISOString(), revokedReason: reason.trim() || 'No reason given' }
+      : null;
+  });
+  if (!revoked) {
+    throw new Error('User not found');
+  }
+  if (!changed) {
+    return revoked;
+  }
+
+  logAuditEvent({
+    type: 'TOKEN_REVOKED',
+    actor: actorUuid,
+    target: uuid,
+    outcome: 'success',
+    reason: revoked.revokedReason ?? null
+  });
+  return revoked;
+}
+
+export async function listRevokedUsers(): Promise<UserData[]> {
+  const users = await listAllUsers();
+  return users
+    .filter(user => user.status === 'revoked')
+    .sort((a, b) => new Date(b.revokedAt ?? 0).getTime() - new Date(a.revokedAt ?? 0).getTime());
+}
+
+export interface RotationResult {
+  token: string; // Shown once to the admin, never stored
+  user: UserData;
+}
+
+// Secrets sealed under the current token, which stop opening once that token no longer works
+export function getTokenBoundSecrets(user: UserData): string[] {
+  const bound: string[] = [];
+  if (user.totp) {
+    bound.push('authenticator enrolment');
+  }
+  if (user.vault && user.vault.source !== 'passphrase') {
+    bound.push('API key vault');
+  }
+  return bound;
+}
+
+// Issue a new token for an existing user, keeping the old hash valid for the grace period. Without one
+// the old token is gone at once, so a user with token-bound secrets is refused: the grace period is
+// their only chance to move the vault to a passphrase before its keys become unreadable.
+export async function rotateUserToken(
+  uuid: string,
+  actorUuid: string,
+  gracePeriod: number = getRotationGracePeriod()
+): Promise<RotationResult> {
+  await requireAdministrator(actorUuid, 'rotate tokens');
+
+  const token = generateSecureToken();
+  const tokenHash = await hashToken(token);
+  const tokenId = await getTokenLookupId(token);
+
+  const now = Date.now();
+  const rotatedAt = new Date(now).toISOString();
+  const retiresAt = new Date(now + gracePeriod).toISOString();
+
+  // Worked out again on the fresh record if another tab saved it first
+  let retired: RetiringToken[] = [];
+  const rotated = await updateUserRecord(uuid, current => {
+    if (current.status === 'revoked') {
+      throw new Error('Cannot rotate a revoked token');
+    }
+    const bound = getTokenBoundSecrets(current);
+    if (gracePeriod === 0 && bound.length > 0) {
+      throw new Error(`Rotating without a grace period would lock this user out of their ${bound.join(' and ')}; choose a grace period`);
+    }
+
+    retired = pruneRetiringTokens(current, now);
+    const retiringTokens: RetiringToken[] = [...(current.retiringTokens ?? [])];
+    if (gracePeriod > 0) {
+      retiringTokens.push({ tokenHash: current.tokenHash, tokenId: current.tokenId, rotatedAt, retiresAt });
+    }
+    return { ...current, tokenHash, tokenId, retiringTokens };
+  });
+  if (!rotated) {
+    throw new Error('User not found');
+  }
+
+  const audit = { actor: actorUuid, target: uuid, outcome: 'success', correlationId: createCorrelationId() } as const;
+  for (const entry of retired) {
+    logAuditEvent({ type: 'TOKEN_RETIRED', ...audit, rotatedAt: entry.rotatedAt });
+  }
+  logAuditEvent({ type: 'TOKEN_ROTATED', ...audit, gracePeriodMs: gracePeriod, retiresAt });
+  if (gracePeriod === 0) {
+    logAuditEvent({ type: 'TOKEN_RETIRED', ...audit, rotatedAt });
+  }
+
+  return { token, user: rotated };
+}
+
+// Sweep every user and drop rotated-out hashes whose grace window has closed
+export async function retireExpiredTokens(now: number = Date.now()): Promise<number> {
+  const users = await listAllUsers();
+  let count = 0;
+
+  for (const user of users) {
+    if (!(user.retiringTokens ?? []).some(entry => new Date(entry.retiresAt).getTime() <= now)) continue;
+
+    // Pruned on the fresh record in case another tab changed it since the list was read
+    let retired: RetiringToken[] = [];
+    await updateUserRecord(user.uuid, current => {
+      retired = pruneRetiringTokens(current, now);
+      return retired.length > 0 ? current : null;
+    });
+    for (const entry of retired) {
+      logAuditEvent({ type: 'TOKEN_RETIRED', actor: null, target: user.uuid, outcome: 'success', rotatedAt: entry.rotatedAt });
+    }
+    count += retired.length;
+  }
+  return count;
+}
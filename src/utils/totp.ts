@@ -0,0 +1,126 @@
+// TOTP (RFC 6238) on top of HOTP (RFC 4226) using Web Crypto HMAC-SHA1
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_ISSUER = 'API Token Monitor';
+
+export interface TotpOptions {
+  step?: number; // seconds per code
+  digits?: number;
+  window?: number; // steps accepted either side of now, for clock drift
+}
+
+const DEFAULT_STEP = 30;
+const DEFAULT_DIGITS = 6;
+const DEFAULT_WINDOW = 1;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// Accepts lower case, spaces and padding as typed from authenticator apps
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+export async function generateHotp(secret: Uint8Array, counter: number, digits: number = DEFAULT_DIGITS): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+export function getTotpStep(now: number = Date.now(), step: number = DEFAULT_STEP): number {
+  return Math.floor(now / 1000 / step);
+}
+
+export async function generateTotp(secret: string, now: number = Date.now(), options: TotpOptions = {}): Promise<string> {
+  return generateHotp(base32Decode(secret), getTotpStep(now, options.step), options.digits);
+}
+
+// Returns the time step the code belongs to, or null; callers use the step to refuse replays
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  now: number = Date.now(),
+  options: TotpOptions = {}
+): Promise<number | null> {
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  const window = options.window ?? DEFAULT_WINDOW;
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = getTotpStep(now, options.step);
+  let matched: number | null = null;
+
+  // Check every step in the window so timing does not reveal which one matched
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = await generateHotp(key, current + offset, digits);
+    if (candidate === normalized && matched === null) {
+      matched = current + offset;
+    }
+  }
+  return matched;
+}
+
+export function buildOtpauthUri(secret: string, account: string, issuer: string = TOTP_ISSUER): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DEFAULT_DIGITS),
+    period: String(DEFAULT_STEP)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
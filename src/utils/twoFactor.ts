@@ -0,0 +1,197 @@
+// Two-factor authentication: TOTP enrolment, login verification and one-time recovery codes
+import type { TotpEnrollment, UserData } from '../types';
+import { encryptApiKey, decryptApiKey, needsReencryption, verifyToken } from './crypto';
+import { loadUserData, saveUserData, RevisionConflictError } from './storage';
+import { checkRateLimit, resetRateLimit, getRateLimitPolicy, requireAdministrator, ENV_ADMIN_UUID } from './auth';
+import { createCorrelationId, logAuditEvent } from './audit';
+import { can, PERMISSIONS } from './permissions';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, base32Encode } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Offered to admin- and manager-level accounts; the env admin is never persisted so cannot enrol
+export function isTwoFactorEligible(user: UserData | null): boolean {
+  if (!user || user.uuid === ENV_ADMIN_UUID) {
+    return false;
+  }
+  return can(user, PERMISSIONS.adminAccess) || can(user, PERMISSIONS.manageProviders);
+}
+
+export function isTwoFactorEnabled(user: UserData | null): boolean {
+  return Boolean(user?.totp);
+}
+
+// Sealed under the account's own access token, which is never shipped or stored, and bound to the
+// user so the ciphertext cannot be copied onto another account. A token rotated in after enrolment
+// cannot open it; that account signs in with a recovery code and enrols again.
+const totpAssociatedData = (uuid: string) => `totp:${uuid}`;
+
+async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Ten 50-bit codes formatted as xxxxx-xxxxx
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export interface TotpSetup {
+  secret: string; // Base32, shown for manual entry
+  uri: string; // otpauth:// URI encoded into the QR code
+}
+
+// Nothing is stored until the user proves their authenticator with confirmTotpEnrollment
+export function beginTotpEnrollment(user: UserData): TotpSetup {
+  if (!isTwoFactorEligible(user)) {
+    throw new Error('Two-factor authentication is not available for this account');
+  }
+  if (isTwoFactorEnabled(user)) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  return { secret, uri: buildOtpauthUri(secret, `${user.role}-${user.uuid.slice(-4)}`) };
+}
+
+// Returns the plaintext recovery codes; they are shown once and only their hashes are kept
+export async function confirmTotpEnrollment(
+  uuid: string,
+  secret: string,
+  code: string,
+  token: string,
+  now: number = Date.now()
+): Promise<string[]> {
+  const user = await loadUserData(uuid);
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (isTwoFactorEnabled(user)) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+  // A secret sealed under any other token could never be opened at sign-in
+  if (!await verifyToken(token, user.tokenHash)) {
+    throw new Error('Enter your current access token');
+  }
+
+  const step = await verifyTotp(secret, code, now);
+  if (step === null) {
+    throw new Error('Invalid verification code');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const totp: TotpEnrollment = {
+    secret: await encryptApiKey(secret, token, totpAssociatedData(uuid)),
+    enabledAt: new Date(now).toISOString(),
+    lastUsedStep: step,
+    recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode))
+  };
+
+  await saveUserData({ ...user, totp });
+  logAuditEvent({ type: 'TOTP_ENABLED', actor: uuid, target: uuid, outcome: 'success' });
+  return recoveryCodes;
+}
+
+// Used by the account holder, or by an admin when both the device and the codes are lost
+export async function disableTwoFactor(uuid: string, actorUuid: string): Promise<UserData> {
+  if (actorUuid !== uuid) {
+    await requireAdministrator(actorUuid, "remove another user's two-factor");
+  }
+
+  const user = await loadUserData(uuid);
+  if (!user) {
+    throw new Error('User not found');
+  }
+  if (!user.totp) {
+    return user;
+  }
+
+  const { totp: _removed, ...rest } = user;
+  const saved = await saveUserData(rest);
+  logAuditEvent({ type: 'TOTP_DISABLED', actor: actorUuid, target: uuid, outcome: 'success' });
+  return saved;
+}
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export interface SecondFactorResult {
+  success: boolean;
+  method?: SecondFactorMethod;
+  error?: string;
+  retryAfter?: number;
+}
+
+// Second login step; six digits are checked as TOTP, anything else as a recovery code.
+// token is the access token just accepted; without it only a recovery code can pass.
+export async function verifySecondFactor(
+  uuid: string,
+  code: string,
+  token: string | null,
+  now: number = Date.now()
+): Promise<SecondFactorResult> {
+  const identifier = `totp:${uuid}`;
+  const rateCheck = checkRateLimit(identifier, getRateLimitPolicy().tiers.token, 'token');
+  if (!rateCheck.allowed) {
+    return { success: false, error: 'Too many attempts', retryAfter: rateCheck.retryAfter };
+  }
+
+  const user = await loadUserData(uuid);
+  if (!user?.totp) {
+    return { success: false, error: 'Two-factor authentication is not enabled' };
+  }
+
+  const audit = { actor: uuid, target: uuid, correlationId: createCorrelationId() };
+  const trimmed = code.trim();
+  let method: SecondFactorMethod | null = null;
+  let resealed = false;
+
+  if (/^\d{6}$/.test(trimmed.replace(/\s/g, ''))) {
+    const secret = token ? await decryptApiKey(user.totp.secret, token, totpAssociatedData(uuid)).catch(() => null) : null;
+    if (!token || !secret) {
+      logAuditEvent({ type: 'SECOND_FACTOR_FAILED', ...audit, outcome: 'failure' });
+      return { success: false, error: 'Authenticator codes cannot be checked with this token; use a recovery code' };
+    }
+    const step = await verifyTotp(secret, trimmed, now);
+    // A code is single use: its step must be newer than the last accepted one
+    if (step !== null && step > user.totp.lastUsedStep) {
+      user.totp = { ...user.totp, lastUsedStep: step };
+      method = 'totp';
+      // Legacy or under-cost ciphertext is re-sealed with the code, while the secret is in hand
+      if (needsReencryption(user.totp.secret)) {
+        user.totp.secret = await encryptApiKey(secret, token, totpAssociatedData(uuid));
+        resealed = true;
+      }
+    }
+  } else {
+    const hash = await hashRecoveryCode(trimmed);
+    if (user.totp.recoveryCodes.includes(hash)) {
+      user.totp = { ...user.totp, recoveryCodes: user.totp.recoveryCodes.filter(h => h !== hash) };
+      method = 'recovery_code';
+      logAuditEvent({ type: 'RECOVERY_CODE_USED', ...audit, outcome: 'success', remaining: user.totp.recoveryCodes.length });
+    }
+  }
+
+  if (!method) {
+    logAuditEvent({ type: 'SECOND_FACTOR_FAILED', ...audit, outcome: 'failure' });
+    return { success: false, error: 'Invalid verification code' };
+  }
+
+  // A conflict means another tab spent a code at the same moment; this one must not also pass
+  try {
+    await saveUserData(user);
+  } catch (error) {
+    if (!(error instanceof RevisionConflictError)) throw error;
+    logAuditEvent({ type: 'SECOND_FACTOR_FAILED', ...audit, outcome: 'failure' });
+    return { success: false, error: 'Invalid verification code' };
+  }
+  resetRateLimit(identifier);
+  if (resealed) {
+    logAuditEvent({ type: 'TOTP_SECRET_RESEALED', ...audit, outcome: 'success' });
+  }
+  logAuditEvent({ type: 'SECOND_FACTOR_VERIFIED', ...audit, outcome: 'success', method });
+  return { success: true, method };
+}
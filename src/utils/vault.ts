@@ -0,0 +1,432 @@
+// Per-user key vault: API keys are sealed under random data keys, wrapped by a key-encryption key
+// derived from the login token or a vault passphrase and held in memory for the session only
+import type { ApiKey, KeyRotationRequest, UserData, VaultKeyMaterial, VaultSource } from '../types';
+import {
+  decryptApiKey,
+  deriveKeyEncryptionKey,
+  getKdfIterations,
+  isWrappedEnvelope,
+  needsReencryption,
+  openEnvelope,
+  rewrapEnvelope,
+  sealEnvelope,
+  LEGACY_KDF_ITERATIONS
+} from './crypto';
+import { isValidUUID, listAllUsers, saveKeyRotationRequest, updateUserRecord } from './storage';
+import { BREAK_GLASS_UUID, ENV_ADMIN_UUID } from './auth';
+import { logAuditEvent } from './audit';
+
+export const MIN_VAULT_PASSPHRASE_LENGTH = 12;
+
+// Annual rotation policy: data keys older than this are due to be replaced
+export const KEY_ROTATION_INTERVAL_DAYS = 365;
+
+// API keys re-encrypted per save; each batch is persisted, so an interrupted rotation resumes
+export const ROTATION_BATCH_SIZE = 10;
+
+// Sealed into VaultConfig.verifier so a wrong secret is caught before any key is touched
+const VERIFIER_TEXT = 'api-token-monitor-vault';
+
+interface UnlockedVault {
+  salt: string; // Which vault config the key belongs to; a new secret in another tab invalidates it
+  key: CryptoKey;
+  pendingKey?: CryptoKey; // Key of a rotation in progress; keys it has reached are sealed under it
+}
+
+// Never persisted: a reload or sign-out locks every vault
+const unlockedVaults = new Map<string, UnlockedVault>();
+
+const saltId = (config: VaultKeyMaterial) => config.salt.join(',');
+
+// Binds each sealed key to its owner and id, so it cannot be copied onto another record
+const apiKeyAssociatedData = (uuid: string, keyId: string) => `apiKey:${uuid}:${keyId}`;
+const verifierAssociatedData = (uuid: string) => `vault:${uuid}`;
+
+// The env admin, break-glass and bypass users are never persisted, so they have nowhere to keep a vault
+export function isVaultAvailable(user: UserData | null): user is UserData {
+  return Boolean(user) && user!.uuid !== ENV_ADMIN_UUID && user!.uuid !== BREAK_GLASS_UUID && isValidUUID(user!.uuid);
+}
+
+function getUnlockedVault(user: UserData): UnlockedVault | null {
+  const unlocked = unlockedVaults.get(user.uuid);
+  return unlocked && user.vault && unlocked.salt === saltId(user.vault) ? unlocked : null;
+}
+
+export function isVaultUnlocked(user: UserData | null): boolean {
+  return Boolean(user && getUnlockedVault(user));
+}
+
+// The key for a secret, or null if the verifier says the secret is wrong
+async function deriveVerifiedKey(uuid: string, material: VaultKeyMaterial, secret: string): Promise<CryptoKey | null> {
+  const { salt, iterations = LEGACY_KDF_ITERATIONS, verifier } = material;
+  const key = await deriveKeyEncryptionKey(secret, new Uint8Array(salt), iterations);
+  try {
+    return await openEnvelope(verifier, key, verifierAssociatedData(uuid)) === VERIFIER_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+async function createVaultConfig(
+  uuid: string,
+  source: VaultSource,
+  secret: string,
+  rotatedAt: string = new Date().toISOString()
+): Promise<{ config: VaultKeyMaterial; key: CryptoKey }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iterations = getKdfIterations();
+  const key = await deriveKeyEncryptionKey(secret, salt, iterations);
+  return {
+    config: {
+      source,
+      salt: Array.from(salt),
+      iterations,
+      verifier: await sealEnvelope(VERIFIER_TEXT, key, verifierAssociatedData(uuid)),
+      rotatedAt
+    },
+    key
+  };
+}
+
+// Keys saved with encryptApiKey(key, uuid) before the vault existed; unreadable ones are left alone
+async function sealLegacyKeys(apiKeys: ApiKey[], uuid: string, key: CryptoKey): Promise<ApiKey[]> {
+  return Promise.all(apiKeys.map(async apiKey => {
+    if (isWrappedEnvelope(apiKey.key)) return apiKey;
+    try {
+      const plaintext = await decryptApiKey(apiKey.key, uuid);
+      return { ...apiKey, key: await sealEnvelope(plaintext, key, apiKeyAssociatedData(uuid, apiKey.id)) };
+    } catch {
+      return apiKey;
+    }
+  }));
+}
+
+// Vaults derived with fewer iterations than now configured, and envelopes still in the legacy format
+function needsVaultUpgrade(vault: VaultKeyMaterial, apiKeys: ApiKey[]): boolean {
+  return (vault.iterations ?? LEGACY_KDF_ITERATIONS) < getKdfIterations()
+    || needsReencryption(vault.verifier)
+    || apiKeys.some(apiKey => isWrappedEnvelope(apiKey.key) && needsReencryption(apiKey.key));
+}
+
+// Re-seals while the secret is at hand: a fresh key at the current cost, legacy envelopes in the
+// current format. Left for the rotation to do while one is in progress.
+async function upgradeVault(user: UserData, secret: string, key: CryptoKey): Promise<{ user: UserData; key: CryptoKey }> {
+  const vault = user.vault!;
+  if (vault.pending || !needsVaultUpgrade(vault, user.apiKeys)) {
+    return { user, key };
+  }
+
+  const previous = saltId(vault);
+  const next = (vault.iterations ?? LEGACY_KDF_ITERATIONS) < getKdfIterations() || needsReencryption(vault.verifier)
+    ? await createVaultConfig(user.uuid, vault.source, secret, vault.rotatedAt)
+    : { config: vault, key };
+  let upgraded = 0;
+  const saved = await updateUserRecord(user.uuid, async current => {
+    if (!current.vault || saltId(current.vault) !== previous || current.vault.pending) {
+      return null;
+    }
+    upgraded = 0;
+    return {
+      ...current,
+      vault: next.config,
+      apiKeys: await Promise.all(current.apiKeys.map(async apiKey => {
+        if (!isWrappedEnvelope(apiKey.key)) return apiKey;
+        if (needsReencryption(apiKey.key)) {
+          const associatedData = apiKeyAssociatedData(current.uuid, apiKey.id);
+          upgraded++;
+          return { ...apiKey, key: await sealEnvelope(await openEnvelope(apiKey.key, key, associatedData), next.key, associatedData) };
+        }
+        return next.key === key ? apiKey : { ...apiKey, key: await rewrapEnvelope(apiKey.key, key, next.key) };
+      }))
+    };
+  });
+  if (!saved?.vault || saltId(saved.vault) !== saltId(next.config)) {
+    return { user: saved ?? user, key };
+  }
+
+  logAuditEvent({
+    type: 'VAULT_UPGRADED',
+    actor: user.uuid,
+    target: user.uuid,
+    outcome: 'success',
+    iterations: next.config.iterations ?? LEGACY_KDF_ITERATIONS,
+    keys: upgraded
+  });
+  return { user: saved, key: next.key };
+}
+
+// Returns the user as stored once unlocked, or null for a wrong secret.
+// The first unlock creates the vault from this secret.
+export async function unlockVault(user: UserData, secret: string, source: VaultSource = 'token'): Promise<UserData | null> {
+  let current: UserData | null = user;
+  if (!current.vault) {
+    const created = await createVaultConfig(user.uuid, source, secret);
+    current = await updateUserRecord(user.uuid, async stored => stored.vault ? null : {
+      ...stored,
+      vault: created.config,
+      apiKeys: await sealLegacyKeys(stored.apiKeys, stored.uuid, created.key)
+    });
+  }
+  if (!current?.vault) {
+    return null;
+  }
+
+  const key = await deriveVerifiedKey(user.uuid, current.vault, secret);
+  if (!key) {
+    return null;
+  }
+  const upgraded = await upgradeVault(current, secret, key);
+  const vault = upgraded.user.vault!;
+  const pendingKey = vault.pending ? await deriveVerifiedKey(user.uuid, vault.pending, secret) : null;
+
+  unlockedVaults.set(user.uuid, { salt: saltId(vault), key: upgraded.key, pendingKey: pendingKey ?? undefined });
+  return upgraded.user;
+}
+
+// Drops one user's vault key, or every key when signing out
+export function lockVault(uuid?: string): void {
+  if (uuid) {
+    unlockedVaults.delete(uuid);
+  } else {
+    unlockedVaults.clear();
+  }
+}
+
+// Sealed under the rotation key while one is in progress, so the rotation has nothing left to do
+export async function sealApiKey(user: UserData, plaintext: string, keyId: string): Promise<string> {
+  const unlocked = getUnlockedVault(user);
+  if (!unlocked) {
+    throw new Error('Vault is locked');
+  }
+  return sealEnvelope(plaintext, unlocked.pendingKey ?? unlocked.key, apiKeyAssociatedData(user.uuid, keyId));
+}
+
+// Decrypted on demand for reveal and copy; callers should not keep the result around
+export async function revealApiKey(user: UserData, apiKey: ApiKey): Promise<string> {
+  const unlocked = getUnlockedVault(user);
+  if (!unlocked) {
+    throw new Error('Vault is locked');
+  }
+  const associatedData = apiKeyAssociatedData(user.uuid, apiKey.id);
+  if (unlocked.pendingKey) {
+    try {
+      return await openEnvelope(apiKey.key, unlocked.pendingKey, associatedData);
+    } catch {
+      // Not reached by the rotation yet
+    }
+  }
+  return openEnvelope(apiKey.key, unlocked.key, associatedData);
+}
+
+// Switches to a new token or passphrase by re-wrapping each data key; sealed values are untouched
+export async function changeVaultSecret(user: UserData, source: VaultSource, secret: string): Promise<UserData> {
+  if (source === 'passphrase' && secret.length < MIN_VAULT_PASSPHRASE_LENGTH) {
+    throw new Error(`Vault passphrase must be at least ${MIN_VAULT_PASSPHRASE_LENGTH} characters`);
+  }
+  const from = getUnlockedVault(user)?.key;
+  if (!from || !user.vault) {
+    throw new Error('Vault is locked');
+  }
+  if (user.vault.pending) {
+    throw new Error('Finish the key rotation first');
+  }
+
+  // Only the wrapping changes, so the data keys keep their rotation date
+  const previous = saltId(user.vault);
+  const next = await createVaultConfig(user.uuid, source, secret, user.vault.rotatedAt);
+  const saved = await updateUserRecord(user.uuid, async current => {
+    if (!current.vault || saltId(current.vault) !== previous || current.vault.pending) {
+      throw new Error('Vault was changed in another tab; unlock it again');
+    }
+    return {
+      ...current,
+      vault: next.config,
+      apiKeys: await Promise.all(current.apiKeys.map(async apiKey => ({
+        ...apiKey,
+        key: await rewrapEnvelope(apiKey.key, from, next.key)
+      })))
+    };
+  });
+  if (!saved) {
+    throw new Error('User not found');
+  }
+
+  unlockedVaults.set(user.uuid, { salt: saltId(next.config), key: next.key });
+  logAuditEvent({ type: 'VAULT_SECRET_CHANGED', actor: user.uuid, target: user.uuid, outcome: 'success', source });
+  return saved;
+}
+
+// Due when the data keys are a year old, predate rotation, or predate the latest admin request
+export function isVaultRotationDue(
+  user: UserData | null,
+  request: KeyRotationRequest | null,
+  now: number = Date.now()
+): boolean {
+  const vault = user?.vault;
+  if (!vault) {
+    return false;
+  }
+  if (vault.pending) {
+    return true;
+  }
+  const rotatedAt = vault.rotatedAt ? new Date(vault.rotatedAt).getTime() : 0;
+  return now - rotatedAt >= KEY_ROTATION_INTERVAL_DAYS * 24 * 60 * 60 * 1000 ||
+    (request !== null && rotatedAt < new Date(request.requestedAt).getTime());
+}
+
+export interface RotationProgress {
+  done: number;
+  total: number;
+}
+
+export interface RotationResult {
+  user: UserData;
+  rotated: number;
+  failed: string[]; // Ids of keys neither key could open; left as they were
+  resumed: boolean;
+}
+
+// Replaces every data key: each API key is decrypted with the old key material and sealed again
+// under new material from the same secret. Batches are saved as they finish and the new material
+// is recorded first, so a rotation cut short resumes where it stopped the next time it runs.
+export async function rotateVaultKeys(
+  user: UserData,
+  secret: string,
+  onProgress?: (progress: RotationProgress) => void,
+  batchSize: number = ROTATION_BATCH_SIZE
+): Promise<RotationResult> {
+  const vault = user.vault;
+  if (!vault) {
+    throw new Error('Vault is not set up');
+  }
+  const oldKey = await deriveVerifiedKey(user.uuid, vault, secret);
+  if (!oldKey) {
+    throw new Error('Incorrect vault secret');
+  }
+
+  const resumed = Boolean(vault.pending);
+  let current: UserData | null = user;
+  if (!vault.pending) {
+    const next = await createVaultConfig(user.uuid, vault.source, secret);
+    current = await updateUserRecord(user.uuid, stored => {
+      if (!stored.vault || saltId(stored.vault) !== saltId(vault)) {
+        throw new Error('Vault was changed in another tab; unlock it again');
+      }
+      return stored.vault.pending ? null : { ...stored, vault: { ...stored.vault, pending: next.config } };
+    });
+  }
+  const pending = current?.vault?.pending;
+  if (!current || !pending) {
+    throw new Error('User not found');
+  }
+  const newKey = await deriveVerifiedKey(user.uuid, pending, secret);
+  if (!newKey) {
+    throw new Error('Incorrect vault secret');
+  }
+  unlockedVaults.set(user.uuid, { salt: saltId(vault), key: oldKey, pendingKey: newKey });
+
+  const failed = new Set<string>();
+  const isMoved = (apiKey: ApiKey) =>
+    openEnvelope(apiKey.key, newKey, apiKeyAssociatedData(user.uuid, apiKey.id)).then(() => true, () => false);
+  const reseal = async (apiKey: ApiKey): Promise<ApiKey | null> => {
+    const associatedData = apiKeyAssociatedData(user.uuid, apiKey.id);
+    try {
+      const plaintext = await openEnvelope(apiKey.key, oldKey, associatedData);
+      return { ...apiKey, key: await sealEnvelope(plaintext, newKey, associatedData) };
+    } catch {
+      return null;
+    }
+  };
+
+  let rotated = 0;
+  for (;;) {
+    let batch = 0;
+    let remaining = 0;
+    current = await updateUserRecord(user.uuid, async stored => {
+      if (!stored.vault?.pending || saltId(stored.vault.pending) !== saltId(pending)) {
+        throw new Error('Vault was changed in another tab; unlock it again');
+      }
+      batch = 0;
+      remaining = 0;
+      const apiKeys: ApiKey[] = [];
+      for (const apiKey of stored.apiKeys) {
+        if (failed.has(apiKey.id) || await isMoved(apiKey)) {
+          apiKeys.push(apiKey);
+        } else if (batch >= batchSize) {
+          remaining++;
+          apiKeys.push(apiKey);
+        } else {
+          const resealed = await reseal(apiKey);
+          if (resealed) {
+            batch++;
+          } else {
+            failed.add(apiKey.id);
+          }
+          apiKeys.push(resealed ?? apiKey);
+        }
+      }
+      return batch > 0 ? { ...stored, apiKeys } : null;
+    });
+    if (!current) {
+      throw new Error('User not found');
+    }
+    rotated += batch;
+    onProgress?.({ done: current.apiKeys.length - remaining, total: current.apiKeys.length });
+    if (remaining === 0) {
+      break;
+    }
+  }
+
+  const finished = await updateUserRecord(user.uuid, stored => {
+    if (!stored.vault?.pending || saltId(stored.vault.pending) !== saltId(pending)) {
+      throw new Error('Vault was changed in another tab; unlock it again');
+    }
+    return { ...stored, vault: { ...pending, rotatedAt: new Date().toISOString() } };
+  });
+  if (!finished?.vault) {
+    throw new Error('User not found');
+  }
+
+  unlockedVaults.set(user.uuid, { salt: saltId(finished.vault), key: newKey });
+  logAuditEvent({
+    type: 'VAULT_KEYS_ROTATED',
+    actor: user.uuid,
+    target: user.uuid,
+    outcome: failed.size > 0 ? 'failure' : 'success',
+    keys: rotated,
+    failed: failed.size,
+    resumed
+  });
+  return { user: finished, rotated, failed: [...failed], resumed };
+}
+
+export interface KeyRotationStatus {
+  request: KeyRotationRequest | null;
+  vaults: number;
+  due: number; // Includes vaults part-way through
+  inProgress: number;
+}
+
+export async function getKeyRotationStatus(
+  request: KeyRotationRequest | null,
+  now: number = Date.now()
+): Promise<KeyRotationStatus> {
+  const vaulted = (await listAllUsers()).filter(user => user.vault);
+  return {
+    request,
+    vaults: vaulted.length,
+    due: vaulted.filter(user => isVaultRotationDue(user, request, now)).length,
+    inProgress: vaulted.filter(user => user.vault?.pending).length
+  };
+}
+
+// Only each owner's secret opens their vault, so this marks every vault due; each one
+// re-encrypts the next time its owner signs in or unlocks it
+export async function requestKeyRotation(actorUuid: string): Promise<KeyRotationRequest> {
+  const request: KeyRotationRequest = { requestedAt: new Date().toISOString(), requestedBy: actorUuid };
+  await saveKeyRotationRequest(request);
+
+  const status = await getKeyRotationStatus(request);
+  logAuditEvent({ type: 'KEY_ROTATION_REQUESTED', actor: actorUuid, target: null, outcome: 'success', vaults: status.vaults });
+  return request;
+}
@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import {
+  AUDIT_GENESIS_HASH,
+  computeAuditHash,
+  dismissAuditWriteFailure,
+  filterAuditEntries,
+  flushAuditLog,
+  getAuditActor,
+  getAuditLogs,
+  getAuditTarget,
+  getAuditWriteFailure,
+  logAuditEvent,
+  redactAuditValue,
+  REDACTED,
+  toAuditCsv,
+  toAuditJsonLines,
+  verifyAuditChain
+} from '../src/utils/audit';
+import { generateSecureToken, parseToken } from '../src/utils/crypto';
+import type { AuditEntry } from '../src/types';
+
+const AUDIT_HEAD_KEY = 'api_token_monitor_v2_audit_head';
+const entryKey = (seq: number) => `api_token_monitor_v2_audit_entry_${seq}`;
+
+const logLength = (): number => JSON.parse(mockStorage[AUDIT_HEAD_KEY] ?? '{"length":0}').length;
+const readLog = (): AuditEntry[] =>
+  Array.from({ length: logLength() }, (_, seq) => JSON.parse(mockStorage[entryKey(seq)]));
+const writeLog = (entries: AuditEntry[]) => {
+  Array.from({ length: logLength() }, (_, seq) => delete mockStorage[entryKey(seq)]);
+  entries.forEach((entry, seq) => { mockStorage[entryKey(seq)] = JSON.stringify(entry); });
+  mockStorage[AUDIT_HEAD_KEY] = JSON.stringify({ length: entries.length });
+};
+
+async function logSample() {
+  logAuditEvent({ type: 'LOGIN_SUCCESS', actor: 'a', target: 'a', outcome: 'success', role: 'admin' });
+  logAuditEvent({
+    type: 'TOKEN_GENERATED',
+    actor: 'a',
+    target: 'b',
+    outcome: 'success',
+    role: 'user',
+    permissions: ['read:dashboard'],
+    scope: null
+  });
+  logAuditEvent({ type: 'LOGIN_FAILED', actor: null, target: null, outcome: 'failure', reason: 'unknown_token' });
+  await flushAuditLog();
+}
+
+describe('Audit Log', () => {
+  beforeEach(async () => {
+    await flushAuditLog();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  it('should persist structured entries in logging order', async () => {
+    await logSample();
+
+    const entries = readLog();
+    expect(entries.map(entry => entry.event)).toEqual(['LOGIN_SUCCESS', 'TOKEN_GENERATED', 'LOGIN_FAILED']);
+    expect(entries.map(entry => entry.seq)).toEqual([0, 1, 2]);
+    expect(entries[1].details).toEqual({
+      actor: 'a',
+      target: 'b',
+      outcome: 'success',
+      role: 'user',
+      permissions: ['read:dashboard'],
+      scope: null,
+      client: { fingerprint: 'server', userAgent: null },
+      correlationId: expect.stringMatching(/^[0-9a-f-]{36}$/)
+    });
+    expect(await getAuditLogs()).toEqual(entries);
+  });
+
+  it('should link each entry to the hash of the one before', async () => {
+    await logSample();
+
+    const entries = readLog();
+    expect(entries[0].prevHash).toBe(AUDIT_GENESIS_HASH);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+    expect(entries[0].hash).toBe(await computeAuditHash(entries[0]));
+    expect(entries[0].hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should verify an untouched chain', async () => {
+    await logSample();
+
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 3, brokenAt: null, reason: null });
+  });
+
+  it('should treat an empty log as valid', async () => {
+    expect(await verifyAuditChain()).toEqual({ valid: true, checked: 0, brokenAt: null, reason: null });
+  });
+
+  it('should report an edited entry', async () => {
+    await logSample();
+    const entries = readLog();
+    entries[1].details = { role: 'admin', permissions: ['admin:access'] };
+    writeLog(entries);
+
+    expect(await verifyAuditChain()).toEqual({ valid: false, checked: 1, brokenAt: 1, reason: 'hash' });
+  });
+
+  it('should report an edit even when the edited entry was rehashed', async () => {
+    await logSample();
+    const entries = readLog();
+    entries[0].event = 'LOGIN_FAILED';
+    entries[0].hash = await computeAuditHash(entries[0]);
+    writeLog(entries);
+
+    const report = await verifyAuditChain();
+    expect(report.brokenAt).toBe(1);
+    expect(report.reason).toBe('link');
+  });
+
+  it('should report a removed entry', async () => {
+    await logSample();
+    writeLog(readLog().filter(entry => entry.seq !== 1));
+
+    expect(await verifyAuditChain()).toEqual({ valid: false, checked: 1, brokenAt: 1, reason: 'sequence' });
+  });
+
+  it('should chain new entries onto the stored log', async () => {
+    await logSample();
+    const before = readLog();
+
+    logAuditEvent({ type: 'SESSION_ENDED', actor: 'a', target: 'a', outcome: 'success' });
+    await flushAuditLog();
+
+    const after = readLog();
+    expect(after.slice(0, 3)).toEqual(before);
+    expect(after[3].prevHash).toBe(before[2].hash);
+    expect((await verifyAuditChain()).valid).toBe(true);
+  });
+
+  it('should store each entry under its own key and leave earlier ones untouched', async () => {
+    await logSample();
+    const stored = mockStorage[entryKey(0)];
+    const setItem = vi.spyOn(localStorage, 'setItem');
+
+    logAuditEvent({ type: 'SESSION_ENDED', actor: 'a', target: 'a', outcome: 'success' });
+    await flushAuditLog();
+
+    expect(setItem.mock.calls.map(([key]) => key).sort()).toEqual([entryKey(3), AUDIT_HEAD_KEY]);
+    expect(mockStorage[entryKey(0)]).toBe(stored);
+    setItem.mockRestore();
+  });
+
+  it('should move a log stored as one array to one key per entry', async () => {
+    await logSample();
+    const entries = readLog();
+    writeLog([]);
+    delete mockStorage[AUDIT_HEAD_KEY];
+    mockStorage['api_token_monitor_v2_audit_log'] = JSON.stringify(entries);
+
+    expect(await getAuditLogs()).toEqual(entries);
+    expect(readLog()).toEqual(entries);
+    expect(mockStorage['api_token_monitor_v2_audit_log']).toBeUndefined();
+  });
+
+  it('should record a damaged last entry instead of chaining over it', async () => {
+    await logSample();
+    mockStorage[entryKey(2)] = JSON.stringify({ seq: 2, details: 'edited' });
+
+    logAuditEvent({ type: 'SESSION_ENDED', actor: 'a', target: 'a', outcome: 'success' });
+    await flushAuditLog();
+
+    const entries = await getAuditLogs();
+    expect(entries.map(entry => entry.seq)).toEqual([0, 1, 3, 4]);
+    expect(entries[2]).toMatchObject({ event: 'AUDIT_CHAIN_BROKEN', prevHash: AUDIT_GENESIS_HASH });
+    expect(entries[2].details).toMatchObject({ brokenAt: 2 });
+    expect(entries[3]).toMatchObject({ event: 'SESSION_ENDED', prevHash: entries[2].hash });
+    expect(await verifyAuditChain()).toMatchObject({ valid: false, brokenAt: 2, reason: 'sequence' });
+  });
+
+  it('should report an entry that could not be stored', async () => {
+    const setItem = vi.spyOn(localStorage, 'setItem').mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    logAuditEvent({ type: 'SESSION_ENDED', actor: 'a', target: 'a', outcome: 'success' });
+    await flushAuditLog();
+    setItem.mockRestore();
+
+    expect(getAuditWriteFailure()).toMatchObject({ count: 1, event: 'SESSION_ENDED', error: 'QuotaExceededError' });
+    dismissAuditWriteFailure();
+    expect(getAuditWriteFailure()).toBeNull();
+  });
+});
+
+describe('Audit Log Viewer', () => {
+  const entry = (seq: number, timestamp: string, event: string, details: Record<string, unknown>): AuditEntry =>
+    ({ seq, timestamp, event, details, prevHash: 'p', hash: 'h' });
+
+  const entries = [
+    entry(0, '2025-02-13T08:00:00.000Z', 'LOGIN_SUCCESS', { uuid: 'user-aaa', role: 'user' }),
+    entry(1, '2025-02-13T09:00:00.000Z', 'TOKEN_GENERATED', {
+      actor: 'admin-xyz',
+      target: 'user-bbb',
+      outcome: 'success',
+      correlationId: 'corr-1',
+      role: 'user'
+    }),
+    entry(2, '2025-02-13T10:00:00.000Z', 'RATE_LIMIT_EXCEEDED', { identifier: 'client:abc', attempts: 10 }),
+    entry(3, '2025-02-13T11:00:00.000Z', 'ADMIN_VERIFY_FAILED', { reason: 'No admin hash configured' }),
+  ];
+
+  it('should read actor and target from typed and legacy entries', () => {
+    expect(getAuditActor(entries[0])).toBe('user-aaa');
+    expect(getAuditActor(entries[1])).toBe('admin-xyz');
+    expect(getAuditTarget(entries[1])).toBe('user-bbb');
+    expect(getAuditActor(entries[2])).toBeNull();
+  });
+
+  it('should filter by event, actor and time range', () => {
+    expect(filterAuditEntries(entries, { event: 'TOKEN_GENERATED' }).map(e => e.seq)).toEqual([1]);
+    expect(filterAuditEntries(entries, { actor: 'ADMIN-x' }).map(e => e.seq)).toEqual([1]);
+    expect(filterAuditEntries(entries, {
+      from: Date.parse('2025-02-13T09:00:00.000Z'),
+      to: Date.parse('2025-02-13T10:00:00.000Z')
+    }).map(e => e.seq)).toEqual([1, 2]);
+    expect(filterAuditEntries(entries, {})).toHaveLength(4);
+  });
+
+  it('should export CSV with quoted details', () => {
+    const lines = toAuditCsv(entries.slice(0, 2)).trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe('seq,timestamp,event,actor,target,outcome,correlationId,details,prevHash,hash');
+    expect(lines[1]).toBe('0,2025-02-13T08:00:00.000Z,LOGIN_SUCCESS,user-aaa,user-aaa,,,"{""uuid"":""user-aaa"",""role"":""user""}",p,h');
+    expect(lines[2]).toContain('TOKEN_GENERATED,admin-xyz,user-bbb,success,corr-1,');
+  });
+
+  it('should defuse spreadsheet formulas in CSV fields', () => {
+    const csv = toAuditCsv([entry(0, '2025-02-13T08:00:00.000Z', '=HYPERLINK("x")', {})]);
+
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+
+  it('should export one parseable entry per JSON line', () => {
+    const lines = toAuditJsonLines(entries).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(4);
+    expect(JSON.parse(lines[3])).toEqual(entries[3]);
+    expect(toAuditJsonLines([])).toBe('');
+  });
+});
+
+describe('Audit Redaction', () => {
+  beforeEach(async () => {
+    await flushAuditLog();
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  it('should mask a token passed by mistake before it is stored or printed', async () => {
+    const token = generateSecureToken();
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    logAuditEvent({ type: 'LOGIN_FAILED', actor: null, target: token, outcome: 'failure', reason: `bad token ${token}` });
+    await flushAuditLog();
+
+    expect(JSON.stringify(mockStorage)).not.toContain(token);
+    expect(JSON.stringify(mockStorage)).not.toContain(parseToken(token)!.secret);
+    expect(log.mock.calls.flat().join(' ')).not.toContain(token);
+    expect(readLog()[0].details).toMatchObject({ target: REDACTED, reason: `bad token ${REDACTED}` });
+    expect((await verifyAuditChain()).valid).toBe(true);
+    log.mockRestore();
+  });
+
+  it('should mask secret-named fields whatever their value', () => {
+    expect(redactAuditValue({
+      token: 'short',
+      apiKey: 'anything',
+      tokenHash: 'x',
+      nested: { password: 'hunter2', recoveryCodes: ['a', 'b'] },
+      tokenId: '0123456789abcdef',
+      role: 'admin'
+    })).toEqual({
+      token: REDACTED,
+      apiKey: REDACTED,
+      tokenHash: REDACTED,
+      nested: { password: REDACTED, recoveryCodes: REDACTED },
+      tokenId: '0123456789abcdef',
+      role: 'admin'
+    });
+  });
+
+  it('should mask provider keys and stored hashes inside strings', () => {
+    expect(redactAuditValue('key sk-ant-api03-abcdefghijkl leaked')).toBe(`key ${REDACTED} leaked`);
+    expect(redactAuditValue('xai-1234567890abcdef')).toBe(REDACTED);
+    expect(redactAuditValue('$argon2id$v=19$m=65536,t=3,p=1$c2FsdA$aGFzaA')).toBe(REDACTED);
+    expect(redactAuditValue(['a'.repeat(64)])).toEqual([REDACTED]);
+  });
+
+  it('should leave ids, counts and reasons untouched', () => {
+    const details = {
+      target: '550e8400-e29b-41d4-a716-446655440000',
+      attempts: 5,
+      reason: 'unknown_token',
+      identifier: 'token:1a2b3c4d'
+    };
+
+    expect(redactAuditValue(details)).toEqual(details);
+  });
+});
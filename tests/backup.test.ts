@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Saved filters are kept in localStorage
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] ?? null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import {
+  completeSetup,
+  createUser,
+  DatasetConflictError,
+  deleteUser,
+  getStorageAdapter,
+  listAllUsers,
+  loadSetupRecord,
+  loadUserData,
+  readStoredDataset,
+  replaceStoredDataset,
+  saveUserData,
+  setStorageAdapter
+} from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import { applyRestore, exportBackup, planRestore, readBackup } from '../src/utils/backup';
+import { flushAuditLog, getAuditLogs, logAuditEvent, verifyAuditChain } from '../src/utils/audit';
+import { loadSavedFilters, storeSavedFilters } from '../src/utils/savedFilters';
+import type { SavedFilter } from '../src/types';
+
+const PASSPHRASE = 'correct horse battery staple';
+const TOKEN_INDEX_KEY = 'api_token_monitor_v2_token_index';
+
+const filter = (id: string): SavedFilter => ({ id, name: `Filter ${id}`, providerFilter: 'openai', statusFilter: 'all' });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  setStorageAdapter(createMemoryStorageAdapter());
+  Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+});
+
+describe('Backup Archive', () => {
+  it('should round-trip the dataset behind a readable manifest', async () => {
+    const user = await createUser('hash-a', 'user', { tokenId: 'lookup-a' });
+    storeSavedFilters([filter('1')]);
+
+    const text = await exportBackup(PASSPHRASE, user.uuid);
+    const { manifest, dataset } = await readBackup(text, PASSPHRASE);
+
+    expect(text).not.toContain('hash-a');
+    expect(manifest).toMatchObject({ format: 'api-token-monitor-backup', version: 1, createdBy: user.uuid });
+    expect(manifest.counts).toMatchObject({ users: 1, savedFilters: 1, setup: 0 });
+    expect(dataset.users).toEqual([user]);
+    expect(dataset.savedFilters).toEqual([filter('1')]);
+
+    await flushAuditLog();
+    expect((await getAuditLogs()).map(entry => entry.event)).toContain('BACKUP_EXPORTED');
+  });
+
+  it('should refuse a short passphrase, a wrong one and an edited archive', async () => {
+    await createUser('hash-a', 'user');
+    const text = await exportBackup(PASSPHRASE, null);
+    const archive = JSON.parse(text);
+
+    await expect(exportBackup('short', null)).rejects.toThrow('at least 12 characters');
+    await expect(readBackup(text, 'wrong passphrase!')).rejects.toThrow('Incorrect passphrase');
+    await expect(readBackup('{"hello":1}', PASSPHRASE)).rejects.toThrow('Not a backup file');
+
+    const edited = { ...archive, manifest: { ...archive.manifest, createdBy: 'someone-else' } };
+    await expect(readBackup(JSON.stringify(edited), PASSPHRASE)).rejects.toThrow('Incorrect passphrase, or the backup was modified');
+
+    const newer = { ...archive, manifest: { ...archive.manifest, version: 2 } };
+    await expect(readBackup(JSON.stringify(newer), PASSPHRASE)).rejects.toThrow('newer version');
+  });
+});
+
+describe('Restore', () => {
+  it('should preview a merge without writing anything', async () => {
+    const kept = await createUser('hash-a', 'user');
+    const removed = await createUser('hash-b', 'user');
+    storeSavedFilters([filter('1')]);
+    const backup = await readBackup(await exportBackup(PASSPHRASE, null), PASSPHRASE);
+
+    await deleteUser(removed.uuid);
+    const newer = await saveUserData({ ...kept, role: 'manager' });
+    const added = await createUser('hash-c', 'user');
+    storeSavedFilters([filter('2')]);
+    const before = await listAllUsers();
+
+    const plan = await planRestore(backup, 'merge', null);
+
+    expect(plan.diff.users).toMatchObject({ added: [removed.uuid], skipped: [kept.uuid], removed: [] });
+    expect(plan.diff.savedFilters.added).toEqual(['1']);
+    expect(plan.result.users.map(user => user.uuid).sort()).toEqual([newer.uuid, added.uuid, removed.uuid].sort());
+    expect(await listAllUsers()).toEqual(before);
+    expect(loadSavedFilters()).toEqual([filter('2')]);
+  });
+
+  it('should merge missing and newer records and keep the audit chain', async () => {
+    const user = await createUser('hash-a', 'user', { tokenId: 'lookup-a' });
+    const edited = await saveUserData({ ...user, role: 'manager' });
+    const backup = await readBackup(await exportBackup(PASSPHRASE, null), PASSPHRASE);
+    await flushAuditLog();
+
+    await deleteUser(user.uuid);
+    const auditBefore = await getAuditLogs();
+    const plan = await applyRestore(backup, 'merge', null);
+    await flushAuditLog();
+
+    expect(plan.diff.users.added).toEqual([user.uuid]);
+    expect(await loadUserData(user.uuid)).toMatchObject({ role: 'manager', revision: (edited.revision ?? 0) + 1 });
+    expect((await getStorageAdapter().get<Record<string, string>>(TOKEN_INDEX_KEY))?.['lookup-a']).toBe(user.uuid);
+
+    const auditAfter = await getAuditLogs();
+    expect(auditAfter.slice(0, auditBefore.length)).toEqual(auditBefore);
+    expect(auditAfter[auditAfter.length - 1].event).toBe('BACKUP_RESTORED');
+  });
+
+  it('should replace the dataset, flag the signed-out actor and keep the setup marker', async () => {
+    const fromBackup = await createUser('hash-a', 'user');
+    storeSavedFilters([filter('1')]);
+    const backup = await readBackup(await exportBackup(PASSPHRASE, null), PASSPHRASE);
+
+    const admin = await completeSetup('hash-admin', 'lookup-admin');
+    storeSavedFilters([filter('2')]);
+
+    const plan = await applyRestore(backup, 'replace', admin.uuid);
+
+    expect(plan.diff.users).toMatchObject({ unchanged: [fromBackup.uuid], removed: [admin.uuid] });
+    expect(plan.signsOutActor).toBe(true);
+    expect(plan.warnings).toContain('No active admin token remains after this restore.');
+    expect((await listAllUsers()).map(user => user.uuid)).toEqual([fromBackup.uuid]);
+    expect(await getStorageAdapter().get(TOKEN_INDEX_KEY)).toEqual({});
+    expect(await loadSetupRecord()).toMatchObject({ adminUuid: admin.uuid });
+    expect(loadSavedFilters()).toEqual([filter('1')]);
+  });
+
+  it('should warn when only an expired admin token would remain', async () => {
+    const expired = await createUser('hash-old', 'admin', { expiresAt: new Date(Date.now() - 1000).toISOString() });
+    const backup = await readBackup(await exportBackup(PASSPHRASE, null), PASSPHRASE);
+
+    await deleteUser(expired.uuid);
+    const admin = await createUser('hash-admin', 'admin');
+    const plan = await planRestore(backup, 'replace', admin.uuid);
+
+    expect(plan.warnings).toContain('No active admin token remains after this restore.');
+  });
+
+  it('should keep the live audit chain in replace mode and record the restore in it', async () => {
+    await createUser('hash-a', 'user');
+    const backup = await readBackup(await exportBackup(PASSPHRASE, null), PASSPHRASE);
+    logAuditEvent({ type: 'SESSION_ENDED', actor: null, target: null, outcome: 'success' });
+    await flushAuditLog();
+    const auditBefore = await getAuditLogs();
+
+    const plan = await applyRestore(backup, 'replace', null);
+    await flushAuditLog();
+
+    const auditAfter = await getAuditLogs();
+    expect(plan.diff.auditLog.removed).toEqual([]);
+    expect(auditAfter.slice(0, auditBefore.length)).toEqual(auditBefore);
+    expect(auditAfter[auditAfter.length - 1].event).toBe('BACKUP_RESTORED');
+    expect((await verifyAuditChain()).valid).toBe(true);
+  });
+
+  it('should refuse to write a restore planned against records that changed since', async () => {
+    const user = await createUser('hash-a', 'user');
+    const { users, roles, setup, keyRotation } = await readStoredDataset();
+    const base = { users, roles, setup, keyRotation };
+
+    await saveUserData({ ...user, role: 'manager' });
+
+    await expect(replaceStoredDataset({ ...base, users: [] }, base)).rejects.toThrow(DatasetConflictError);
+    expect(await loadUserData(user.uuid)).toMatchObject({ role: 'manager' });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock localStorage / sessionStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+const mockSessionStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] ?? null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+vi.stubGlobal('sessionStorage', {
+  getItem: (key: string) => mockSessionStorage[key] ?? null,
+  setItem: (key: string, value: string) => { mockSessionStorage[key] = value; },
+  removeItem: (key: string) => { delete mockSessionStorage[key]; },
+});
+
+import { createUser, findUserByToken, loadBreakGlassRecord, setStorageAdapter } from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import { createMemoryRateLimitStore } from '../src/utils/rateLimitStore';
+import { BREAK_GLASS_UUID, loadSessionUser, setRateLimitStore } from '../src/utils/auth';
+import { flushAuditLog, getAuditLogs } from '../src/utils/audit';
+import { resumeSession, type SessionConfig } from '../src/utils/session';
+import {
+  BREAK_GLASS_SESSION_MINUTES,
+  generateBreakGlassCodes,
+  mintReplacementAdminToken,
+  redeemBreakGlassCode
+} from '../src/utils/breakGlass';
+import type { UserData } from '../src/types';
+
+const MINUTE = 60 * 1000;
+
+const config: SessionConfig = {
+  idleTimeout: 30 * MINUTE,
+  absoluteLifetime: 8 * 60 * MINUTE,
+  persistence: 'session'
+};
+
+async function createAdmin(): Promise<UserData> {
+  return createUser('hash-admin', 'admin');
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  setStorageAdapter(createMemoryStorageAdapter());
+  setRateLimitStore(createMemoryRateLimitStore());
+  Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  Object.keys(mockSessionStorage).forEach(key => delete mockSessionStorage[key]);
+});
+
+describe('Break-Glass Codes', () => {
+  it('should let only admins generate codes and store them hashed', async () => {
+    const admin = await createAdmin();
+    const user = await createUser('hash-user', 'user');
+
+    await expect(generateBreakGlassCodes(user, 2)).rejects.toThrow('Only admins');
+    const codes = await generateBreakGlassCodes(admin, 2);
+    const record = await loadBreakGlassRecord();
+
+    expect(codes).toHaveLength(2);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{8}(-[a-z2-7]{4}){4}$/));
+    expect(record).toMatchObject({ generatedBy: admin.uuid, total: 2 });
+    expect(record!.codes.map(entry => entry.id)).toEqual(codes.map(code => code.slice(0, 8)));
+    expect(JSON.stringify(record)).not.toContain(codes[0].slice(9));
+  });
+
+  it('should spend each code once and audit every attempt', async () => {
+    const [code, other] = await generateBreakGlassCodes(await createAdmin(), 2);
+
+    const redeemed = await redeemBreakGlassCode(code.toUpperCase().replace(/-/g, ' '), config);
+    const replayed = await redeemBreakGlassCode(code, config);
+    const forged = await redeemBreakGlassCode(`${other.slice(0, 9)}aaaa-aaaa-aaaa-aaaa`, config);
+
+    expect(redeemed).toMatchObject({ success: true, remaining: 1 });
+    expect(redeemed.session?.breakGlass?.expiresAt).toBeLessThanOrEqual(Date.now() + BREAK_GLASS_SESSION_MINUTES * MINUTE);
+    expect(replayed.success).toBe(false);
+    expect(forged.success).toBe(false);
+    expect((await loadBreakGlassRecord())?.codes).toHaveLength(1);
+
+    await flushAuditLog();
+    const events = (await getAuditLogs()).map(entry => entry.event);
+    expect(events.filter(event => event === 'BREAK_GLASS_CODE_REDEEMED')).toHaveLength(1);
+    expect(events.filter(event => event === 'BREAK_GLASS_CODE_REJECTED')).toHaveLength(2);
+  });
+
+  it('should stop working once new codes are generated', async () => {
+    const admin = await createAdmin();
+    const [old] = await generateBreakGlassCodes(admin, 1);
+    await generateBreakGlassCodes(admin, 1);
+
+    expect((await redeemBreakGlassCode(old, config)).success).toBe(false);
+  });
+});
+
+describe('Break-Glass Session', () => {
+  it('should hold no permissions and mint exactly one admin token', async () => {
+    const [code] = await generateBreakGlassCodes(await createAdmin(), 1);
+    await redeemBreakGlassCode(code, config);
+
+    expect((await loadSessionUser(BREAK_GLASS_UUID))?.permissions).toEqual([]);
+
+    const { token, user } = await mintReplacementAdminToken(config);
+
+    expect(user.role).toBe('admin');
+    expect((await findUserByToken(token))?.user.uuid).toBe(user.uuid);
+    await expect(mintReplacementAdminToken(config)).rejects.toThrow('already issued');
+
+    await flushAuditLog();
+    const minted = (await getAuditLogs()).find(entry => entry.event === 'BREAK_GLASS_TOKEN_MINTED');
+    expect(minted?.details).toMatchObject({ actor: BREAK_GLASS_UUID, target: user.uuid });
+  });
+
+  it('should let only one of two concurrent mints through', async () => {
+    const [code] = await generateBreakGlassCodes(await createAdmin(), 1);
+    await redeemBreakGlassCode(code, config);
+
+    const results = await Promise.allSettled([mintReplacementAdminToken(config), mintReplacementAdminToken(config)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({
+      reason: expect.objectContaining({ message: expect.stringContaining('already issued') })
+    });
+  });
+
+  it('should refuse to mint outside a live break-glass session', async () => {
+    await expect(mintReplacementAdminToken(config)).rejects.toThrow('session has expired');
+
+    const [code] = await generateBreakGlassCodes(await createAdmin(), 1);
+    await redeemBreakGlassCode(code, config, Date.now() - (BREAK_GLASS_SESSION_MINUTES + 1) * MINUTE);
+
+    await expect(mintReplacementAdminToken(config)).rejects.toThrow('session has expired');
+    expect((await resumeSession(config)).valid).toBe(false);
+  });
+});
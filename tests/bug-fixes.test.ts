@@ -49,29 +49,22 @@ describe('BUG FIX VERIFICATION', () => {
   });
 
   // ============================================================================
-  // BUG-002: DOCUMENTATION - PBKDF2-SHA256 vs Argon2id
+  // BUG-002: DOCUMENTATION - Argon2id with legacy PBKDF2-SHA256 verification
   // ============================================================================
   describe('BUG-002: Documentation Fix', () => {
-    it('crypto.ts should reference PBKDF2-SHA256, not Argon2id', () => {
+    it('crypto.ts should still reference PBKDF2-SHA256 for legacy hashes', () => {
       const cryptoContent = fs.readFileSync('./src/utils/crypto.ts', 'utf-8');
       
-      // Should mention PBKDF2
+      // Legacy hashes are still verified
       expect(cryptoContent).toContain('PBKDF2');
-      
-      // Should NOT claim Argon2id in the main hashing comments
-      // (Note: comments about Argon2id for backend migration are OK)
     });
 
-    it('should not have misleading Argon2id claims in comments', () => {
+    it('hashToken should implement the Argon2id it documents', () => {
       const cryptoContent = fs.readFileSync('./src/utils/crypto.ts', 'utf-8');
       
-      // The function should not claim to use Argon2id in its implementation
-      const hashTokenMatch = cryptoContent.match(/export async function hashToken[\s\S]*?^}/m);
-      if (hashTokenMatch) {
-        const hashTokenFunc = hashTokenMatch[0];
-        // The actual implementation should mention PBKDF2
-        expect(hashTokenFunc).toContain('PBKDF2');
-      }
+      const hashTokenMatch = cryptoContent.match(/export async function hashToken\([\s\S]*?^}/m);
+      expect(hashTokenMatch).not.toBeNull();
+      expect(hashTokenMatch![0]).toContain('argon2id(');
     });
   });
 
@@ -79,17 +72,31 @@ describe('BUG FIX VERIFICATION', () => {
   // BUG-004: DATA PERSISTENCE - localStorage
   // ============================================================================
   describe('BUG-004: Data Persistence Fix', () => {
-    it('storage.ts should use localStorage, not in-memory Map', () => {
-      const storageContent = fs.readFileSync('./src/utils/storage.ts', 'utf-8');
-      
-      // Should use localStorage.setItem
-      expect(storageContent).toContain('localStorage.setItem');
-      
-      // Should use localStorage.getItem
-      expect(storageContent).toContain('localStorage.getItem');
-      
-      // Should use localStorage.removeItem
-      expect(storageContent).toContain('localStorage.removeItem');
+    it('storage should persist to localStorage by default, not an in-memory Map', async () => {
+      // storage.ts goes through a StorageAdapter; without configuration it is the localStorage one
+      const { getStorageAdapter, saveUserData, deleteUser } = await import('../src/utils/storage');
+      const uuid = '6ba7b810-9dad-41d1-80b4-00c04fd430c8';
+      const key = `api_token_monitor_v2_user_${uuid}`;
+
+      expect(getStorageAdapter().backend).toBe('localStorage');
+
+      await saveUserData({
+        uuid,
+        tokenHash: 'hash',
+        apiKeys: [],
+        createdAt: new Date().toISOString(),
+        lastAccess: new Date().toISOString(),
+        role: 'user',
+        permissions: ['read:dashboard'],
+        status: 'active',
+        expiresAt: null
+      });
+      // Written through localStorage.setItem
+      expect(JSON.parse(mockStorage[key]).uuid).toBe(uuid);
+
+      await deleteUser(uuid);
+      // Removed through localStorage.removeItem
+      expect(mockStorage[key]).toBeUndefined();
     });
 
     it('data should persist across simulated page refreshes', async () => {
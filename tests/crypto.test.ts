@@ -1,12 +1,38 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { 
   encryptApiKey, 
   decryptApiKey, 
+  decodeEnvelope,
+  needsReencryption,
+  LEGACY_KDF_ITERATIONS,
   hashToken, 
+  hashTokenPbkdf2,
+  verifyToken,
+  needsRehash,
+  getHashAlgorithm,
   generateSecureToken, 
   generateUUID 
 } from '../src/utils/crypto';
 
+const CHEAP_PARAMS = { memoryKiB: 1024, iterations: 1, parallelism: 1, hashLength: 32 };
+
+// encryptApiKey() output from before the versioned envelope: JSON number arrays, fixed 100k iterations
+async function encryptLegacy(plaintext: string, password: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return JSON.stringify({ salt: Array.from(salt), iv: Array.from(iv), data: Array.from(new Uint8Array(data)) });
+}
+
 describe('Crypto Utilities', () => {
   describe('encryptApiKey / decryptApiKey', () => {
     it('should encrypt and decrypt API key correctly', async () => {
@@ -17,11 +43,17 @@ describe('Crypto Utilities', () => {
       expect(encrypted).toBeDefined();
       expect(typeof encrypted).toBe('string');
       
-      // Verify it's valid JSON with expected fields
-      const parsed = JSON.parse(encrypted);
-      expect(parsed.salt).toBeDefined();
-      expect(parsed.iv).toBeDefined();
-      expect(parsed.data).toBeDefined();
+      // Verify it's a versioned envelope that records its cipher and KDF parameters
+      expect(encrypted).toMatch(/^atm\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+      const { header, legacy } = decodeEnvelope(encrypted);
+      expect(legacy).toBe(false);
+      expect(header).toMatchObject({
+        v: 1,
+        alg: 'AES-256-GCM',
+        kdf: { name: 'PBKDF2-SHA256', iterations: LEGACY_KDF_ITERATIONS }
+      });
+      expect(header.kdf?.salt).toBeDefined();
+      expect(header.iv).toBeDefined();
       
       // Decrypt and verify
       const decrypted = await decryptApiKey(encrypted, password);
@@ -44,6 +76,81 @@ describe('Crypto Utilities', () => {
     });
   });
   
+  describe('envelope format', () => {
+    it('should still decrypt the legacy JSON format', async () => {
+      const legacy = await encryptLegacy('sk-legacy', 'test-password-123');
+
+      expect(decodeEnvelope(legacy).legacy).toBe(true);
+      expect(needsReencryption(legacy)).toBe(true);
+      expect(await decryptApiKey(legacy, 'test-password-123')).toBe('sk-legacy');
+    });
+
+    it('should bind the ciphertext to its associated data', async () => {
+      const encrypted = await encryptApiKey('sk-test', 'test-password-123', 'apiKey:1');
+
+      expect(await decryptApiKey(encrypted, 'test-password-123', 'apiKey:1')).toBe('sk-test');
+      await expect(decryptApiKey(encrypted, 'test-password-123', 'apiKey:2')).rejects.toThrow();
+      await expect(decryptApiKey(encrypted, 'test-password-123')).rejects.toThrow();
+    });
+
+    it('should decrypt with the iterations recorded in the envelope', async () => {
+      vi.stubEnv('VITE_KDF_ITERATIONS', '1000');
+      const cheap = await encryptApiKey('sk-test', 'test-password-123');
+      vi.unstubAllEnvs();
+
+      expect(decodeEnvelope(cheap).header.kdf?.iterations).toBe(1000);
+      expect(needsReencryption(cheap)).toBe(true);
+      expect(await decryptApiKey(cheap, 'test-password-123')).toBe('sk-test');
+    });
+
+    it('should reject unknown versions and formats', async () => {
+      const [, header, data] = (await encryptApiKey('sk-test', 'pw')).split('.');
+      const decoded = JSON.parse(atob(header.replace(/-/g, '+').replace(/_/g, '/')));
+      const future = btoa(JSON.stringify({ ...decoded, v: 2 })).replace(/=+$/, '');
+
+      expect(() => decodeEnvelope(`atm.${future}.${data}`)).toThrow('Unsupported envelope version: 2');
+      expect(() => decodeEnvelope('plaintext')).toThrow('Unrecognised ciphertext format');
+    });
+  });
+
+  describe('hashToken / verifyToken', () => {
+    it('should emit an Argon2id PHC string recording its parameters', async () => {
+      const hash = await hashToken('atm_v2_test_token');
+
+      expect(hash).toMatch(/^\$argon2id\$v=19\$m=65536,t=3,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+      expect(getHashAlgorithm(hash)).toBe('argon2id');
+      expect(await verifyToken('atm_v2_test_token', hash)).toBe(true);
+      expect(await verifyToken('atm_v2_other_token', hash)).toBe(false);
+    });
+
+    it('should verify hashes made with other parameters', async () => {
+      const hash = await hashToken('atm_v2_test_token', CHEAP_PARAMS);
+
+      expect(hash).toContain('$m=1024,t=1,p=1$');
+      expect(await verifyToken('atm_v2_test_token', hash)).toBe(true);
+    });
+
+    it('should still verify legacy PBKDF2 hashes', async () => {
+      const legacy = await hashTokenPbkdf2('atm_v2_test_token');
+
+      expect(getHashAlgorithm(legacy)).toBe('pbkdf2');
+      expect(await verifyToken('atm_v2_test_token', legacy)).toBe(true);
+      expect(await verifyToken('atm_v2_other_token', legacy)).toBe(false);
+    });
+
+    it('should reject unknown hash formats', async () => {
+      expect(await verifyToken('atm_v2_test_token', '$bcrypt$whatever')).toBe(false);
+    });
+
+    it('should flag legacy and outdated hashes for rehashing', async () => {
+      const current = await hashToken('atm_v2_test_token', CHEAP_PARAMS);
+
+      expect(needsRehash(current, CHEAP_PARAMS)).toBe(false);
+      expect(needsRehash(current)).toBe(true);
+      expect(needsRehash(await hashTokenPbkdf2('atm_v2_test_token'))).toBe(true);
+    });
+  });
+
   describe('generateSecureToken', () => {
     it('should generate a token with correct prefix', () => {
       const token = generateSecureToken();
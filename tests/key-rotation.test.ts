@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { createUser, loadKeyRotationRequest, loadUserData, saveUserData, setStorageAdapter } from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import {
+  changeVaultSecret,
+  getKeyRotationStatus,
+  isVaultRotationDue,
+  lockVault,
+  requestKeyRotation,
+  revealApiKey,
+  rotateVaultKeys,
+  sealApiKey,
+  unlockVault,
+  KEY_ROTATION_INTERVAL_DAYS,
+  type RotationProgress
+} from '../src/utils/vault';
+import type { ApiKey, UserData } from '../src/types';
+
+const TOKEN = 'atm_v2_rotation_test_token';
+const DAY = 24 * 60 * 60 * 1000;
+
+async function createUserWithKeys(count: number): Promise<UserData> {
+  const user = (await unlockVault(await createUser('hash-a', 'user'), TOKEN))!;
+  const apiKeys: ApiKey[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = String(i);
+    apiKeys.push({ id, provider: 'openai', key: await sealApiKey(user, `sk-${i}`, id), usage: 0, limit: 0 });
+  }
+  return saveUserData({ ...user, apiKeys });
+}
+
+async function revealAll(user: UserData): Promise<string[]> {
+  return Promise.all(user.apiKeys.map(apiKey => revealApiKey(user, apiKey)));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  setStorageAdapter(createMemoryStorageAdapter());
+  lockVault();
+});
+
+describe('Vault Key Rotation', () => {
+  it('should re-encrypt every key in batches and report progress', async () => {
+    const user = await createUserWithKeys(5);
+    const progress: RotationProgress[] = [];
+
+    const result = await rotateVaultKeys(user, TOKEN, p => progress.push(p), 2);
+
+    expect(result).toMatchObject({ rotated: 5, failed: [], resumed: false });
+    expect(progress).toEqual([{ done: 2, total: 5 }, { done: 4, total: 5 }, { done: 5, total: 5 }]);
+    expect(result.user.vault?.salt).not.toEqual(user.vault?.salt);
+    expect(result.user.vault?.pending).toBeUndefined();
+    expect(result.user.apiKeys.every((apiKey, i) => apiKey.key !== user.apiKeys[i].key)).toBe(true);
+    expect(await revealAll(result.user)).toEqual(['sk-0', 'sk-1', 'sk-2', 'sk-3', 'sk-4']);
+  });
+
+  it('should resume an interrupted rotation without losing keys', async () => {
+    const user = await createUserWithKeys(5);
+    const interrupt = (progress: RotationProgress) => {
+      if (progress.done === 2) throw new Error('Tab closed');
+    };
+
+    await expect(rotateVaultKeys(user, TOKEN, interrupt, 2)).rejects.toThrow('Tab closed');
+    lockVault();
+
+    const halfway = (await loadUserData(user.uuid))!;
+    expect(halfway.vault?.pending).toBeDefined();
+    expect(isVaultRotationDue(halfway, null)).toBe(true);
+    await expect(changeVaultSecret(halfway, 'passphrase', 'correct horse battery')).rejects.toThrow('Vault is locked');
+
+    // Keys on both sides of the interruption stay readable
+    const unlocked = (await unlockVault(halfway, TOKEN))!;
+    expect(await revealAll(unlocked)).toEqual(['sk-0', 'sk-1', 'sk-2', 'sk-3', 'sk-4']);
+    await expect(changeVaultSecret(unlocked, 'passphrase', 'correct horse battery')).rejects.toThrow('Finish the key rotation first');
+
+    const result = await rotateVaultKeys(unlocked, TOKEN, undefined, 2);
+
+    expect(result).toMatchObject({ rotated: 3, resumed: true });
+    expect(await revealAll(result.user)).toEqual(['sk-0', 'sk-1', 'sk-2', 'sk-3', 'sk-4']);
+  });
+
+  it('should seal keys added mid-rotation under the new key material', async () => {
+    const user = await createUserWithKeys(2);
+    await expect(rotateVaultKeys(user, TOKEN, () => { throw new Error('Tab closed'); }, 1)).rejects.toThrow();
+    const halfway = (await unlockVault((await loadUserData(user.uuid))!, TOKEN))!;
+
+    const added = await saveUserData({
+      ...halfway,
+      apiKeys: [...halfway.apiKeys, { id: 'new', provider: 'openai', key: await sealApiKey(halfway, 'sk-new', 'new'), usage: 0, limit: 0 }]
+    });
+    const result = await rotateVaultKeys(added, TOKEN);
+
+    expect(result.rotated).toBe(1);
+    expect(await revealAll(result.user)).toEqual(['sk-0', 'sk-1', 'sk-new']);
+  });
+
+  it('should refuse the wrong secret and leave damaged keys in place', async () => {
+    const user = await createUserWithKeys(2);
+    await expect(rotateVaultKeys(user, 'atm_v2_wrong_token')).rejects.toThrow('Incorrect vault secret');
+
+    const damaged = await saveUserData({ ...user, apiKeys: [user.apiKeys[0], { ...user.apiKeys[1], key: user.apiKeys[0].key }] });
+    const result = await rotateVaultKeys(damaged, TOKEN);
+
+    expect(result).toMatchObject({ rotated: 1, failed: ['1'] });
+    expect(result.user.apiKeys[1].key).toBe(user.apiKeys[0].key);
+    expect(await revealApiKey(result.user, result.user.apiKeys[0])).toBe('sk-0');
+  });
+});
+
+describe('Rotation Policy', () => {
+  it('should be due after a year or after an admin request', async () => {
+    const user = await createUserWithKeys(0);
+    const rotatedAt = new Date(user.vault!.rotatedAt!).getTime();
+
+    expect(isVaultRotationDue(user, null, rotatedAt + DAY)).toBe(false);
+    expect(isVaultRotationDue(user, null, rotatedAt + KEY_ROTATION_INTERVAL_DAYS * DAY)).toBe(true);
+    expect(isVaultRotationDue({ ...user, vault: { ...user.vault!, rotatedAt: undefined } }, null)).toBe(true);
+    expect(isVaultRotationDue(user, { requestedAt: new Date(rotatedAt + 1).toISOString(), requestedBy: 'admin' })).toBe(true);
+  });
+
+  it('should record an admin request and track vaults until they rotate', async () => {
+    const created = await createUserWithKeys(1);
+    const user = await saveUserData({ ...created, vault: { ...created.vault!, rotatedAt: new Date(Date.now() - DAY).toISOString() } });
+    await createUser('hash-b', 'user'); // No vault yet, so nothing to rotate
+
+    const request = await requestKeyRotation('admin-uuid');
+
+    expect(await loadKeyRotationRequest()).toEqual(request);
+    expect(await getKeyRotationStatus(request)).toEqual({ request, vaults: 1, due: 1, inProgress: 0 });
+
+    await rotateVaultKeys((await loadUserData(user.uuid))!, TOKEN);
+    expect(await getKeyRotationStatus(request)).toMatchObject({ vaults: 1, due: 0 });
+  });
+});
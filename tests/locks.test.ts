@@ -0,0 +1,286 @@
+import { describe, it, expect, afterEach } from 'vitest';
+
+import {
+  createBroadcastLockProvider,
+  createLocalLockProvider,
+  createWebLockProvider,
+  setLockProvider,
+  type LockProvider
+} from '../src/utils/locks';
+import {
+  createBroadcastChangeFeed,
+  createLocalChangeFeed,
+  createStorageEventChangeFeed,
+  setChangeFeed,
+  type StorageChange
+} from '../src/utils/changeFeed';
+import { deleteUser, saveUserData, setStorageAdapter } from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import type { UserData } from '../src/types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exclusive-mode LockManager shared by the simulated tabs, like the browser's
+function createFakeLockManager(): LockManager {
+  const tails = new Map<string, Promise<void>>();
+
+  const request = (name: string, options: LockOptions, callback: LockGrantedCallback) => {
+    const previous = tails.get(name) ?? Promise.resolve();
+    let done!: () => void;
+    const mine = new Promise<void>(resolve => { done = resolve; });
+    tails.set(name, previous.then(() => mine));
+
+    return new Promise((resolve, reject) => {
+      let granted = false;
+      options.signal?.addEventListener('abort', () => {
+        if (!granted) {
+          reject(new DOMException('The request was aborted', 'AbortError'));
+          done();
+        }
+      });
+      previous.then(async () => {
+        if (options.signal?.aborted) return;
+        granted = true;
+        try {
+          resolve(await callback({ name, mode: 'exclusive' }));
+        } catch (error) {
+          reject(error);
+        } finally {
+          done();
+        }
+      });
+    });
+  };
+
+  return { request, query: async () => ({ held: [], pending: [] }) } as unknown as LockManager;
+}
+
+// Runs critical sections from several tabs and records any overlap
+async function runContended(tabs: LockProvider[], rounds: number) {
+  let inside = 0;
+  let overlapped = false;
+  const order: number[] = [];
+
+  await Promise.all(tabs.map(async (tab, index) => {
+    for (let i = 0; i < rounds; i++) {
+      const release = await tab.acquire('user:shared', 5000);
+      inside++;
+      overlapped ||= inside > 1;
+      order.push(index);
+      await sleep(5);
+      inside--;
+      release();
+    }
+  }));
+
+  return { overlapped, order };
+}
+
+const channels: BroadcastChannel[] = [];
+
+function openChannel(name: string): BroadcastChannel {
+  const channel = new BroadcastChannel(name);
+  channels.push(channel);
+  return channel;
+}
+
+afterEach(() => {
+  channels.splice(0).forEach(channel => channel.close());
+});
+
+describe('Local Locks', () => {
+  it('should serialize callers and time out a waiter', async () => {
+    const provider = createLocalLockProvider();
+    const release = await provider.acquire('roles', 1000);
+
+    await expect(provider.acquire('roles', 20)).rejects.toThrow('Timed out waiting for lock: roles');
+
+    const next = provider.acquire('roles', 1000);
+    release();
+    release(); // A second release must not free the lock for someone else
+    const releaseNext = await next;
+    await expect(provider.acquire('roles', 20)).rejects.toThrow('Timed out');
+    releaseNext();
+  });
+});
+
+describe('Web Locks', () => {
+  it('should make a second tab wait for the first', async () => {
+    const manager = createFakeLockManager();
+    const [tabA, tabB] = [createWebLockProvider(manager), createWebLockProvider(manager)];
+
+    const releaseA = await tabA.acquire('user:1', 1000);
+    let acquiredB = false;
+    const pendingB = tabB.acquire('user:1', 1000).then(release => {
+      acquiredB = true;
+      return release;
+    });
+
+    await sleep(20);
+    expect(acquiredB).toBe(false);
+
+    releaseA();
+    (await pendingB)();
+    expect(acquiredB).toBe(true);
+  });
+
+  it('should time out while another tab holds the lock', async () => {
+    const manager = createFakeLockManager();
+    const releaseA = await createWebLockProvider(manager).acquire('user:1', 1000);
+
+    await expect(createWebLockProvider(manager).acquire('user:1', 30)).rejects.toThrow('Timed out waiting for lock: user:1');
+
+    releaseA();
+    (await createWebLockProvider(manager).acquire('user:1', 1000))();
+  });
+
+  it('should never let two tabs inside the same critical section', async () => {
+    const manager = createFakeLockManager();
+    const { overlapped, order } = await runContended([createWebLockProvider(manager), createWebLockProvider(manager)], 3);
+
+    expect(overlapped).toBe(false);
+    expect(order).toHaveLength(6);
+  });
+});
+
+describe('Broadcast Locks', () => {
+  const createTabs = (name: string) => [
+    createBroadcastLockProvider(openChannel(name), 'tab-a'),
+    createBroadcastLockProvider(openChannel(name), 'tab-b')
+  ];
+
+  it('should make a second tab wait until the first releases', async () => {
+    const [tabA, tabB] = createTabs('locks-wait');
+
+    const releaseA = await tabA.acquire('user:1', 1000);
+    let acquiredB = false;
+    const pendingB = tabB.acquire('user:1', 2000).then(release => {
+      acquiredB = true;
+      return release;
+    });
+
+    await sleep(100);
+    expect(acquiredB).toBe(false);
+
+    releaseA();
+    (await pendingB)();
+    expect(acquiredB).toBe(true);
+  });
+
+  it('should time out while another tab holds the lock', async () => {
+    const [tabA, tabB] = createTabs('locks-timeout');
+    const releaseA = await tabA.acquire('roles', 1000);
+
+    await expect(tabB.acquire('roles', 100)).rejects.toThrow('Timed out waiting for lock: roles');
+    releaseA();
+  });
+
+  it('should give simultaneous claims to exactly one tab at a time', async () => {
+    const { overlapped, order } = await runContended(createTabs('locks-contention'), 3);
+
+    expect(overlapped).toBe(false);
+    expect(order.filter(tab => tab === 0)).toHaveLength(3);
+    expect(order.filter(tab => tab === 1)).toHaveLength(3);
+  });
+
+  it('should not block different lock names', async () => {
+    const [tabA, tabB] = createTabs('locks-names');
+    const releaseA = await tabA.acquire('user:1', 1000);
+
+    const releaseB = await tabB.acquire('user:2', 1000);
+    releaseB();
+    releaseA();
+  });
+});
+
+describe('Storage across tabs', () => {
+  const user: UserData = {
+    uuid: '550e8400-e29b-41d4-a716-446655440000',
+    tokenHash: 'hash',
+    apiKeys: [],
+    createdAt: '2025-02-13T08:00:00.000Z',
+    lastAccess: '2025-02-13T08:00:00.000Z',
+    role: 'user',
+    permissions: ['read:dashboard'],
+    status: 'active',
+    expiresAt: null
+  };
+
+  afterEach(() => {
+    setLockProvider(createLocalLockProvider());
+    setChangeFeed(createLocalChangeFeed());
+  });
+
+  it('should hold a write until the other tab releases the user lock', async () => {
+    const manager = createFakeLockManager();
+    setStorageAdapter(createMemoryStorageAdapter());
+    setLockProvider(createWebLockProvider(manager));
+
+    const releaseOtherTab = await createWebLockProvider(manager).acquire('user:' + user.uuid, 1000);
+    let saved = false;
+    const save = saveUserData(user).then(() => { saved = true; });
+
+    await sleep(20);
+    expect(saved).toBe(false);
+
+    releaseOtherTab();
+    await save;
+    expect(saved).toBe(true);
+  });
+
+  it('should tell other tabs which user changed', async () => {
+    setStorageAdapter(createMemoryStorageAdapter());
+    setChangeFeed(createBroadcastChangeFeed(openChannel('changes-storage')));
+    const otherTab = createBroadcastChangeFeed(openChannel('changes-storage'));
+    const received: StorageChange[] = [];
+    otherTab.subscribe(change => received.push(change));
+
+    await saveUserData(user);
+    await deleteUser(user.uuid);
+    await sleep(20);
+
+    expect(received).toEqual([
+      { kind: 'user', id: user.uuid },
+      { kind: 'user', id: user.uuid }
+    ]);
+  });
+});
+
+describe('Change Feed', () => {
+  it('should deliver to other tabs but not back to the publisher', async () => {
+    const tabA = createBroadcastChangeFeed(openChannel('changes-feed'));
+    const tabB = createBroadcastChangeFeed(openChannel('changes-feed'));
+    const [receivedA, receivedB]: StorageChange[][] = [[], []];
+    tabA.subscribe(change => receivedA.push(change));
+    const unsubscribe = tabB.subscribe(change => receivedB.push(change));
+
+    tabA.publish({ kind: 'roles', id: null });
+    await sleep(20);
+    unsubscribe();
+    tabA.publish({ kind: 'audit', id: null });
+    await sleep(20);
+
+    expect(receivedA).toEqual([]);
+    expect(receivedB).toEqual([{ kind: 'roles', id: null }]);
+  });
+
+  it('should fall back to storage events', () => {
+    const items: Record<string, string> = {};
+    const storage = { setItem: (key: string, value: string) => { items[key] = value; } } as Storage;
+    const handlers: Array<(event: StorageEvent) => void> = [];
+    const target = {
+      addEventListener: (_type: string, handler: (event: StorageEvent) => void) => { handlers.push(handler); }
+    } as unknown as Window;
+
+    const tabA = createStorageEventChangeFeed(target, () => storage);
+    const received: StorageChange[] = [];
+    createStorageEventChangeFeed(target, () => storage).subscribe(change => received.push(change));
+
+    tabA.publish({ kind: 'user', id: 'abc' });
+    const [key, newValue] = Object.entries(items)[0];
+    handlers.forEach(handler => handler({ key, newValue } as StorageEvent));
+    handlers.forEach(handler => handler({ key: 'unrelated', newValue: '{}' } as StorageEvent));
+
+    expect(received).toEqual([{ kind: 'user', id: 'abc' }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import { authenticateToken } from '../src/utils/auth';
+import { createUser, loadUserData, saveUserData } from '../src/utils/storage';
+import { generateSecureToken, hashToken, hashTokenPbkdf2, getHashAlgorithm } from '../src/utils/crypto';
+
+describe('Token Login', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  it('should authenticate a stored user and keep its role', async () => {
+    const token = generateSecureToken();
+    const created = await createUser(await hashToken(token), 'manager');
+
+    const result = await authenticateToken(token);
+
+    expect(result.success).toBe(true);
+    expect(result.user?.uuid).toBe(created.uuid);
+    expect(result.user?.role).toBe('manager');
+  });
+
+  it('should reject a well-formed token that belongs to nobody', async () => {
+    await createUser(await hashToken(generateSecureToken()), 'admin');
+
+    const result = await authenticateToken(generateSecureToken());
+
+    expect(result.success).toBe(false);
+    expect(result.user).toBeUndefined();
+  });
+
+  it('should reject an expired token', async () => {
+    const token = generateSecureToken();
+    await createUser(await hashToken(token), 'user', {
+      expiresAt: new Date(Date.now() - 1000).toISOString()
+    });
+
+    const result = await authenticateToken(token);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('This token has expired');
+  });
+
+  it('should reject a revoked token even before it expires', async () => {
+    const token = generateSecureToken();
+    const created = await createUser(await hashToken(token), 'user', {
+      expiresAt: new Date(Date.now() + 60_000).toISOString()
+    });
+    const stored = await loadUserData(created.uuid);
+    await saveUserData({ ...stored!, status: 'revoked', revokedAt: new Date().toISOString() });
+
+    const result = await authenticateToken(token);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('This token has been revoked');
+  });
+
+  it('should reject malformed tokens before touching storage', async () => {
+    const result = await authenticateToken('<script>');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Invalid token format');
+  });
+
+  it('should upgrade a legacy PBKDF2 hash on successful login', async () => {
+    const token = generateSecureToken();
+    const created = await createUser(await hashTokenPbkdf2(token), 'user');
+
+    expect((await authenticateToken(token)).success).toBe(true);
+
+    const stored = await loadUserData(created.uuid);
+    expect(getHashAlgorithm(stored!.tokenHash)).toBe('argon2id');
+    expect((await authenticateToken(token)).success).toBe(true);
+  });
+});
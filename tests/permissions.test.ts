@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  can,
+  canAccessPage,
+  getDefaultPage,
+  isPermission,
+  permissionsFromFlags,
+  PERMISSIONS
+} from '../src/utils/permissions';
+import type { UserData } from '../src/types';
+
+function makeUser(permissions: string[]): UserData {
+  return {
+    uuid: '550e8400-e29b-41d4-a716-446655440000',
+    tokenHash: 'hash',
+    apiKeys: [],
+    createdAt: new Date().toISOString(),
+    lastAccess: new Date().toISOString(),
+    role: 'user',
+    permissions,
+    status: 'active',
+    expiresAt: null
+  };
+}
+
+describe('Permissions', () => {
+  describe('can', () => {
+    it('should grant only the permissions the user holds', () => {
+      const user = makeUser(['read:dashboard']);
+      expect(can(user, PERMISSIONS.readDashboard)).toBe(true);
+      expect(can(user, PERMISSIONS.modifySettings)).toBe(false);
+      expect(can(user, PERMISSIONS.manageProviders)).toBe(false);
+      expect(can(user, PERMISSIONS.adminAccess)).toBe(false);
+    });
+
+    it('should treat admin:access as a grant of every permission', () => {
+      const user = makeUser(['admin:access']);
+      expect(can(user, PERMISSIONS.manageProviders)).toBe(true);
+      expect(can(user, PERMISSIONS.readDashboard)).toBe(true);
+    });
+
+    it('should deny everything to a signed-out visitor', () => {
+      expect(can(null, PERMISSIONS.readDashboard)).toBe(false);
+    });
+
+    it('should ignore a role without the matching permission', () => {
+      const user = { ...makeUser(['read:dashboard']), role: 'admin' as const };
+      expect(can(user, PERMISSIONS.adminAccess)).toBe(false);
+    });
+  });
+
+  describe('page guards', () => {
+    it('should map pages to their required permission', () => {
+      const user = makeUser(['read:dashboard', 'modify:settings']);
+      expect(canAccessPage(user, 'dashboard')).toBe(true);
+      expect(canAccessPage(user, 'settings')).toBe(true);
+      expect(canAccessPage(user, 'admin')).toBe(false);
+    });
+
+    it('should pick the first page the user may open', () => {
+      expect(getDefaultPage(makeUser(['modify:settings']))).toBe('settings');
+      expect(getDefaultPage(makeUser([]))).toBeNull();
+    });
+  });
+
+  describe('permissionsFromFlags', () => {
+    it('should convert Admin checkbox state into stored permissions', () => {
+      expect(permissionsFromFlags({
+        readDashboard: true,
+        modifySettings: false,
+        manageProviders: true,
+        adminAccess: false
+      })).toEqual(['read:dashboard', 'manage:providers']);
+    });
+  });
+
+  it('should recognise catalog entries', () => {
+    expect(isPermission('manage:providers')).toBe(true);
+    expect(isPermission('delete:everything')).toBe(false);
+  });
+});
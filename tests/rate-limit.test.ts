@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  checkRateLimit,
+  checkLoginRateLimit,
+  getRateLimitStatus,
+  recordLoginSuccess,
+  setRateLimitStore,
+  getLockoutDuration,
+  getLoginRateLimitIdentifiers
+} from '../src/utils/auth';
+import {
+  createMemoryRateLimitStore,
+  createLocalStorageRateLimitStore
+} from '../src/utils/rateLimitStore';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function createFakeStorage(): Storage {
+  const data: Record<string, string> = {};
+  return {
+    getItem: (key: string) => data[key] ?? null,
+    setItem: (key: string, value: string) => { data[key] = value; },
+    removeItem: (key: string) => { delete data[key]; },
+    clear: () => Object.keys(data).forEach(key => delete data[key]),
+    key: (index: number) => Object.keys(data)[index] ?? null,
+    get length() { return Object.keys(data).length; }
+  };
+}
+
+describe('Rate Limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-02-13T08:00:00Z'));
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should lock out after ten client attempts inside the window', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(checkRateLimit('login').allowed).toBe(true);
+    }
+
+    const blocked = checkRateLimit('login');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfter).toBe(15 * 60);
+  });
+
+  it('should start a fresh window once 15 minutes pass without attempts', () => {
+    for (let i = 0; i < 4; i++) {
+      checkRateLimit('login');
+    }
+
+    vi.advanceTimersByTime(16 * MINUTE);
+
+    expect(checkRateLimit('login').allowed).toBe(true);
+    expect(getRateLimitStatus('login')?.attempts).toBe(1);
+  });
+
+  it('should release the first lockout after 15 minutes', () => {
+    for (let i = 0; i < 11; i++) {
+      checkRateLimit('login');
+    }
+
+    vi.advanceTimersByTime(14 * MINUTE);
+    expect(checkRateLimit('login').allowed).toBe(false);
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect(checkRateLimit('login').allowed).toBe(true);
+  });
+
+  it('should keep the lockout across a reload with the persisted store', () => {
+    const storage = createFakeStorage();
+    setRateLimitStore(createLocalStorageRateLimitStore(() => storage));
+
+    for (let i = 0; i < 11; i++) {
+      checkRateLimit('login');
+    }
+
+    // A reload creates a new store over the same browser storage
+    setRateLimitStore(createLocalStorageRateLimitStore(() => storage));
+
+    expect(getRateLimitStatus('login')?.lockedUntil).toBe(Date.now() + 15 * MINUTE);
+    expect(checkRateLimit('login').allowed).toBe(false);
+  });
+
+  it('should lock an identifier whose persisted entry is corrupted', () => {
+    const storage = createFakeStorage();
+    storage.setItem('api_token_monitor_v2_ratelimit_login', '{not json');
+    storage.setItem('api_token_monitor_v2_ratelimit_other', '{"attempts":"many"}');
+    setRateLimitStore(createLocalStorageRateLimitStore(() => storage));
+
+    expect(checkRateLimit('login')).toEqual({ allowed: false, retryAfter: 15 * 60 });
+    expect(checkRateLimit('other').allowed).toBe(false);
+
+    vi.advanceTimersByTime(16 * MINUTE);
+    expect(checkRateLimit('login').allowed).toBe(true);
+  });
+});
+
+describe('Progressive lockout', () => {
+  const lockOut = (identifier: string) => {
+    let result = checkRateLimit(identifier);
+    while (result.allowed) {
+      result = checkRateLimit(identifier);
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-02-13T08:00:00Z'));
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should double the lockout each time it is triggered again', () => {
+    expect(lockOut('login').retryAfter).toBe(15 * 60);
+
+    vi.advanceTimersByTime(16 * MINUTE);
+    expect(lockOut('login').retryAfter).toBe(30 * 60);
+
+    vi.advanceTimersByTime(31 * MINUTE);
+    expect(lockOut('login').retryAfter).toBe(60 * 60);
+  });
+
+  it('should cap a single lockout at 24 hours', () => {
+    expect(getLockoutDuration(20)).toBe(24 * HOUR);
+  });
+
+  it('should forgive one level for every six quiet hours', () => {
+    lockOut('login');
+    vi.advanceTimersByTime(16 * MINUTE);
+    lockOut('login');
+    expect(getRateLimitStatus('login')?.lockouts).toBe(2);
+
+    vi.advanceTimersByTime(6 * HOUR);
+    expect(lockOut('login').retryAfter).toBe(30 * 60);
+
+    vi.advanceTimersByTime(13 * HOUR);
+    expect(lockOut('login').retryAfter).toBe(15 * 60);
+  });
+});
+
+describe('Layered login limits', () => {
+  const keys = (tokenKey: string, clientId = 'client-a') => ({ tokenKey, clientId });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-02-13T08:00:00Z'));
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should lock a single token without blocking other tokens from the same client', () => {
+    for (let i = 0; i < 5; i++) {
+      expect(checkLoginRateLimit(keys('aaaa')).allowed).toBe(true);
+    }
+
+    const blocked = checkLoginRateLimit(keys('aaaa'));
+    expect(blocked).toEqual({ allowed: false, retryAfter: 15 * 60, tier: 'token' });
+    expect(checkLoginRateLimit(keys('bbbb')).allowed).toBe(true);
+  });
+
+  it('should lock the client once it spreads attempts over many tokens', () => {
+    for (let i = 0; i < 10; i++) {
+      expect(checkLoginRateLimit(keys(`token-${i}`)).allowed).toBe(true);
+    }
+
+    const blocked = checkLoginRateLimit(keys('another'));
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.tier).toBe('client');
+    expect(checkLoginRateLimit(keys('fresh', 'client-b')).allowed).toBe(true);
+  });
+
+  it('should apply the global ceiling across clients', () => {
+    for (let i = 0; i < 100; i++) {
+      checkLoginRateLimit(keys(`token-${i}`, `client-${i}`));
+    }
+
+    const blocked = checkLoginRateLimit(keys('new-token', 'new-client'));
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.tier).toBe('global');
+  });
+
+  it('should not count attempts made while a tier is locked', () => {
+    for (let i = 0; i < 6; i++) {
+      checkLoginRateLimit(keys('aaaa'));
+    }
+    const identifiers = getLoginRateLimitIdentifiers(keys('aaaa'));
+    const clientAttempts = getRateLimitStatus(identifiers.client)?.attempts;
+
+    checkLoginRateLimit(keys('aaaa'));
+    checkLoginRateLimit(keys('aaaa'));
+
+    expect(getRateLimitStatus(identifiers.client)?.attempts).toBe(clientAttempts);
+  });
+
+  it('should clear the token tier and keep earlier failures after a successful login', () => {
+    for (let i = 0; i < 3; i++) {
+      checkLoginRateLimit(keys('aaaa'));
+    }
+    const identifiers = getLoginRateLimitIdentifiers(keys('aaaa'));
+
+    checkLoginRateLimit(keys('aaaa'));
+    recordLoginSuccess(keys('aaaa'));
+
+    expect(getRateLimitStatus(identifiers.token)).toBeNull();
+    expect(getRateLimitStatus(identifiers.client)?.attempts).toBe(3);
+    expect(getRateLimitStatus(identifiers.global)?.attempts).toBe(3);
+  });
+
+  it('should not lock a shared client after more successful logins than the client limit', () => {
+    for (let i = 0; i <= 10; i++) {
+      expect(checkLoginRateLimit(keys(`user-${i}`)).allowed).toBe(true);
+      recordLoginSuccess(keys(`user-${i}`));
+      vi.advanceTimersByTime(5 * MINUTE);
+    }
+
+    expect(checkLoginRateLimit(keys('next-user')).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  createUser,
+  deleteUser,
+  loadUserData,
+  RevisionConflictError,
+  saveUserData,
+  setStorageAdapter,
+  updateUserRecord
+} from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import { changeUserAccess } from '../src/utils/roles';
+import { findConflictingFields, mergeApiKeys, mergePermissions, mergeUserData } from '../src/utils/recordMerge';
+import type { ApiKey, UserData } from '../src/types';
+
+const adminUuid = '550e8400-e29b-41d4-a716-446655440000';
+
+const apiKey = (id: string, limit = 100): ApiKey => ({ id, provider: 'openai', key: `cipher-${id}`, usage: 0, limit });
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  setStorageAdapter(createMemoryStorageAdapter());
+});
+
+describe('Compare-and-Swap Saves', () => {
+  it('should bump the revision on every save', async () => {
+    const created = await createUser('hash-a', 'user');
+    const saved = await saveUserData({ ...created, apiKeys: [apiKey('1')] });
+
+    expect(created.revision).toBe(1);
+    expect(saved.revision).toBe(2);
+    expect((await loadUserData(created.uuid))?.revision).toBe(2);
+  });
+
+  it('should reject a stale save with the current record', async () => {
+    const created = await createUser('hash-a', 'user');
+    const current = await saveUserData({ ...created, role: 'manager' });
+
+    const stale = saveUserData({ ...created, apiKeys: [apiKey('1')] });
+
+    await expect(stale).rejects.toBeInstanceOf(RevisionConflictError);
+    await expect(stale).rejects.toMatchObject({ expectedRevision: 1, current });
+    expect((await loadUserData(created.uuid))?.apiKeys).toEqual([]);
+  });
+
+  it('should report a deleted record as a conflict', async () => {
+    const created = await createUser('hash-a', 'user');
+    await deleteUser(created.uuid);
+
+    await expect(saveUserData(created)).rejects.toThrow('User record was deleted');
+  });
+
+  it('should retry an update against the latest record', async () => {
+    const created = await createUser('hash-a', 'user');
+    let calls = 0;
+
+    const saved = await updateUserRecord(created.uuid, current => {
+      calls++;
+      if (calls === 1) {
+        // Another writer gets in between the load and the save
+        return { ...current, revision: (current.revision ?? 0) - 1 };
+      }
+      return { ...current, apiKeys: [apiKey('1')] };
+    });
+
+    expect(calls).toBe(2);
+    expect(saved?.apiKeys).toEqual([apiKey('1')]);
+  });
+
+  it('should not overwrite a key saved while an admin edited access', async () => {
+    const opened = await createUser('hash-a', 'user');
+    await saveUserData({ ...opened, apiKeys: [apiKey('1')] });
+
+    const edit = changeUserAccess(opened, 'manager', [...opened.permissions, 'modify:settings'], adminUuid);
+    await expect(edit).rejects.toBeInstanceOf(RevisionConflictError);
+
+    const { current } = await edit.catch((error: RevisionConflictError) => error);
+    const merged = mergeUserData(opened, { ...opened, role: 'manager', permissions: ['read:dashboard', 'modify:settings'] }, current!);
+    const saved = await changeUserAccess(merged, merged.role, merged.permissions, adminUuid);
+
+    expect(saved).toMatchObject({ role: 'manager', apiKeys: [apiKey('1')], revision: 3 });
+  });
+});
+
+describe('Merge Helpers', () => {
+  it('should merge API keys by id', () => {
+    const base = [apiKey('1'), apiKey('2')];
+    const mine = [apiKey('1', 500), apiKey('3')]; // Edited 1, removed 2, added 3
+    const theirs = [apiKey('1'), apiKey('2'), apiKey('4')]; // Added 4
+
+    expect(mergeApiKeys(base, mine, theirs)).toEqual([apiKey('1', 500), apiKey('4'), apiKey('3')]);
+  });
+
+  it('should merge permissions as sets', () => {
+    const base = ['read:dashboard', 'modify:settings'];
+    const mine = ['read:dashboard', 'manage:providers'];
+    const theirs = ['read:dashboard', 'modify:settings', 'admin:access'];
+
+    expect(mergePermissions(base, mine, theirs)).toEqual(['read:dashboard', 'admin:access', 'manage:providers']);
+  });
+
+  it('should keep my field changes and take their revision', async () => {
+    const base = { ...await createUser('hash-a', 'user'), revision: 1 } as UserData;
+    const mine = { ...base, role: 'manager', permissions: [...base.permissions, 'modify:settings'] };
+    const theirs = { ...base, role: 'admin', revokedReason: 'audit', apiKeys: [apiKey('1')], revision: 4 };
+
+    expect(findConflictingFields(base, mine, theirs)).toEqual(['role']);
+    expect(mergeUserData(base, mine, theirs)).toMatchObject({
+      role: 'manager',
+      revokedReason: 'audit',
+      apiKeys: [apiKey('1')],
+      permissions: ['read:dashboard', 'modify:settings'],
+      revision: 4
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import { defineRole, updateRole, deleteCustomRole, applyRoleChange, slugifyRoleName } from '../src/utils/roles';
+import { createUser, loadUserData, listRoles, saveUserData } from '../src/utils/storage';
+
+const adminUuid = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('Role Registry', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  it('should expose the built-in roles with real bundles', async () => {
+    const roles = await listRoles();
+    const manager = roles.find(role => role.id === 'manager');
+
+    expect(roles.map(role => role.id)).toEqual(['user', 'manager', 'admin']);
+    expect(manager?.permissions).toContain('manage:providers');
+  });
+
+  it('should give new users the permissions of their role', async () => {
+    await defineRole({ id: 'billing-viewer', name: 'Billing Viewer', permissions: ['read:dashboard'] }, adminUuid);
+
+    const manager = await createUser('hash-a', 'manager');
+    const viewer = await createUser('hash-b', 'billing-viewer');
+
+    expect(manager.permissions).toEqual(['read:dashboard', 'modify:settings', 'manage:providers']);
+    expect(viewer.permissions).toEqual(['read:dashboard']);
+  });
+
+  it('should reject unknown permissions and duplicate ids', async () => {
+    await expect(defineRole({ id: 'ops', name: 'Ops', permissions: ['delete:everything'] }, adminUuid))
+      .rejects.toThrow('Unknown permission: delete:everything');
+
+    await defineRole({ id: 'ops', name: 'Ops', permissions: [] }, adminUuid);
+    await expect(defineRole({ id: 'ops', name: 'Ops', permissions: [] }, adminUuid))
+      .rejects.toThrow('Role already exists');
+  });
+
+  it('should update every holder when a role is edited', async () => {
+    await defineRole({ id: 'key-operator', name: 'Key Operator', permissions: ['read:dashboard'] }, adminUuid);
+    const holder = await createUser('hash-a', 'key-operator');
+    const other = await createUser('hash-b', 'user');
+    // Individually granted permission survives the bundle change
+    await saveUserData({ ...holder, permissions: [...holder.permissions, 'modify:settings'] });
+
+    const result = await updateRole('key-operator', { permissions: ['read:dashboard', 'manage:providers'] }, adminUuid);
+
+    expect(result.holdersUpdated).toBe(1);
+    expect((await loadUserData(holder.uuid))?.permissions.sort())
+      .toEqual(['manage:providers', 'modify:settings', 'read:dashboard']);
+    expect((await loadUserData(other.uuid))?.permissions).toEqual(['read:dashboard']);
+  });
+
+  it('should keep admin:access on the admin role', async () => {
+    await expect(updateRole('admin', { permissions: ['read:dashboard'] }, adminUuid))
+      .rejects.toThrow('The admin role must keep admin:access');
+  });
+
+  it('should only delete unassigned custom roles', async () => {
+    await expect(deleteCustomRole('manager', adminUuid)).rejects.toThrow('Built-in roles cannot be deleted');
+
+    await defineRole({ id: 'temp', name: 'Temp', permissions: [] }, adminUuid);
+    await createUser('hash', 'temp');
+    await expect(deleteCustomRole('temp', adminUuid)).rejects.toThrow('Role is still assigned to 1 user(s)');
+  });
+
+  it('should slugify role names', () => {
+    expect(slugifyRoleName('  Billing Viewer! ')).toBe('billing-viewer');
+  });
+
+  it('should swap bundles without dropping individual grants', () => {
+    const user = { permissions: ['read:dashboard', 'admin:access'] } as Parameters<typeof applyRoleChange>[0];
+    expect(applyRoleChange(user, ['read:dashboard'], ['modify:settings']).permissions)
+      .toEqual(['modify:settings', 'admin:access']);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { getSchemaVersion, migrateRecord, USER_MIGRATIONS, USER_SCHEMA_VERSION } from '../src/utils/migrations';
+import { userDataSchema, validateRecord } from '../src/utils/schemas';
+import {
+  appendAuditEntry,
+  findUserByToken,
+  listAllUsers,
+  listQuarantinedRecords,
+  listRoles,
+  loadAuditEntries,
+  loadSession,
+  loadSetupRecord,
+  loadUserData,
+  migrateAllUsers,
+  saveUserData,
+  setStorageAdapter,
+  type AuditTail
+} from '../src/utils/storage';
+import { createLocalStorageAdapter, createMemoryStorageAdapter, type StorageAdapter } from '../src/utils/storageAdapter';
+import { generateSecureToken, getTokenLookupId } from '../src/utils/crypto';
+import { can, PERMISSIONS } from '../src/utils/permissions';
+import type { AuditEntry, UserData } from '../src/types';
+
+const PREFIX = 'api_token_monitor_v2_';
+const UUID_A = '550e8400-e29b-41d4-a716-446655440000';
+const UUID_B = '6ba7b810-9dad-41d1-80b4-00c04fd430c8';
+
+// Shape written before expiry, revocation and schemaVersion existed
+const legacyRecord = (uuid: string) => ({
+  uuid,
+  tokenHash: 'hash',
+  apiKeys: [],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  lastAccess: '2025-01-01T00:00:00.000Z',
+  role: 'user',
+  permissions: ['read:dashboard']
+});
+
+let adapter: StorageAdapter;
+
+async function seedUsers(records: Record<string, unknown>) {
+  for (const [uuid, record] of Object.entries(records)) {
+    await adapter.put(`${PREFIX}user_${uuid}`, record);
+  }
+  await adapter.put(`${PREFIX}users_index`, Object.keys(records));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  adapter = createMemoryStorageAdapter();
+  setStorageAdapter(adapter);
+});
+
+describe('Migration Registry', () => {
+  it('should upgrade unversioned records one step at a time', () => {
+    const result = migrateRecord(legacyRecord(UUID_A));
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.migrated).toBe(true);
+    expect(result.record).toMatchObject({ schemaVersion: USER_SCHEMA_VERSION, status: 'active', expiresAt: null });
+    expect(validateRecord(userDataSchema, result.record).success).toBe(true);
+  });
+
+  it('should leave current records alone', () => {
+    const current = { ...legacyRecord(UUID_A), status: 'revoked', expiresAt: null, schemaVersion: USER_SCHEMA_VERSION };
+
+    expect(migrateRecord(current)).toEqual({ record: current, fromVersion: USER_SCHEMA_VERSION, migrated: false });
+  });
+
+  it('should refuse records from a newer version or with a missing step', () => {
+    expect(() => migrateRecord({ schemaVersion: USER_SCHEMA_VERSION + 1 }))
+      .toThrow(`Record schema version ${USER_SCHEMA_VERSION + 1} is newer than supported version ${USER_SCHEMA_VERSION}`);
+    expect(() => migrateRecord({}, USER_MIGRATIONS, USER_SCHEMA_VERSION + 1))
+      .toThrow(`No migration from schema version ${USER_SCHEMA_VERSION}`);
+    expect(getSchemaVersion({ schemaVersion: 'x' })).toBe(0);
+  });
+});
+
+describe('User Records', () => {
+  it('should upgrade a legacy record on read and write it back', async () => {
+    await seedUsers({ [UUID_A]: legacyRecord(UUID_A) });
+
+    const user = await loadUserData(UUID_A);
+
+    expect(user).toMatchObject({ status: 'active', expiresAt: null, schemaVersion: USER_SCHEMA_VERSION });
+    expect(await adapter.get(`${PREFIX}user_${UUID_A}`)).toEqual(user);
+  });
+
+  it('should give a pre-catalog admin the permissions of its role', async () => {
+    await seedUsers({ [UUID_A]: { ...legacyRecord(UUID_A), role: 'admin' } });
+
+    const user = await loadUserData(UUID_A);
+
+    expect(can(user, PERMISSIONS.adminAccess)).toBe(true);
+    expect(user?.permissions).toContain('read:dashboard');
+  });
+
+  it('should upgrade every stored user in bulk', async () => {
+    await seedUsers({
+      [UUID_A]: legacyRecord(UUID_A),
+      [UUID_B]: { ...legacyRecord(UUID_B), status: 'active', expiresAt: null, schemaVersion: USER_SCHEMA_VERSION, revision: 0 }
+    });
+
+    expect(await migrateAllUsers()).toEqual({ checked: 2, migrated: 1, quarantined: 0 });
+    expect(await migrateAllUsers()).toEqual({ checked: 2, migrated: 0, quarantined: 0 });
+  });
+
+  it('should quarantine an invalid record instead of throwing', async () => {
+    const token = generateSecureToken();
+    const tokenId = await getTokenLookupId(token);
+    const broken = { ...legacyRecord(UUID_B), status: 'suspended', tokenId };
+    await seedUsers({ [UUID_A]: legacyRecord(UUID_A), [UUID_B]: broken });
+    await adapter.put(`${PREFIX}token_index`, { [tokenId]: UUID_B });
+
+    const users = await listAllUsers();
+
+    expect(users.map(user => user.uuid)).toEqual([UUID_A]);
+    expect(await loadUserData(UUID_B)).toBeNull();
+    expect(await findUserByToken(token)).toBeNull();
+    expect(await adapter.get(`${PREFIX}users_index`)).toEqual([UUID_A]);
+    expect(await adapter.get(`${PREFIX}token_index`)).toEqual({});
+
+    const [quarantined] = await listQuarantinedRecords();
+    expect(quarantined).toMatchObject({ key: `${PREFIX}user_${UUID_B}`, value: broken });
+    expect(quarantined.reason).toContain('status');
+  });
+
+  it('should quarantine records from a newer version and unreadable JSON', async () => {
+    const items = new Map<string, string>();
+    const storage = {
+      get length() { return items.size; },
+      key: (index: number) => [...items.keys()][index] ?? null,
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); },
+      removeItem: (key: string) => { items.delete(key); }
+    } as Storage;
+    adapter = createLocalStorageAdapter(() => storage);
+    setStorageAdapter(adapter);
+    await seedUsers({ [UUID_A]: { ...legacyRecord(UUID_A), schemaVersion: 99 }, [UUID_B]: null });
+    items.set(`${PREFIX}user_${UUID_B}`, '{"uuid": "6ba7');
+
+    expect(await listAllUsers()).toEqual([]);
+
+    const reasons = (await listQuarantinedRecords()).map(record => record.reason);
+    expect(reasons).toEqual([
+      `Record schema version 99 is newer than supported version ${USER_SCHEMA_VERSION}`,
+      expect.stringMatching(/^Unreadable: /)
+    ]);
+  });
+
+  it('should stamp the schema version on save and reject invalid records', async () => {
+    await saveUserData({ ...legacyRecord(UUID_A), status: 'active', expiresAt: null } as UserData);
+
+    expect(await adapter.get(`${PREFIX}user_${UUID_A}`)).toMatchObject({ schemaVersion: USER_SCHEMA_VERSION });
+    await expect(saveUserData({ ...legacyRecord(UUID_A), apiKeys: 'none' } as unknown as UserData))
+      .rejects.toThrow('Invalid user record: apiKeys: Expected array, received string');
+  });
+});
+
+describe('Other Records', () => {
+  it('should drop invalid roles and keep the built-ins', async () => {
+    const valid = {
+      id: 'auditor',
+      name: 'Auditor',
+      description: '',
+      permissions: ['read:dashboard'],
+      builtIn: false,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z'
+    };
+    await adapter.put(`${PREFIX}roles`, [valid, { id: 'broken', permissions: 'all' }]);
+
+    const ids = (await listRoles()).map(role => role.id);
+
+    expect(ids).toEqual(['user', 'manager', 'admin', 'auditor']);
+    expect(await adapter.get(`${PREFIX}roles`)).toEqual([valid]);
+    expect((await listQuarantinedRecords()).map(record => record.key)).toEqual([`${PREFIX}roles_broken`]);
+  });
+
+  it('should sign out a damaged session', async () => {
+    const id = 'a'.repeat(64);
+    await adapter.put(`${PREFIX}session_${id}`, { id, userUuid: UUID_A, createdAt: 'yesterday' });
+
+    expect(await loadSession(id)).toBeNull();
+    expect(await adapter.get(`${PREFIX}session_${id}`)).toBeNull();
+    expect(await listQuarantinedRecords()).toHaveLength(1);
+  });
+
+  it('should still treat a damaged setup marker as completed', async () => {
+    await adapter.put(`${PREFIX}setup`, { completedAt: 42 });
+
+    expect(await loadSetupRecord()).not.toBeNull();
+    expect(await adapter.get(`${PREFIX}setup`)).toEqual({ completedAt: 42 });
+    expect(await listQuarantinedRecords()).toHaveLength(1);
+  });
+
+  it('should skip an invalid audit entry but keep it in the stored log', async () => {
+    const entry = (seq: number): AuditEntry => ({
+      seq,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      event: 'SESSION_ENDED',
+      details: {},
+      prevHash: 'p',
+      hash: 'h'
+    });
+    await adapter.put(`${PREFIX}audit_entry_0`, entry(0));
+    await adapter.put(`${PREFIX}audit_entry_1`, { seq: 1, details: 'edited' });
+    await adapter.put(`${PREFIX}audit_head`, { length: 2 });
+
+    expect(await loadAuditEntries()).toEqual([entry(0)]);
+
+    const tails: AuditTail[] = [];
+    await appendAuditEntry(async tail => {
+      tails.push(tail);
+      return entry(tail.seq);
+    });
+    expect(tails).toEqual([{ seq: 2, previous: null, damaged: true }]);
+    expect(await adapter.get(`${PREFIX}audit_entry_1`)).toEqual({ seq: 1, details: 'edited' });
+    expect(await adapter.get(`${PREFIX}audit_entry_2`)).toEqual(entry(2));
+    expect((await listQuarantinedRecords()).map(record => record.key)).toEqual([`${PREFIX}audit_entry_1`]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import {
+  canAccessProvider,
+  canAdminister,
+  canModifyProvider,
+  canRevealProviderKey,
+  canViewSection,
+  describeTokenScope,
+  filterByProvider,
+  getProviderIdByName,
+  normalizeTokenScope
+} from '../src/utils/scopes';
+import { authenticateToken } from '../src/utils/auth';
+import { createUser } from '../src/utils/storage';
+import { generateSecureToken, getTokenLookupId, hashToken } from '../src/utils/crypto';
+import { generateBreakGlassCodes } from '../src/utils/breakGlass';
+import type { TokenScope, UserData } from '../src/types';
+
+const makeUser = (permissions: string[], scope?: TokenScope): UserData => ({
+  uuid: 'user-1',
+  tokenHash: 'hash',
+  apiKeys: [],
+  createdAt: new Date().toISOString(),
+  lastAccess: new Date().toISOString(),
+  role: 'manager',
+  permissions,
+  status: 'active',
+  expiresAt: null,
+  ...(scope ? { scope } : {})
+});
+
+const MANAGER_PERMISSIONS = ['read:dashboard', 'modify:settings', 'manage:providers'];
+
+// Finance: sees Anthropic spend, cannot reveal or change any key
+const FINANCE_SCOPE: TokenScope = { providers: ['anthropic'], readOnly: true, sections: ['overview', 'providers'] };
+
+describe('Token Scopes', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+  });
+
+  it('should leave unscoped tokens unrestricted', () => {
+    const user = makeUser(MANAGER_PERMISSIONS);
+
+    expect(canAccessProvider(user, 'openai')).toBe(true);
+    expect(canModifyProvider(user, 'openai')).toBe(true);
+    expect(canRevealProviderKey(user, 'openai')).toBe(true);
+    expect(canViewSection(user, 'activity')).toBe(true);
+  });
+
+  it('should deny everything without a user', () => {
+    expect(canAccessProvider(null, 'openai')).toBe(false);
+    expect(canModifyProvider(null, 'openai')).toBe(false);
+    expect(canRevealProviderKey(null, 'openai')).toBe(false);
+    expect(canViewSection(null, 'overview')).toBe(false);
+  });
+
+  it('should limit a finance token to reading Anthropic spend', () => {
+    const user = makeUser(MANAGER_PERMISSIONS, FINANCE_SCOPE);
+
+    expect(canAccessProvider(user, 'anthropic')).toBe(true);
+    expect(canAccessProvider(user, 'openai')).toBe(false);
+
+    expect(canRevealProviderKey(user, 'anthropic')).toBe(false);
+    expect(canRevealProviderKey(user, 'openai')).toBe(false);
+    expect(canModifyProvider(user, 'anthropic')).toBe(false);
+    expect(canModifyProvider(user, 'openai')).toBe(false);
+
+    expect(canViewSection(user, 'providers')).toBe(true);
+    expect(canViewSection(user, 'activity')).toBe(false);
+  });
+
+  it('should still require manage:providers on a writable scope', () => {
+    const scope: TokenScope = { providers: ['anthropic'], readOnly: false, sections: null };
+
+    expect(canModifyProvider(makeUser(MANAGER_PERMISSIONS, scope), 'anthropic')).toBe(true);
+    expect(canModifyProvider(makeUser(MANAGER_PERMISSIONS, scope), 'openai')).toBe(false);
+    expect(canModifyProvider(makeUser(['read:dashboard'], scope), 'anthropic')).toBe(false);
+  });
+
+  it('should leave a read-only admin token able to look but not to make Admin changes', async () => {
+    const readOnly: TokenScope = { providers: null, readOnly: true, sections: null };
+    const admin = { ...makeUser(['admin:access']), role: 'admin' };
+
+    expect(canAdminister(admin)).toBe(true);
+    expect(canAdminister({ ...admin, scope: readOnly })).toBe(false);
+    expect(canAdminister(makeUser(MANAGER_PERMISSIONS))).toBe(false);
+    await expect(generateBreakGlassCodes({ ...admin, scope: readOnly })).rejects.toThrow('writable token');
+  });
+
+  it('should filter rows down to in-scope providers', () => {
+    const user = makeUser(MANAGER_PERMISSIONS, FINANCE_SCOPE);
+    const rows = [{ provider: 'OpenAI' }, { provider: 'Anthropic' }, { provider: 'Grok' }];
+
+    expect(filterByProvider(user, rows, row => getProviderIdByName(row.provider))).toEqual([{ provider: 'Anthropic' }]);
+  });
+
+  it('should drop unrestricted scopes and reject unknown entries', () => {
+    expect(normalizeTokenScope({ providers: null, readOnly: false, sections: null })).toBeUndefined();
+    expect(normalizeTokenScope({ providers: ['anthropic', 'anthropic'], readOnly: false, sections: null }))
+      .toEqual({ providers: ['anthropic'], readOnly: false, sections: null });
+
+    expect(() => normalizeTokenScope({ providers: ['mistral'], readOnly: false, sections: null }))
+      .toThrow('Unknown provider in scope: mistral');
+    // @ts-expect-error Testing invalid input
+    expect(() => normalizeTokenScope({ providers: null, readOnly: false, sections: ['billing'] }))
+      .toThrow('Unknown dashboard section in scope: billing');
+  });
+
+  it('should store the scope on the user and carry it through login', async () => {
+    const token = generateSecureToken();
+    const created = await createUser(await hashToken(token), 'manager', {
+      tokenId: await getTokenLookupId(token),
+      scope: FINANCE_SCOPE
+    });
+
+    expect(created.scope).toEqual(FINANCE_SCOPE);
+
+    const result = await authenticateToken(token);
+    expect(result.user?.scope).toEqual(FINANCE_SCOPE);
+  });
+
+  it('should describe a scope for the Admin table', () => {
+    expect(describeTokenScope(FINANCE_SCOPE)).toBe('Anthropic · Read-only · Usage Overview, Provider Usage');
+    expect(describeTokenScope({ providers: null, readOnly: true, sections: null })).toBe('All providers · Read-only');
+  });
+});
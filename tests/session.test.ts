@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock localStorage / sessionStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+const mockSessionStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+vi.stubGlobal('sessionStorage', {
+  getItem: (key: string) => mockSessionStorage[key] || null,
+  setItem: (key: string, value: string) => { mockSessionStorage[key] = value; },
+  removeItem: (key: string) => { delete mockSessionStorage[key]; },
+});
+
+import {
+  startSession,
+  resumeSession,
+  touchSession,
+  endSession,
+  type SessionConfig
+} from '../src/utils/session';
+import { getStorageAdapter, setStorageAdapter } from '../src/utils/storage';
+
+const MINUTE = 60 * 1000;
+
+const config: SessionConfig = {
+  idleTimeout: 30 * MINUTE,
+  absoluteLifetime: 8 * 60 * MINUTE,
+  persistence: 'session'
+};
+
+const userUuid = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('Sessions', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    Object.keys(mockSessionStorage).forEach(key => delete mockSessionStorage[key]);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-02-13T08:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resume an active session from its opaque id', async () => {
+    const session = await startSession(userUuid, config);
+    expect(session.id).toMatch(/^[0-9a-f]{64}$/);
+    expect(mockSessionStorage['api_token_monitor_v2_session_id']).toBe(session.id);
+
+    vi.advanceTimersByTime(10 * MINUTE);
+    const check = await resumeSession(config);
+
+    expect(check.valid).toBe(true);
+    if (check.valid) {
+      expect(check.session.userUuid).toBe(userUuid);
+    }
+  });
+
+  it('should end the session after the idle timeout', async () => {
+    const session = await startSession(userUuid, config);
+
+    vi.advanceTimersByTime(31 * MINUTE);
+    const check = await resumeSession(config);
+
+    expect(check).toEqual({ valid: false, reason: 'idle_timeout' });
+    expect(mockStorage[`api_token_monitor_v2_session_${session.id}`]).toBeUndefined();
+  });
+
+  it('should keep the session alive while there is activity', async () => {
+    await startSession(userUuid, config);
+
+    for (let i = 0; i < 4; i++) {
+      vi.advanceTimersByTime(20 * MINUTE);
+      await touchSession(config);
+    }
+
+    const check = await resumeSession(config);
+    expect(check.valid).toBe(true);
+  });
+
+  it('should enforce the absolute lifetime despite activity', async () => {
+    await startSession(userUuid, config);
+
+    for (let i = 0; i < 25; i++) {
+      vi.advanceTimersByTime(20 * MINUTE);
+      await touchSession(config);
+    }
+
+    const check = await resumeSession(config);
+    expect(check).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('should sign the browser out even when the stored session cannot be removed', async () => {
+    await startSession(userUuid, config);
+    const adapter = getStorageAdapter();
+    setStorageAdapter({ ...adapter, get: () => Promise.reject(new Error('Storage unavailable')) });
+
+    try {
+      await expect(endSession(config)).rejects.toThrow('Storage unavailable');
+    } finally {
+      setStorageAdapter(adapter);
+    }
+    expect(mockSessionStorage['api_token_monitor_v2_session_id']).toBeUndefined();
+  });
+
+  it('should forget the session on logout', async () => {
+    await startSession(userUuid, config);
+    await endSession(config);
+
+    const check = await resumeSession(config);
+    expect(check).toEqual({ valid: false, reason: 'missing' });
+  });
+});
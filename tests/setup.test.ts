@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import { needsSetup, runFirstRunSetup } from '../src/utils/setup';
+import { authenticateToken } from '../src/utils/auth';
+import { createUser, deleteUser, loadSetupRecord, loadUserData } from '../src/utils/storage';
+import { generateSecureToken, hashToken } from '../src/utils/crypto';
+
+describe('First-Run Setup', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    vi.stubEnv('VITE_ADMIN_TOKEN_HASH', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should be required on an empty install', async () => {
+    expect(await needsSetup()).toBe(true);
+  });
+
+  it('should provision an admin that stores only the token hash', async () => {
+    const { token, user } = await runFirstRunSetup();
+    const stored = await loadUserData(user.uuid);
+
+    expect(stored?.role).toBe('admin');
+    expect(stored?.permissions).toContain('admin:access');
+    expect(stored?.tokenHash).toMatch(/^\$argon2id\$/);
+    expect(JSON.stringify(mockStorage)).not.toContain(token);
+    expect((await authenticateToken(token)).user?.uuid).toBe(user.uuid);
+  });
+
+  it('should disable itself once it has run', async () => {
+    const { user } = await runFirstRunSetup();
+
+    expect(await loadSetupRecord()).toEqual({ completedAt: user.createdAt, adminUuid: user.uuid });
+    expect(await needsSetup()).toBe(false);
+    await expect(runFirstRunSetup()).rejects.toThrow('Setup has already been completed');
+
+    // Removing the admin later does not reopen the wizard
+    await deleteUser(user.uuid);
+    expect(await needsSetup()).toBe(false);
+  });
+
+  it('should not be required when an admin already exists', async () => {
+    await createUser(await hashToken(generateSecureToken()), 'admin');
+
+    expect(await needsSetup()).toBe(false);
+  });
+
+  it('should not be required when a hashed env admin is configured', async () => {
+    vi.stubEnv('VITE_ADMIN_TOKEN_HASH', await hashToken(generateSecureToken()));
+
+    expect(await needsSetup()).toBe(false);
+  });
+
+  it('should stay closed on an existing install without a usable admin', async () => {
+    // Only a regular user whose token has already expired
+    await createUser(await hashToken(generateSecureToken()), 'user', { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await needsSetup()).toBe(false);
+  });
+
+  it('should stay closed when the env admin hash is set but unusable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('VITE_ADMIN_TOKEN_HASH', 'not-a-hash');
+
+    expect(await needsSetup()).toBe(false);
+  });
+});
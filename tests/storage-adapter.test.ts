@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+
+import {
+  createIndexedDbStorageAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+  type StorageAdapter
+} from '../src/utils/storageAdapter';
+import {
+  createUser,
+  deleteUser,
+  findUserByToken,
+  listAllUsers,
+  loadUserData,
+  setStorageAdapter
+} from '../src/utils/storage';
+import { generateSecureToken, getTokenLookupId, hashToken } from '../src/utils/crypto';
+
+// Storage with length/key so list() can enumerate, like the browser's
+function createFakeStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+}
+
+const backends: Array<[string, () => StorageAdapter]> = [
+  ['memory', () => createMemoryStorageAdapter()],
+  ['localStorage', () => {
+    const storage = createFakeStorage();
+    return createLocalStorageAdapter(() => storage);
+  }],
+  ['indexedDB', () => createIndexedDbStorageAdapter('test', () => new IDBFactory())],
+];
+
+describe.each(backends)('StorageAdapter (%s)', (_name, create) => {
+  let adapter: StorageAdapter;
+
+  beforeEach(() => {
+    adapter = create();
+  });
+
+  it('should put, get and delete values', async () => {
+    await adapter.put('user_1', { uuid: '1', permissions: ['read:dashboard'] });
+
+    expect(await adapter.get('user_1')).toEqual({ uuid: '1', permissions: ['read:dashboard'] });
+
+    await adapter.delete('user_1');
+    expect(await adapter.get('user_1')).toBeNull();
+    expect(await adapter.get('missing')).toBeNull();
+  });
+
+  it('should not share references with the caller', async () => {
+    const value = { roles: ['user'] };
+    await adapter.put('roles', value);
+    value.roles.push('admin');
+
+    expect(await adapter.get('roles')).toEqual({ roles: ['user'] });
+  });
+
+  it('should list keys by prefix in order', async () => {
+    await adapter.put('session_b', 1);
+    await adapter.put('user_1', 1);
+    await adapter.put('session_a', 1);
+
+    expect(await adapter.list('session_')).toEqual(['session_a', 'session_b']);
+    expect(await adapter.list('none_')).toEqual([]);
+  });
+
+  it('should apply transaction writes together and see its own staged writes', async () => {
+    await adapter.put('index', ['a']);
+
+    const result = await adapter.transaction(async tx => {
+      tx.put('user_b', { uuid: 'b' });
+      tx.put('index', [...(await tx.get<string[]>('index') ?? []), 'b']);
+      tx.delete('user_a');
+      expect(await tx.get('user_b')).toEqual({ uuid: 'b' });
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await adapter.get('index')).toEqual(['a', 'b']);
+    expect(await adapter.get('user_b')).toEqual({ uuid: 'b' });
+  });
+
+  it('should write nothing when the transaction throws', async () => {
+    await adapter.put('index', ['a']);
+
+    await expect(adapter.transaction(async tx => {
+      tx.put('index', ['a', 'b']);
+      tx.put('user_b', { uuid: 'b' });
+      throw new Error('Invalid UUID format');
+    })).rejects.toThrow('Invalid UUID format');
+
+    expect(await adapter.get('index')).toEqual(['a']);
+    expect(await adapter.get('user_b')).toBeNull();
+  });
+});
+
+describe('localStorage adapter', () => {
+  it('should put earlier writes back when storage fills up partway through a batch', async () => {
+    const storage = createFakeStorage();
+    const adapter = createLocalStorageAdapter(() => storage);
+    await adapter.put('index', ['a']);
+    await adapter.put('user_a', { uuid: 'a' });
+
+    const setItem = storage.setItem;
+    storage.setItem = (key, value) => {
+      if (key === 'user_b') throw new DOMException('Storage is full', 'QuotaExceededError');
+      setItem(key, value);
+    };
+
+    await expect(adapter.transaction(async tx => {
+      tx.put('index', ['a', 'b']);
+      tx.delete('user_a');
+      tx.put('user_b', { uuid: 'b' });
+    })).rejects.toThrow('Storage is full');
+
+    storage.setItem = setItem;
+    expect(await adapter.get('index')).toEqual(['a']);
+    expect(await adapter.get('user_a')).toEqual({ uuid: 'a' });
+    expect(await adapter.get('user_b')).toBeNull();
+  });
+});
+
+describe('Storage on a configured adapter', () => {
+  afterEach(() => {
+    setStorageAdapter(createMemoryStorageAdapter());
+  });
+
+  it('should run user records, the token index and lookups on IndexedDB', async () => {
+    setStorageAdapter(createIndexedDbStorageAdapter('records', () => new IDBFactory()));
+    const token = generateSecureToken();
+
+    const user = await createUser(await hashToken(token), 'user', { tokenId: await getTokenLookupId(token) });
+
+    expect((await loadUserData(user.uuid))?.tokenHash).toBe(user.tokenHash);
+    expect((await findUserByToken(token))?.user.uuid).toBe(user.uuid);
+    expect(await listAllUsers()).toHaveLength(1);
+
+    await deleteUser(user.uuid);
+    expect(await findUserByToken(token)).toBeNull();
+    expect(await listAllUsers()).toEqual([]);
+  });
+});
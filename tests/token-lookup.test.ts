@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+let onRead: ((key: string) => void) | null = null;
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => { onRead?.(key); return mockStorage[key] || null; },
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import { authenticateToken } from '../src/utils/auth';
+import { createUser, deleteUser, findUserByToken, loadUserData, updateUserRecord } from '../src/utils/storage';
+import { rotateUserToken } from '../src/utils/tokens';
+import { generateSecureToken, getTokenLookupId, hashToken, parseToken } from '../src/utils/crypto';
+
+const TOKEN_INDEX_KEY = 'api_token_monitor_v2_token_index';
+
+const readIndex = (): Record<string, string> => JSON.parse(mockStorage[TOKEN_INDEX_KEY] ?? '{}');
+
+// Tokens issued before lookup ids were atm_v2_ followed by 64 hex characters
+const legacyToken = () => 'atm_v2_' + 'ab12'.repeat(16);
+
+async function issue(role = 'user') {
+  const token = generateSecureToken();
+  const user = await createUser(await hashToken(token), role, { tokenId: await getTokenLookupId(token) });
+  return { token, user };
+}
+
+describe('Token Lookup', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    onRead = null;
+  });
+
+  it('should issue tokens with a public lookup id', () => {
+    const token = generateSecureToken();
+    const parsed = parseToken(token);
+
+    expect(token).toMatch(/^atm_v2_[0-9a-f]{16}_[0-9a-f]{64}$/);
+    expect(parsed?.id).toBe(token.slice(7, 23));
+    expect(parseToken(legacyToken())).toBeNull();
+  });
+
+  it('should index the lookup id to the owning user', async () => {
+    const { token, user } = await issue();
+
+    expect(readIndex()).toEqual({ [parseToken(token)!.id]: user.uuid });
+
+    const match = await findUserByToken(token);
+    expect(match?.user.uuid).toBe(user.uuid);
+    expect(match?.indexed).toBe(true);
+  });
+
+  it('should reject a token whose id is known but whose secret is wrong', async () => {
+    const { token } = await issue();
+    const forged = token.slice(0, 24) + '0'.repeat(64);
+
+    expect(await findUserByToken(forged)).toBeNull();
+  });
+
+  it('should find and then index a legacy token on first login', async () => {
+    const token = legacyToken();
+    const created = await createUser(await hashToken(token), 'user');
+
+    const first = await findUserByToken(token);
+    expect(first?.indexed).toBe(false);
+
+    expect((await authenticateToken(token)).success).toBe(true);
+
+    const stored = await loadUserData(created.uuid);
+    expect(stored?.tokenId).toBe(await getTokenLookupId(token));
+    expect(readIndex()[stored!.tokenId!]).toBe(created.uuid);
+    expect((await findUserByToken(token))?.indexed).toBe(true);
+  });
+
+  it('should index a legacy token without losing a concurrent edit', async () => {
+    const token = legacyToken();
+    const created = await createUser(await hashToken(token), 'user');
+
+    // Edit the record right after the login has read it, before the login saves
+    let edit: Promise<unknown> | null = null;
+    onRead = key => {
+      if (!edit && key.endsWith(created.uuid)) {
+        onRead = null;
+        edit = updateUserRecord(created.uuid, current => ({ ...current, role: 'manager' }));
+      }
+    };
+    const login = await authenticateToken(token);
+    await edit;
+
+    const stored = await loadUserData(created.uuid);
+    expect(login.success).toBe(true);
+    expect(stored).toMatchObject({ role: 'manager', tokenId: await getTokenLookupId(token) });
+  });
+
+  it('should keep a rotated-out token indexed until it retires', async () => {
+    const { token, user } = await issue('admin');
+
+    const rotated = await rotateUserToken(user.uuid, user.uuid, 60 * 60 * 1000);
+
+    expect(Object.keys(readIndex()).sort()).toEqual([parseToken(token)!.id, parseToken(rotated.token)!.id].sort());
+    expect((await findUserByToken(token))?.retiring).toBeDefined();
+
+    await rotateUserToken(user.uuid, user.uuid, 0);
+    expect(readIndex()[parseToken(rotated.token)!.id]).toBeUndefined();
+  });
+
+  it('should drop index entries when a user is deleted', async () => {
+    const { token, user } = await issue();
+
+    await deleteUser(user.uuid);
+
+    expect(readIndex()).toEqual({});
+    expect(await findUserByToken(token)).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import {
+  computeExpiry,
+  revokeUserToken,
+  listRevokedUsers,
+  rotateUserToken,
+  retireExpiredTokens
+} from '../src/utils/tokens';
+import { createUser, loadUserData, saveUserData } from '../src/utils/storage';
+import { flushAuditLog, getAuditLogs } from '../src/utils/audit';
+import { getTokenState, authenticateToken } from '../src/utils/auth';
+import { generateSecureToken, hashToken } from '../src/utils/crypto';
+
+const HOUR = 60 * 60 * 1000;
+
+let adminUuid: string;
+
+describe('Token Lifecycle', () => {
+  beforeEach(async () => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    adminUuid = (await createUser('admin-hash', 'admin')).uuid;
+  });
+
+  describe('computeExpiry', () => {
+    it('should add whole days to the current time', () => {
+      const now = Date.UTC(2025, 1, 13);
+      expect(computeExpiry('7', now)).toBe('2025-02-20T00:00:00.000Z');
+      expect(computeExpiry('365', now)).toBe('2026-02-13T00:00:00.000Z');
+    });
+
+    it('should return null for tokens that never expire', () => {
+      expect(computeExpiry('never')).toBeNull();
+    });
+
+    it('should reject unknown choices', () => {
+      expect(() => computeExpiry('soon')).toThrow('Invalid expiry');
+    });
+  });
+
+  describe('getTokenState', () => {
+    it('should report expiry once expiresAt has passed', async () => {
+      const user = await createUser('hash', 'user', { expiresAt: '2025-02-20T00:00:00.000Z' });
+      expect(getTokenState(user, Date.UTC(2025, 1, 19))).toBe('active');
+      expect(getTokenState(user, Date.UTC(2025, 1, 21))).toBe('expired');
+    });
+  });
+
+  describe('revokeUserToken', () => {
+    it('should persist revocation details on the user record', async () => {
+      const user = await createUser('hash', 'user');
+
+      await revokeUserToken(user.uuid, 'Contractor offboarded', adminUuid);
+
+      const stored = await loadUserData(user.uuid);
+      expect(stored?.status).toBe('revoked');
+      expect(stored?.revokedReason).toBe('Contractor offboarded');
+      expect(stored?.revokedAt).toBeDefined();
+      expect(getTokenState(stored!)).toBe('revoked');
+    });
+
+    it('should refuse a read-only admin token', async () => {
+      const user = await createUser('hash', 'user');
+      const readOnly = await createUser('read-only-hash', 'admin', {
+        scope: { providers: null, readOnly: true, sections: null }
+      });
+
+      await expect(revokeUserToken(user.uuid, 'Offboarded', readOnly.uuid)).rejects.toThrow('writable token');
+      await expect(rotateUserToken(user.uuid, readOnly.uuid, HOUR)).rejects.toThrow('writable token');
+      expect(await loadUserData(user.uuid)).toEqual(user);
+    });
+
+    it('should list only revoked users', async () => {
+      const kept = await createUser('hash-a', 'user');
+      const revoked = await createUser('hash-b', 'manager');
+      await revokeUserToken(revoked.uuid, '', adminUuid);
+
+      const list = await listRevokedUsers();
+
+      expect(list.map(u => u.uuid)).toEqual([revoked.uuid]);
+      expect(list.map(u => u.uuid)).not.toContain(kept.uuid);
+      expect(list[0].revokedReason).toBe('No reason given');
+    });
+  });
+
+  describe('rotateUserToken', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should accept both tokens during the grace window', async () => {
+      const oldToken = generateSecureToken();
+      const user = await createUser(await hashToken(oldToken), 'user');
+
+      const { token: newToken } = await rotateUserToken(user.uuid, adminUuid, 2 * HOUR);
+
+      expect(newToken).toMatch(/^atm_v2_/);
+      expect((await authenticateToken(newToken)).user?.uuid).toBe(user.uuid);
+      expect((await authenticateToken(oldToken)).user?.uuid).toBe(user.uuid);
+    });
+
+    it('should retire the old token once the grace window closes', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2025-02-13T08:00:00Z'));
+
+      const oldToken = generateSecureToken();
+      const user = await createUser(await hashToken(oldToken), 'user');
+      const { token: newToken } = await rotateUserToken(user.uuid, adminUuid, 2 * HOUR);
+
+      vi.setSystemTime(new Date('2025-02-13T10:00:01Z'));
+
+      expect((await authenticateToken(oldToken)).success).toBe(false);
+      expect(await retireExpiredTokens()).toBe(1);
+      expect((await loadUserData(user.uuid))?.retiringTokens).toEqual([]);
+      expect((await authenticateToken(newToken)).success).toBe(true);
+    });
+
+    it('should retire the old token immediately without a grace period', async () => {
+      const oldToken = generateSecureToken();
+      const user = await createUser(await hashToken(oldToken), 'user');
+
+      await rotateUserToken(user.uuid, adminUuid, 0);
+
+      expect((await authenticateToken(oldToken)).success).toBe(false);
+      expect((await loadUserData(user.uuid))?.retiringTokens).toEqual([]);
+    });
+
+    it('should refuse to rotate a revoked token', async () => {
+      const user = await createUser('hash', 'user');
+      await revokeUserToken(user.uuid, 'Left the company', adminUuid);
+
+      await expect(rotateUserToken(user.uuid, adminUuid)).rejects.toThrow('Cannot rotate a revoked token');
+    });
+
+    it('should refuse to rotate without a grace period while secrets are sealed under the token', async () => {
+      const oldToken = generateSecureToken();
+      const user = await createUser(await hashToken(oldToken), 'user');
+      const enrolled = await saveUserData({
+        ...user,
+        totp: { secret: 'sealed', enabledAt: new Date().toISOString(), lastUsedStep: 0, recoveryCodes: [] },
+        retiringTokens: [{ tokenHash: 'old', rotatedAt: '2025-01-01T00:00:00.000Z', retiresAt: '2025-01-02T00:00:00.000Z' }]
+      });
+      await flushAuditLog();
+      const logged = (await getAuditLogs()).length;
+
+      await expect(rotateUserToken(user.uuid, adminUuid, 0)).rejects.toThrow('authenticator enrolment');
+
+      expect(await loadUserData(user.uuid)).toEqual(enrolled);
+      expect((await getAuditLogs()).slice(logged)).toEqual([]);
+      expect((await authenticateToken(oldToken)).success).toBe(true);
+    });
+  });
+});
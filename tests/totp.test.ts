@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// Mock localStorage for Node.js environment
+const mockStorage: Record<string, string> = {};
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => mockStorage[key] || null,
+  setItem: (key: string, value: string) => { mockStorage[key] = value; },
+  removeItem: (key: string) => { delete mockStorage[key]; },
+});
+
+import {
+  base32Encode,
+  base32Decode,
+  generateHotp,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri
+} from '../src/utils/totp';
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  verifySecondFactor,
+  disableTwoFactor,
+  isTwoFactorEligible
+} from '../src/utils/twoFactor';
+import { authenticateToken } from '../src/utils/auth';
+import { createUser, loadUserData } from '../src/utils/storage';
+import { decodeEnvelope, generateSecureToken, hashToken } from '../src/utils/crypto';
+
+// RFC 4226 / RFC 6238 shared secret "12345678901234567890"
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('TOTP algorithm', () => {
+  it('should round-trip base32', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(base32Decode(RFC_SECRET));
+  });
+
+  it('should match the RFC 4226 HOTP test vectors', async () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+    const key = base32Decode(RFC_SECRET);
+
+    for (let counter = 0; counter < expected.length; counter++) {
+      expect(await generateHotp(key, counter)).toBe(expected[counter]);
+    }
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', async () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      expect(await generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(code);
+    }
+  });
+
+  it('should accept one step of clock drift and nothing further', async () => {
+    const now = 1111111111 * 1000;
+    const previous = await generateTotp(RFC_SECRET, now - 30_000);
+    const stale = await generateTotp(RFC_SECRET, now - 90_000);
+
+    expect(await verifyTotp(RFC_SECRET, previous, now)).toBe(Math.floor(now / 30_000) - 1);
+    expect(await verifyTotp(RFC_SECRET, stale, now)).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'admin-1234');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/API%20Token%20Monitor%3Aadmin-1234\?/);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('period=30');
+  });
+});
+
+describe('Two-factor login', () => {
+  const NOW = new Date('2025-02-13T08:00:00Z').getTime();
+
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key]);
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  async function enrol() {
+    const token = generateSecureToken();
+    const user = await createUser(await hashToken(token), 'admin');
+    const setup = beginTotpEnrollment(user);
+    const recoveryCodes = await confirmTotpEnrollment(user.uuid, setup.secret, await generateTotp(setup.secret, NOW), token);
+    return { token, user, secret: setup.secret, recoveryCodes };
+  }
+
+  it('should only offer enrolment to admin and manager level accounts', async () => {
+    const admin = await createUser(await hashToken(generateSecureToken()), 'admin');
+    const manager = await createUser(await hashToken(generateSecureToken()), 'manager');
+    const viewer = await createUser(await hashToken(generateSecureToken()), 'user');
+
+    expect(isTwoFactorEligible(admin)).toBe(true);
+    expect(isTwoFactorEligible(manager)).toBe(true);
+    expect(isTwoFactorEligible(viewer)).toBe(false);
+  });
+
+  it('should store the secret encrypted and recovery codes hashed', async () => {
+    const { user, secret, recoveryCodes } = await enrol();
+    const stored = await loadUserData(user.uuid);
+
+    expect(stored?.totp?.secret).not.toContain(secret);
+    expect(decodeEnvelope(stored!.totp!.secret).header).toHaveProperty('iv');
+    expect(recoveryCodes).toHaveLength(10);
+    expect(stored?.totp?.recoveryCodes).not.toContain(recoveryCodes[0]);
+  });
+
+  it('should refuse to enable with a wrong code', async () => {
+    const token = generateSecureToken();
+    const user = await createUser(await hashToken(token), 'admin');
+    const setup = beginTotpEnrollment(user);
+
+    await expect(confirmTotpEnrollment(user.uuid, setup.secret, '000000', token)).rejects.toThrow('Invalid verification code');
+    await expect(confirmTotpEnrollment(user.uuid, setup.secret, await generateTotp(setup.secret, NOW), generateSecureToken()))
+      .rejects.toThrow('current access token');
+    expect((await loadUserData(user.uuid))?.totp).toBeUndefined();
+  });
+
+  it('should ask for a second factor after the token is accepted', async () => {
+    const { token } = await enrol();
+
+    const result = await authenticateToken(token);
+
+    expect(result.success).toBe(true);
+    expect(result.secondFactorRequired).toBe(true);
+  });
+
+  it('should accept a fresh code once and refuse to replay it', async () => {
+    const { token, user, secret } = await enrol();
+    vi.setSystemTime(NOW + 60_000);
+    const code = await generateTotp(secret, Date.now());
+
+    expect((await verifySecondFactor(user.uuid, code, token)).success).toBe(true);
+    expect((await verifySecondFactor(user.uuid, code, token)).success).toBe(false);
+  });
+
+  it('should re-seal an under-cost secret when a code is accepted', async () => {
+    vi.stubEnv('VITE_KDF_ITERATIONS', '1000');
+    const { token, user, secret } = await enrol();
+    vi.stubEnv('VITE_KDF_ITERATIONS', '2000');
+    vi.setSystemTime(NOW + 60_000);
+
+    expect((await verifySecondFactor(user.uuid, await generateTotp(secret, Date.now()), token)).success).toBe(true);
+    expect(decodeEnvelope((await loadUserData(user.uuid))!.totp!.secret).header.kdf?.iterations).toBe(2000);
+  });
+
+  it('should only check authenticator codes with the token the secret was sealed under', async () => {
+    const { user, secret } = await enrol();
+    vi.setSystemTime(NOW + 60_000);
+    const code = await generateTotp(secret, Date.now());
+
+    const result = await verifySecondFactor(user.uuid, code, generateSecureToken());
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('recovery code') });
+    expect((await verifySecondFactor(user.uuid, code, null)).success).toBe(false);
+  });
+
+  it('should accept each recovery code exactly once', async () => {
+    const { user, recoveryCodes } = await enrol();
+
+    const first = await verifySecondFactor(user.uuid, recoveryCodes[0].toUpperCase(), null);
+    expect(first).toEqual({ success: true, method: 'recovery_code' });
+    expect((await verifySecondFactor(user.uuid, recoveryCodes[0], null)).success).toBe(false);
+    expect((await loadUserData(user.uuid))?.totp?.recoveryCodes).toHaveLength(9);
+  });
+
+  it('should lock the second step after repeated wrong codes', async () => {
+    const { token, user, secret } = await enrol();
+
+    for (let i = 0; i < 5; i++) {
+      await verifySecondFactor(user.uuid, '000000', token);
+    }
+    vi.setSystemTime(NOW + 60_000);
+    const result = await verifySecondFactor(user.uuid, await generateTotp(secret, Date.now()), token);
+
+    expect(result.success).toBe(false);
+    expect(result.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('should skip the second step once two-factor is disabled', async () => {
+    const { token, user } = await enrol();
+
+    await disableTwoFactor(user.uuid, user.uuid);
+
+    expect((await authenticateToken(token)).secondFactorRequired).toBeUndefined();
+  });
+
+  it("should refuse to remove another user's two-factor for a read-only admin", async () => {
+    const { user } = await enrol();
+    const readOnly = await createUser('read-only-hash', 'admin', {
+      scope: { providers: null, readOnly: true, sections: null }
+    });
+
+    await expect(disableTwoFactor(user.uuid, readOnly.uuid)).rejects.toThrow('writable token');
+    expect((await loadUserData(user.uuid))?.totp).toBeDefined();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  decryptApiKey,
+  deriveKeyEncryptionKey,
+  encryptApiKey,
+  isWrappedEnvelope,
+  openEnvelope,
+  rewrapEnvelope,
+  sealEnvelope
+} from '../src/utils/crypto';
+import { createUser, loadUserData, saveUserData, setStorageAdapter } from '../src/utils/storage';
+import { createMemoryStorageAdapter } from '../src/utils/storageAdapter';
+import {
+  changeVaultSecret,
+  isVaultAvailable,
+  isVaultUnlocked,
+  lockVault,
+  revealApiKey,
+  sealApiKey,
+  unlockVault
+} from '../src/utils/vault';
+import { ENV_ADMIN_UUID } from '../src/utils/auth';
+import type { ApiKey, UserData } from '../src/types';
+
+const TOKEN = 'atm_v2_vault_test_token';
+
+async function createUserWithKey(plaintext: string): Promise<UserData> {
+  const user = (await unlockVault(await createUser('hash-a', 'user'), TOKEN))!;
+  const apiKey: ApiKey = { id: '1', provider: 'openai', key: await sealApiKey(user, plaintext, '1'), usage: 0, limit: 0 };
+  return saveUserData({ ...user, apiKeys: [apiKey] });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  setStorageAdapter(createMemoryStorageAdapter());
+  lockVault();
+});
+
+describe('Key Envelopes', () => {
+  it('should seal under a fresh data key and open with the same vault key', async () => {
+    const key = await deriveKeyEncryptionKey('secret', new Uint8Array(16));
+    const sealed = await sealEnvelope('sk-test-123', key);
+
+    expect(isWrappedEnvelope(sealed)).toBe(true);
+    expect(sealed).not.toContain('sk-test-123');
+    expect(await openEnvelope(sealed, key)).toBe('sk-test-123');
+    expect(await sealEnvelope('sk-test-123', key)).not.toBe(sealed);
+  });
+
+  it('should re-wrap the data key without re-encrypting the value', async () => {
+    const from = await deriveKeyEncryptionKey('old', new Uint8Array(16));
+    const to = await deriveKeyEncryptionKey('new', new Uint8Array(16));
+    const sealed = await sealEnvelope('sk-test-123', from);
+
+    const rewrapped = await rewrapEnvelope(sealed, from, to);
+
+    expect(rewrapped.split('.')[2]).toBe(sealed.split('.')[2]);
+    expect(await openEnvelope(rewrapped, to)).toBe('sk-test-123');
+    await expect(openEnvelope(rewrapped, from)).rejects.toThrow();
+  });
+
+  it('should not mistake password ciphertext for a vault envelope', async () => {
+    expect(isWrappedEnvelope(await encryptApiKey('sk-test-123', 'password'))).toBe(false);
+    expect(isWrappedEnvelope('not json')).toBe(false);
+  });
+});
+
+describe('Key Vault', () => {
+  it('should create a token vault on first unlock and store only ciphertext', async () => {
+    const user = await createUserWithKey('sk-test-123');
+
+    expect(user.vault?.source).toBe('token');
+    expect(JSON.stringify(await loadUserData(user.uuid))).not.toContain('sk-test-123');
+    expect(await revealApiKey(user, user.apiKeys[0])).toBe('sk-test-123');
+  });
+
+  it('should refuse a sealed key copied onto another id', async () => {
+    const user = await createUserWithKey('sk-test-123');
+
+    await expect(revealApiKey(user, { ...user.apiKeys[0], id: '2' })).rejects.toThrow();
+  });
+
+  it('should keep the vault key in memory only until locked', async () => {
+    const user = await createUserWithKey('sk-test-123');
+
+    lockVault(user.uuid);
+
+    expect(isVaultUnlocked(user)).toBe(false);
+    await expect(revealApiKey(user, user.apiKeys[0])).rejects.toThrow('Vault is locked');
+    expect(await unlockVault(user, 'atm_v2_wrong_token')).toBeNull();
+    expect(await unlockVault(user, TOKEN)).not.toBeNull();
+    expect(await revealApiKey(user, user.apiKeys[0])).toBe('sk-test-123');
+  });
+
+  it('should move to a passphrase by re-wrapping every key', async () => {
+    const user = await createUserWithKey('sk-test-123');
+
+    await expect(changeVaultSecret(user, 'passphrase', 'short')).rejects.toThrow('at least 12 characters');
+    const switched = await changeVaultSecret(user, 'passphrase', 'correct horse battery');
+    lockVault();
+
+    expect(switched.vault?.source).toBe('passphrase');
+    expect(isVaultUnlocked(user)).toBe(false);
+    expect(await unlockVault(switched, TOKEN)).toBeNull();
+    expect(await unlockVault(switched, 'correct horse battery')).not.toBeNull();
+    expect(await revealApiKey(switched, switched.apiKeys[0])).toBe('sk-test-123');
+  });
+
+  it('should re-seal keys saved before the vault existed', async () => {
+    const created = await createUser('hash-a', 'user');
+    const legacy: ApiKey = { id: '1', provider: 'openai', key: await encryptApiKey('sk-legacy', created.uuid), usage: 0, limit: 0 };
+    const user = await saveUserData({ ...created, apiKeys: [legacy] });
+
+    const unlocked = (await unlockVault(user, TOKEN))!;
+
+    expect(isWrappedEnvelope(unlocked.apiKeys[0].key)).toBe(true);
+    expect(await revealApiKey(unlocked, unlocked.apiKeys[0])).toBe('sk-legacy');
+    await expect(decryptApiKey(unlocked.apiKeys[0].key, created.uuid)).rejects.toThrow();
+  });
+
+  it('should re-derive an under-cost vault on unlock without losing keys', async () => {
+    vi.stubEnv('VITE_KDF_ITERATIONS', '1000');
+    const user = await createUserWithKey('sk-test-123');
+    lockVault();
+
+    vi.stubEnv('VITE_KDF_ITERATIONS', '2000');
+    const unlocked = (await unlockVault(user, TOKEN))!;
+    vi.unstubAllEnvs();
+
+    expect(unlocked.vault?.iterations).toBe(2000);
+    expect(unlocked.vault?.salt).not.toEqual(user.vault?.salt);
+    expect(await revealApiKey(unlocked, unlocked.apiKeys[0])).toBe('sk-test-123');
+    expect(await loadUserData(user.uuid)).toEqual(unlocked);
+  });
+
+  it('should not offer a vault to accounts that are never stored', () => {
+    expect(isVaultAvailable({ uuid: ENV_ADMIN_UUID } as UserData)).toBe(false);
+    expect(isVaultAvailable({ uuid: 'admin-bypass-001' } as UserData)).toBe(false);
+    expect(isVaultAvailable(null)).toBe(false);
+  });
+});